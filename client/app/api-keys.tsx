@@ -0,0 +1,10 @@
+import { ApiKeysScreen } from "@/screens";
+import { AuthGuard } from "@/components";
+
+export default function ApiKeys() {
+  return (
+    <AuthGuard>
+      <ApiKeysScreen />
+    </AuthGuard>
+  );
+}
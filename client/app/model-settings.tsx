@@ -0,0 +1,10 @@
+import { ModelSettingsScreen } from "@/screens";
+import { AuthGuard } from "@/components";
+
+export default function ModelSettings() {
+  return (
+    <AuthGuard>
+      <ModelSettingsScreen />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,6 @@
+import { Redirect } from 'expo-router';
+
+// Target of the OAuth deep link; the browser session already handed the result to the app
+export default function OAuthRedirect() {
+  return <Redirect href="/" />;
+}
@@ -0,0 +1,10 @@
+import { PersonasScreen } from "@/screens";
+import { AuthGuard } from "@/components";
+
+export default function Personas() {
+  return (
+    <AuthGuard>
+      <PersonasScreen />
+    </AuthGuard>
+  );
+}
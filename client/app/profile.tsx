@@ -0,0 +1,10 @@
+import { ProfileScreen } from "@/screens";
+import { AuthGuard } from "@/components";
+
+export default function Profile() {
+  return (
+    <AuthGuard>
+      <ProfileScreen />
+    </AuthGuard>
+  );
+}
@@ -1,11 +1,18 @@
+import { useLocalSearchParams } from 'expo-router';
 import { ResetPasswordScreen } from '@/screens';
 import { GuestGuard } from '@/components';
 
 export default function ResetPassword() {
+  const { token } = useLocalSearchParams<{ token?: string }>();
+
+  // A reset link has to work on a device that is still signed in, too
+  if (token) {
+    return <ResetPasswordScreen />;
+  }
+
   return (
     <GuestGuard>
       <ResetPasswordScreen />
     </GuestGuard>
   );
 }
-
@@ -0,0 +1,10 @@
+import { SessionsScreen } from "@/screens";
+import { AuthGuard } from "@/components";
+
+export default function Sessions() {
+  return (
+    <AuthGuard>
+      <SessionsScreen />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,10 @@
+import { TwoFactorScreen } from "@/screens";
+import { AuthGuard } from "@/components";
+
+export default function TwoFactor() {
+  return (
+    <AuthGuard>
+      <TwoFactorScreen />
+    </AuthGuard>
+  );
+}
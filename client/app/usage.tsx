@@ -0,0 +1,10 @@
+import { UsageScreen } from "@/screens";
+import { AuthGuard } from "@/components";
+
+export default function Usage() {
+  return (
+    <AuthGuard>
+      <UsageScreen />
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,6 @@
+import { VerifyEmailScreen } from '@/screens';
+
+// Opened from the verification email, whether or not the user is signed in on this device
+export default function VerifyEmail() {
+  return <VerifyEmailScreen />;
+}
@@ -5,6 +5,8 @@ import { Ionicons } from '@expo/vector-icons';
 interface ChatInputProps {
   onSend: (message: string) => void;
   disabled?: boolean;
+  isGenerating?: boolean;
+  onStop?: () => void;
   onAttachmentPress?: () => void;
   selectedImage?: { uri: string; type: 'camera' | 'photos' } | null;
   selectedDocument?: { uri: string; name: string; mimeType?: string } | null;
@@ -15,6 +17,8 @@ interface ChatInputProps {
 export const ChatInput: React.FC<ChatInputProps> = ({ 
   onSend, 
   disabled, 
+  isGenerating,
+  onStop,
   onAttachmentPress,
   selectedImage,
   selectedDocument,
@@ -24,7 +28,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   const [message, setMessage] = useState('');
 
   const handleSend = () => {
-    if ((message.trim() || selectedImage || selectedDocument) && !disabled) {
+    if ((message.trim() || selectedImage || selectedDocument) && !disabled && !isGenerating) {
       const defaultText = selectedImage ? 'Analyze this image' : selectedDocument ? 'Analyze this document' : '';
       onSend(message.trim() || defaultText);
       setMessage('');
@@ -86,12 +90,12 @@ export const ChatInput: React.FC<ChatInputProps> = ({
               <TouchableOpacity 
                 onPress={onAttachmentPress}
                 className="rounded-full active:bg-zinc-700"
-                disabled={disabled}
+                disabled={disabled || isGenerating}
               >
                 <Ionicons 
                   name="add-circle" 
                   size={24} 
-                  color={disabled ? '#52525b' : '#a1a1aa'} 
+                  color={disabled || isGenerating ? '#52525b' : '#a1a1aa'} 
                 />
               </TouchableOpacity>
               
@@ -108,21 +112,31 @@ export const ChatInput: React.FC<ChatInputProps> = ({
               />
             </View>
             
-            <TouchableOpacity 
-              onPress={handleSend}
-              disabled={(!message.trim() && !hasAttachment) || disabled}
-              className={`w-12 h-12 rounded-full items-center justify-center ${
-                (message.trim() || hasAttachment) && !disabled
-                  ? 'bg-violet-500 active:bg-violet-600' 
-                  : 'bg-zinc-800'
-              }`}
-            >
-              <Ionicons 
-                name="arrow-up" 
-                size={22} 
-                color={(message.trim() || hasAttachment) && !disabled ? 'white' : '#52525b'} 
-              />
-            </TouchableOpacity>
+            {/* Stop button replaces send while a response is being generated */}
+            {isGenerating ? (
+              <TouchableOpacity 
+                onPress={onStop}
+                className="w-12 h-12 rounded-full items-center justify-center bg-zinc-100 active:bg-zinc-300"
+              >
+                <Ionicons name="stop" size={18} color="#18181b" />
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity 
+                onPress={handleSend}
+                disabled={(!message.trim() && !hasAttachment) || disabled}
+                className={`w-12 h-12 rounded-full items-center justify-center ${
+                  (message.trim() || hasAttachment) && !disabled
+                    ? 'bg-violet-500 active:bg-violet-600' 
+                    : 'bg-zinc-800'
+                }`}
+              >
+                <Ionicons 
+                  name="arrow-up" 
+                  size={22} 
+                  color={(message.trim() || hasAttachment) && !disabled ? 'white' : '#52525b'} 
+                />
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
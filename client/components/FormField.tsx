@@ -0,0 +1,17 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+
+interface FormFieldProps {
+  label: string;
+  hint?: string;
+  children: React.ReactNode;
+}
+
+// Labelled wrapper for a settings form input
+export const FormField: React.FC<FormFieldProps> = ({ label, hint, children }) => (
+  <View className="mb-4">
+    <Text className="text-zinc-400 text-sm font-medium mb-2">{label}</Text>
+    {children}
+    {hint && <Text className="text-zinc-500 text-xs mt-1.5">{hint}</Text>}
+  </View>
+);
@@ -1,6 +1,7 @@
-import React, { useEffect } from 'react';
-import { View, Text, Image } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, TouchableOpacity, TextInput } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { GestureDetector, Gesture } from 'react-native-gesture-handler';
 import Animated, { 
   useSharedValue,
   useAnimatedStyle,
@@ -8,6 +9,7 @@ import Animated, {
   withTiming,
   withSequence,
   cancelAnimation,
+  runOnJS,
   FadeIn,
   FadeInDown,
 } from 'react-native-reanimated';
@@ -20,10 +22,36 @@ interface MessageBubbleProps {
   imageUri?: string;
   documentUri?: string;
   documentName?: string;
+  truncated?: boolean;
+  variantIndex?: number;
+  variantCount?: number;
+  onPreviousVariant?: () => void;
+  onNextVariant?: () => void;
+  onRegenerate?: () => void;
+  onEdit?: (text: string) => void;
 }
 
-const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, isUser, isStreaming = false, imageUri, documentUri, documentName }) => {
+// Horizontal distance a swipe must travel to switch variants
+const SWIPE_THRESHOLD = 60;
+
+const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({
+  message,
+  isUser,
+  isStreaming = false,
+  imageUri,
+  documentUri,
+  documentName,
+  truncated,
+  variantIndex = 0,
+  variantCount = 1,
+  onPreviousVariant,
+  onNextVariant,
+  onRegenerate,
+  onEdit,
+}) => {
   const cursorOpacity = useSharedValue(1);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message);
 
   useEffect(() => {
     if (isStreaming) {
@@ -50,12 +78,85 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, isUser,
     opacity: cursorOpacity.value,
   }));
 
+  const hasPrevious = variantIndex > 0;
+  const hasNext = variantIndex < variantCount - 1;
+
+  // Swipe left for the next variant, right for the previous one
+  const swipeGesture = Gesture.Pan()
+    .enabled(variantCount > 1 && !isStreaming)
+    .activeOffsetX([-20, 20])
+    .failOffsetY([-15, 15])
+    .onEnd((event) => {
+      if (event.translationX < -SWIPE_THRESHOLD && hasNext && onNextVariant) {
+        runOnJS(onNextVariant)();
+      } else if (event.translationX > SWIPE_THRESHOLD && hasPrevious && onPreviousVariant) {
+        runOnJS(onPreviousVariant)();
+      }
+    });
+
+  const variantSwitcher = variantCount > 1 && (
+    <View className="flex-row items-center gap-1">
+      <TouchableOpacity onPress={onPreviousVariant} disabled={!hasPrevious} className="p-1">
+        <Ionicons name="chevron-back" size={16} color={hasPrevious ? '#a1a1aa' : '#3f3f46'} />
+      </TouchableOpacity>
+      <Text className="text-zinc-400 text-xs">
+        {variantIndex + 1}/{variantCount}
+      </Text>
+      <TouchableOpacity onPress={onNextVariant} disabled={!hasNext} className="p-1">
+        <Ionicons name="chevron-forward" size={16} color={hasNext ? '#a1a1aa' : '#3f3f46'} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const startEditing = () => {
+    setDraft(message);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const text = draft.trim();
+    setIsEditing(false);
+    if (text && text !== message.trim() && onEdit) {
+      onEdit(text);
+    }
+  };
+
+  if (isUser && isEditing) {
+    // Editing a sent message - saving it starts a new branch from here
+    return (
+      <View className="w-full px-4 py-3">
+        <View className="bg-zinc-800 rounded-3xl px-5 py-3">
+          <TextInput
+            value={draft}
+            onChangeText={setDraft}
+            multiline
+            autoFocus
+            className="text-white text-base leading-6 max-h-40"
+            placeholderTextColor="#71717a"
+          />
+          <View className="flex-row justify-end gap-2 mt-3">
+            <TouchableOpacity onPress={() => setIsEditing(false)} className="px-4 py-2 rounded-full bg-zinc-700">
+              <Text className="text-zinc-200 text-sm font-medium">Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={saveEdit}
+              disabled={!draft.trim()}
+              className={`px-4 py-2 rounded-full ${draft.trim() ? 'bg-violet-500' : 'bg-zinc-700'}`}
+            >
+              <Text className="text-white text-sm font-medium">Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
   if (isUser) {
     // User message - bubble on the right
     return (
       <Animated.View 
         entering={FadeInDown.duration(150)}
-        className="w-full px-4 py-3 flex-row justify-end"
+        className="w-full px-4 py-3 items-end"
       >
         <View className="max-w-[75%] bg-violet-500 rounded-3xl px-5 py-3">
           {imageUri && (
@@ -84,6 +185,19 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, isUser,
             {message}
           </Text>
         </View>
+
+        {/* Variant switcher and edit action */}
+        {(variantCount > 1 || onEdit) && (
+          <View className="flex-row items-center gap-3 mt-2">
+            {variantSwitcher}
+            {onEdit && (
+              <TouchableOpacity onPress={startEditing} className="flex-row items-center gap-1 p-1">
+                <Ionicons name="create-outline" size={14} color="#a1a1aa" />
+                <Text className="text-zinc-400 text-xs">Edit</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
       </Animated.View>
     );
   }
@@ -94,29 +208,50 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, isUser,
   const animationProps = isStreaming ? {} : { entering: FadeIn.duration(150) };
 
   return (
-    <AnimatedContainer 
-      {...animationProps}
-      className="w-full px-4 py-3"
-    >
-      <View className="w-full">
-        <Text className="text-zinc-500 text-xs font-medium mb-2 uppercase tracking-wide">
-          Borz AI
-        </Text>
-        {message ? (
-          <MarkdownContent content={message} isStreaming={isStreaming} />
-        ) : null}
-        {isStreaming && (
-          <Animated.Text 
-            style={[
-              { color: '#a78bfa', fontWeight: 'bold', marginTop: 4 },
-              cursorAnimatedStyle
-            ]}
-          >
-            ▊
-          </Animated.Text>
-        )}
-      </View>
-    </AnimatedContainer>
+    <GestureDetector gesture={swipeGesture}>
+      <AnimatedContainer 
+        {...animationProps}
+        className="w-full px-4 py-3"
+      >
+        <View className="w-full">
+          <Text className="text-zinc-500 text-xs font-medium mb-2 uppercase tracking-wide">
+            Borz AI
+          </Text>
+          {message ? (
+            <MarkdownContent content={message} isStreaming={isStreaming} />
+          ) : null}
+          {isStreaming && (
+            <Animated.Text 
+              style={[
+                { color: '#a78bfa', fontWeight: 'bold', marginTop: 4 },
+                cursorAnimatedStyle
+              ]}
+            >
+              ▊
+            </Animated.Text>
+          )}
+          {truncated && !isStreaming && (
+            <View className="flex-row items-center gap-1 mt-2">
+              <Ionicons name="stop-circle-outline" size={14} color="#71717a" />
+              <Text className="text-zinc-500 text-xs">Response stopped</Text>
+            </View>
+          )}
+
+          {/* Variant switcher and regenerate action */}
+          {!isStreaming && (variantCount > 1 || onRegenerate) && (
+            <View className="flex-row items-center gap-3 mt-2">
+              {variantSwitcher}
+              {onRegenerate && (
+                <TouchableOpacity onPress={onRegenerate} className="flex-row items-center gap-1 p-1">
+                  <Ionicons name="refresh" size={14} color="#a1a1aa" />
+                  <Text className="text-zinc-400 text-xs">Regenerate</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </View>
+      </AnimatedContainer>
+    </GestureDetector>
   );
 };
 
@@ -132,7 +267,12 @@ export const MessageBubble = React.memo(
         prevProps.isStreaming === nextProps.isStreaming &&
         prevProps.imageUri === nextProps.imageUri &&
         prevProps.documentUri === nextProps.documentUri &&
-        prevProps.documentName === nextProps.documentName
+        prevProps.documentName === nextProps.documentName &&
+        prevProps.truncated === nextProps.truncated &&
+        prevProps.variantIndex === nextProps.variantIndex &&
+        prevProps.variantCount === nextProps.variantCount &&
+        !prevProps.onRegenerate === !nextProps.onRegenerate &&
+        !prevProps.onEdit === !nextProps.onEdit
       );
     }
     
@@ -143,7 +283,12 @@ export const MessageBubble = React.memo(
       prevProps.isStreaming === nextProps.isStreaming &&
       prevProps.imageUri === nextProps.imageUri &&
       prevProps.documentUri === nextProps.documentUri &&
-      prevProps.documentName === nextProps.documentName
+      prevProps.documentName === nextProps.documentName &&
+      prevProps.truncated === nextProps.truncated &&
+      prevProps.variantIndex === nextProps.variantIndex &&
+      prevProps.variantCount === nextProps.variantCount &&
+      !prevProps.onRegenerate === !nextProps.onRegenerate &&
+      !prevProps.onEdit === !nextProps.onEdit
     );
   }
 );
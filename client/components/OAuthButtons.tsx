@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import AuthService from '@/services/auth.service';
+import type { OAuthProvider, OAuthProviderName } from '@/services';
+import { useAuthStore } from '@/stores';
+
+// Closes the auth popup when the app runs on the web
+WebBrowser.maybeCompleteAuthSession();
+
+const PROVIDER_ICONS: Record<OAuthProviderName, keyof typeof Ionicons.glyphMap> = {
+  google: 'logo-google',
+  github: 'logo-github',
+};
+
+// "Continue with ..." buttons for each provider the server offers; renders nothing if there are none
+export const OAuthButtons: React.FC = () => {
+  const router = useRouter();
+  const loginWithOAuth = useAuthStore(state => state.loginWithOAuth);
+  const [providers, setProviders] = useState<OAuthProvider[]>([]);
+  const [activeProvider, setActiveProvider] = useState<OAuthProviderName | null>(null);
+
+  useEffect(() => {
+    AuthService.getOAuthProviders()
+      .then(({ providers }) => setProviders(providers))
+      .catch(error => console.error('Failed to load sign-in providers:', error));
+  }, []);
+
+  const handlePress = async (provider: OAuthProvider) => {
+    setActiveProvider(provider.name);
+    try {
+      if (await loginWithOAuth(provider.name)) {
+        router.replace('/chat' as any);
+      } else if (useAuthStore.getState().twoFactorChallenge) {
+        // The login screen asks for the 2FA code
+        router.replace('/login' as any);
+      }
+    } catch (error: any) {
+      Alert.alert('Sign In Failed', error.message || `Could not sign in with ${provider.label}`);
+    } finally {
+      setActiveProvider(null);
+    }
+  };
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="mt-6">
+      <View className="flex-row items-center mb-6">
+        <View className="flex-1 h-px bg-zinc-800" />
+        <Text className="text-zinc-500 text-sm mx-3">or</Text>
+        <View className="flex-1 h-px bg-zinc-800" />
+      </View>
+
+      {providers.map(provider => (
+        <TouchableOpacity
+          key={provider.name}
+          onPress={() => handlePress(provider)}
+          disabled={activeProvider !== null}
+          className={`bg-zinc-900 border border-zinc-800 rounded-xl py-4 flex-row items-center justify-center gap-2 mb-3 ${
+            activeProvider !== null ? 'opacity-70' : 'active:bg-zinc-800'
+          }`}
+        >
+          {activeProvider === provider.name ? (
+            <ActivityIndicator color="#ffffff" />
+          ) : (
+            <>
+              <Ionicons name={PROVIDER_ICONS[provider.name] ?? 'log-in-outline'} size={20} color="#ffffff" />
+              <Text className="text-white text-base font-semibold">Continue with {provider.label}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import AuthService from '@/services/auth.service';
+import type { PasswordRule } from '@/services';
+
+interface PasswordRulesProps {
+  password: string;
+}
+
+// Wait for a pause in typing before asking the server
+const CHECK_DELAY_MS = 300;
+
+// Live checklist of the server's password policy for the password being typed
+export const PasswordRules: React.FC<PasswordRulesProps> = ({ password }) => {
+  const [rules, setRules] = useState<PasswordRule[]>([]);
+
+  useEffect(() => {
+    if (!password) {
+      setRules([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      AuthService.checkPassword(password)
+        .then(result => {
+          if (!cancelled) setRules(result.rules);
+        })
+        .catch(error => {
+          console.error('Failed to check password:', error);
+        });
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [password]);
+
+  if (rules.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="mt-2 ml-1">
+      {rules.map(rule => (
+        <View key={rule.id} className="flex-row items-center mb-1">
+          <Ionicons
+            name={rule.passed ? 'checkmark-circle' : 'ellipse-outline'}
+            size={14}
+            color={rule.passed ? '#22c55e' : '#71717a'}
+          />
+          <Text className={`text-xs ml-2 ${rule.passed ? 'text-zinc-400' : 'text-zinc-500'}`}>
+            {rule.message}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+};
@@ -1,5 +1,5 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, TouchableOpacity, ScrollView, Dimensions, Pressable, ActivityIndicator } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, FlatList, Dimensions, Pressable, ActivityIndicator, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { GestureDetector, Gesture } from 'react-native-gesture-handler';
@@ -12,10 +12,76 @@ import Animated, {
   Extrapolate
 } from 'react-native-reanimated';
 import { useRouter } from 'expo-router';
-import { useChatStore, useAuthStore } from '@/stores';
+import { useChatStore, useAuthStore, matchesChatFilter } from '@/stores';
+import type { Chat } from '@/stores';
+import { ChatService } from '@/services';
+import type { ChatListFilters, MessageSearchResult, SearchHighlight } from '@/services';
 
 const SIDEBAR_WIDTH = Dimensions.get('window').width * 0.85;
 
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Chip choices above the chat list; folders are added after these
+const CHAT_VIEWS: { key: string; label: string; filter: () => ChatListFilters }[] = [
+  { key: 'all', label: 'All', filter: () => ({}) },
+  { key: 'pinned', label: 'Pinned', filter: () => ({ pinned: true }) },
+  { key: 'week', label: 'Past Week', filter: () => ({ from: new Date(Date.now() - WEEK_MS).toISOString() }) },
+  { key: 'archived', label: 'Archived', filter: () => ({ archived: true }) },
+];
+
+const viewKey = (filter: ChatListFilters): string => {
+  if (filter.archived) return 'archived';
+  if (filter.folder !== undefined) return `folder:${filter.folder}`;
+  if (filter.pinned) return 'pinned';
+  if (filter.from) return 'week';
+  return 'all';
+};
+
+const FilterChip: React.FC<{ label: string; icon?: keyof typeof Ionicons.glyphMap; selected: boolean; onPress: () => void }> = ({
+  label,
+  icon,
+  selected,
+  onPress,
+}) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`flex-row items-center gap-1 px-3 py-1.5 rounded-full mr-2 ${
+      selected ? 'bg-violet-500/20 border border-violet-500/30' : 'bg-zinc-800 active:bg-zinc-700'
+    }`}
+  >
+    {icon && <Ionicons name={icon} size={12} color={selected ? '#c4b5fd' : '#a1a1aa'} />}
+    <Text className={`text-xs font-medium ${selected ? 'text-violet-300' : 'text-zinc-400'}`}>{label}</Text>
+  </TouchableOpacity>
+);
+
+// Snippet text with the matched words emphasized
+const HighlightedSnippet: React.FC<{ snippet: string; highlights: SearchHighlight[] }> = ({ snippet, highlights }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach((highlight, index) => {
+    if (highlight.start > position) {
+      parts.push(snippet.slice(position, highlight.start));
+    }
+    parts.push(
+      <Text key={index} className="text-violet-300 font-semibold">
+        {snippet.slice(highlight.start, highlight.start + highlight.length)}
+      </Text>
+    );
+    position = highlight.start + highlight.length;
+  });
+  parts.push(snippet.slice(position));
+
+  return (
+    <Text className="text-zinc-400 text-sm" numberOfLines={3}>
+      {parts}
+    </Text>
+  );
+};
+
 interface SidebarProps {
   visible: boolean;
   onClose: () => void;
@@ -28,10 +94,21 @@ export const Sidebar: React.FC<SidebarProps> = ({ visible, onClose }) => {
   const currentChatId = useChatStore(state => state.currentChatId);
   const createNewChat = useChatStore(state => state.createNewChat);
   const switchChat = useChatStore(state => state.switchChat);
+  const jumpToMessage = useChatStore(state => state.jumpToMessage);
   const deleteChat = useChatStore(state => state.deleteChat);
-  const isLoading = useChatStore(state => state.isLoading);
+  const chatFilter = useChatStore(state => state.chatFilter);
+  const folders = useChatStore(state => state.folders);
+  const setChatFilter = useChatStore(state => state.setChatFilter);
+  const loadMoreChats = useChatStore(state => state.loadMoreChats);
+  const isLoadingMoreChats = useChatStore(state => state.isLoadingMoreChats);
+  const organizeChat = useChatStore(state => state.organizeChat);
   const [isAnimating, setIsAnimating] = useState(false);
   const [isCreatingChat, setIsCreatingChat] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [expandedChatId, setExpandedChatId] = useState<string | null>(null);
+  const [folderDraft, setFolderDraft] = useState<string | null>(null); // Folder name being typed for the expanded chat
   const translateX = useSharedValue(-SIDEBAR_WIDTH);
 
   useEffect(() => {
@@ -45,6 +122,39 @@ export const Sidebar: React.FC<SidebarProps> = ({ visible, onClose }) => {
     }
   }, [visible]);
 
+  // Search as the user types; a newer query makes older responses irrelevant
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timeout = setTimeout(() => {
+      ChatService.searchMessages(query)
+        .then(({ results }) => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch(error => console.error('Search failed:', error))
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  const handleResultSelect = async (result: MessageSearchResult) => {
+    onClose();
+    await jumpToMessage(result.chatId, result.messageId);
+  };
+
   const handleChatSelect = async (chatId: string) => {
     await switchChat(chatId);
     onClose();
@@ -62,11 +172,45 @@ export const Sidebar: React.FC<SidebarProps> = ({ visible, onClose }) => {
     }
   };
 
-  const handleDeleteChat = (chatId: string, e: any) => {
-    e.stopPropagation();
+  const handleDeleteChat = (chatId: string) => {
+    setExpandedChatId(null);
     deleteChat(chatId);
   };
 
+  // Pages hold the current filter's chats, but the open chat and chats just created or moved are kept too
+  const visibleChats = useMemo(
+    () => chats
+      .filter(chat => matchesChatFilter(chat, chatFilter))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    [chats, chatFilter]
+  );
+
+  const selectedView = viewKey(chatFilter);
+
+  const toggleChatActions = (chatId: string) => {
+    setExpandedChatId(expandedChatId === chatId ? null : chatId);
+    setFolderDraft(null);
+  };
+
+  const handleOrganize = async (chat: Chat, changes: Parameters<typeof organizeChat>[1]) => {
+    try {
+      await organizeChat(chat.id, changes);
+      setExpandedChatId(null);
+      setFolderDraft(null);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update chat');
+    }
+  };
+
+  const handleSaveFolder = (chat: Chat) => {
+    const folder = folderDraft?.trim() || null;
+    if (folder === (chat.folder ?? null)) {
+      setFolderDraft(null);
+      return;
+    }
+    handleOrganize(chat, { folder });
+  };
+
   const formatDate = (isoString: string) => {
     const date = new Date(isoString);
     const now = new Date();
@@ -210,47 +354,173 @@ export const Sidebar: React.FC<SidebarProps> = ({ visible, onClose }) => {
                   {isCreatingChat ? 'Creating...' : 'New Chat'}
                 </Text>
               </TouchableOpacity>
+
+              {/* Search */}
+              <View className="flex-row items-center bg-zinc-800 rounded-xl px-3 mt-3">
+                <Ionicons name="search" size={18} color="#71717a" />
+                <TextInput
+                  className="flex-1 text-white text-base ml-2 py-2.5"
+                  placeholder="Search messages"
+                  placeholderTextColor="#71717a"
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  returnKeyType="search"
+                />
+                {searchQuery.length > 0 && (
+                  <TouchableOpacity onPress={() => setSearchQuery('')} className="p-1">
+                    <Ionicons name="close-circle" size={18} color="#71717a" />
+                  </TouchableOpacity>
+                )}
+              </View>
             </View>
 
             {/* Chat History */}
-            <ScrollView 
-              className="flex-1 px-2 py-2"
-              showsVerticalScrollIndicator={false}
-            >
-              {chats.length === 0 ? (
-                <View className="flex-1 items-center justify-center py-20">
-                  <Ionicons name="chatbubbles-outline" size={48} color="#52525b" />
-                  <Text className="text-zinc-500 text-center text-base mt-4">
-                    No chat history yet
-                  </Text>
-                  <Text className="text-zinc-600 text-center text-sm mt-2 px-8">
-                    Start a new conversation to see it here
-                  </Text>
-                </View>
-              ) : (
-                <View>
-                  <Text className="text-zinc-500 text-xs font-medium px-3 mb-2">
-                    RECENT CHATS
-                  </Text>
-                  {chats.map((chat) => (
+            {searchQuery.trim() ? (
+              <ScrollView 
+                className="flex-1 px-2 py-2"
+                showsVerticalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+              >
+                {isSearching && searchResults.length === 0 ? (
+                  <View className="items-center py-10">
+                    <ActivityIndicator color="#8b5cf6" />
+                  </View>
+                ) : searchResults.length === 0 ? (
+                  <View className="items-center py-20">
+                    <Ionicons name="search-outline" size={48} color="#52525b" />
+                    <Text className="text-zinc-500 text-center text-base mt-4">
+                      No matching messages
+                    </Text>
+                  </View>
+                ) : (
+                  <View>
+                    <Text className="text-zinc-500 text-xs font-medium px-3 mb-2">
+                      SEARCH RESULTS
+                    </Text>
+                    {searchResults.map((result) => (
+                      <TouchableOpacity
+                        key={result.messageId}
+                        onPress={() => handleResultSelect(result)}
+                        className="mx-1 mb-1 p-3 rounded-xl bg-zinc-800/50 active:bg-zinc-800"
+                      >
+                        <View className="flex-row items-center justify-between mb-1">
+                          <Text className="flex-1 text-zinc-200 text-sm font-medium mr-2" numberOfLines={1}>
+                            {result.chatTitle}
+                          </Text>
+                          <Text className="text-zinc-500 text-xs">
+                            {formatDate(result.createdAt)}
+                          </Text>
+                        </View>
+                        <Text className="text-zinc-500 text-xs mb-1">
+                          {result.role === 'user' ? 'You' : 'Borz AI'}
+                        </Text>
+                        <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </ScrollView>
+            ) : (
+              <FlatList
+                data={visibleChats}
+                keyExtractor={(chat) => chat.id}
+                className="flex-1 px-2 py-2"
+                showsVerticalScrollIndicator={false}
+                keyboardShouldPersistTaps="handled"
+                onEndReached={loadMoreChats}
+                onEndReachedThreshold={0.5}
+                ListHeaderComponent={
+                  <View>
+                    {/* Filters */}
+                    <ScrollView
+                      horizontal
+                      showsHorizontalScrollIndicator={false}
+                      className="mb-3"
+                      contentContainerStyle={{ paddingHorizontal: 4 }}
+                    >
+                      {CHAT_VIEWS.map(view => (
+                        <FilterChip
+                          key={view.key}
+                          label={view.label}
+                          selected={selectedView === view.key}
+                          onPress={() => setChatFilter(view.filter())}
+                        />
+                      ))}
+                      {folders.map(folder => (
+                        <FilterChip
+                          key={folder}
+                          label={folder}
+                          icon="folder-outline"
+                          selected={selectedView === `folder:${folder}`}
+                          onPress={() => setChatFilter({ folder })}
+                        />
+                      ))}
+                    </ScrollView>
+                    {visibleChats.length > 0 && (
+                      <Text className="text-zinc-500 text-xs font-medium px-3 mb-2">
+                        {selectedView === 'all' ? 'RECENT CHATS' : 'CHATS'}
+                      </Text>
+                    )}
+                  </View>
+                }
+                ListEmptyComponent={
+                  selectedView === 'all' ? (
+                    <View className="flex-1 items-center justify-center py-20">
+                      <Ionicons name="chatbubbles-outline" size={48} color="#52525b" />
+                      <Text className="text-zinc-500 text-center text-base mt-4">
+                        No chat history yet
+                      </Text>
+                      <Text className="text-zinc-600 text-center text-sm mt-2 px-8">
+                        Start a new conversation to see it here
+                      </Text>
+                    </View>
+                  ) : (
+                    <View className="items-center py-20">
+                      <Ionicons name="filter-outline" size={48} color="#52525b" />
+                      <Text className="text-zinc-500 text-center text-base mt-4">
+                        No chats here
+                      </Text>
+                    </View>
+                  )
+                }
+                ListFooterComponent={
+                  isLoadingMoreChats ? (
+                    <View className="py-4 items-center">
+                      <ActivityIndicator color="#8b5cf6" />
+                    </View>
+                  ) : null
+                }
+                renderItem={({ item: chat }) => (
+                  <View
+                    className={`mx-1 mb-1 rounded-xl ${
+                      currentChatId === chat.id 
+                        ? 'bg-violet-500/20 border border-violet-500/30' 
+                        : 'bg-zinc-800/50'
+                    }`}
+                  >
                     <TouchableOpacity
-                      key={chat.id}
                       onPress={() => handleChatSelect(chat.id)}
-                      className={`mx-1 mb-1 p-3 rounded-xl flex-row items-center justify-between ${
-                        currentChatId === chat.id 
-                          ? 'bg-violet-500/20 border border-violet-500/30' 
-                          : 'bg-zinc-800/50 active:bg-zinc-800'
-                      }`}
+                      className="p-3 rounded-xl flex-row items-center justify-between active:bg-zinc-800"
                     >
                       <View className="flex-1 mr-2">
-                        <Text 
-                          className={`text-base font-medium mb-1 ${
-                            currentChatId === chat.id ? 'text-violet-300' : 'text-zinc-200'
-                          }`}
-                          numberOfLines={1}
-                        >
-                          {chat.title}
-                        </Text>
+                        <View className="flex-row items-center gap-1 mb-1">
+                          {chat.pinnedAt && <Ionicons name="pin" size={12} color="#a78bfa" />}
+                          <Text 
+                            className={`flex-1 text-base font-medium ${
+                              currentChatId === chat.id ? 'text-violet-300' : 'text-zinc-200'
+                            }`}
+                            numberOfLines={1}
+                          >
+                            {chat.title}
+                          </Text>
+                        </View>
+                        {chat.lastMessagePreview ? (
+                          <Text className="text-zinc-400 text-sm mb-1" numberOfLines={1}>
+                            {chat.lastMessagePreview}
+                          </Text>
+                        ) : null}
                         <View className="flex-row items-center gap-2">
                           <Text className="text-zinc-500 text-xs">
                             {chat.messageCount ?? chat.messages.length} {(chat.messageCount ?? chat.messages.length) === 1 ? 'message' : 'messages'}
@@ -259,20 +529,84 @@ export const Sidebar: React.FC<SidebarProps> = ({ visible, onClose }) => {
                           <Text className="text-zinc-500 text-xs">
                             {formatDate(chat.updatedAt)}
                           </Text>
+                          {chat.folder && (
+                            <>
+                              <Text className="text-zinc-600">•</Text>
+                              <Text className="flex-shrink text-zinc-500 text-xs" numberOfLines={1}>
+                                {chat.folder}
+                              </Text>
+                            </>
+                          )}
                         </View>
                       </View>
                       
                       <TouchableOpacity
-                        onPress={(e) => handleDeleteChat(chat.id, e)}
+                        onPress={() => toggleChatActions(chat.id)}
                         className="p-2 rounded-lg active:bg-zinc-700"
                       >
-                        <Ionicons name="trash-outline" size={18} color="#71717a" />
+                        <Ionicons name="ellipsis-horizontal" size={18} color="#71717a" />
                       </TouchableOpacity>
                     </TouchableOpacity>
-                  ))}
-                </View>
-              )}
-            </ScrollView>
+
+                    {/* Chat actions */}
+                    {expandedChatId === chat.id && (
+                      folderDraft !== null ? (
+                        <View className="flex-row items-center px-3 pb-3 gap-2">
+                          <TextInput
+                            className="flex-1 bg-zinc-900 text-white text-sm rounded-lg px-3 py-2"
+                            placeholder="Folder name (empty to remove)"
+                            placeholderTextColor="#71717a"
+                            value={folderDraft}
+                            onChangeText={setFolderDraft}
+                            onSubmitEditing={() => handleSaveFolder(chat)}
+                            maxLength={50}
+                            autoFocus
+                            returnKeyType="done"
+                          />
+                          <TouchableOpacity
+                            onPress={() => handleSaveFolder(chat)}
+                            className="p-2 rounded-lg bg-violet-500 active:bg-violet-600"
+                          >
+                            <Ionicons name="checkmark" size={16} color="white" />
+                          </TouchableOpacity>
+                        </View>
+                      ) : (
+                        <View className="flex-row justify-around px-2 pb-2">
+                          <TouchableOpacity
+                            onPress={() => handleOrganize(chat, { pinned: !chat.pinnedAt })}
+                            className="items-center p-2 rounded-lg active:bg-zinc-700"
+                          >
+                            <Ionicons name={chat.pinnedAt ? 'pin' : 'pin-outline'} size={18} color="#a1a1aa" />
+                            <Text className="text-zinc-400 text-xs mt-1">{chat.pinnedAt ? 'Unpin' : 'Pin'}</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            onPress={() => setFolderDraft(chat.folder ?? '')}
+                            className="items-center p-2 rounded-lg active:bg-zinc-700"
+                          >
+                            <Ionicons name="folder-outline" size={18} color="#a1a1aa" />
+                            <Text className="text-zinc-400 text-xs mt-1">Folder</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            onPress={() => handleOrganize(chat, { archived: !chat.archivedAt })}
+                            className="items-center p-2 rounded-lg active:bg-zinc-700"
+                          >
+                            <Ionicons name="archive-outline" size={18} color="#a1a1aa" />
+                            <Text className="text-zinc-400 text-xs mt-1">{chat.archivedAt ? 'Unarchive' : 'Archive'}</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            onPress={() => handleDeleteChat(chat.id)}
+                            className="items-center p-2 rounded-lg active:bg-zinc-700"
+                          >
+                            <Ionicons name="trash-outline" size={18} color="#f87171" />
+                            <Text className="text-red-400 text-xs mt-1">Delete</Text>
+                          </TouchableOpacity>
+                        </View>
+                      )
+                    )}
+                  </View>
+                )}
+              />
+            )}
 
             {/* User Profile Footer */}
             <View className="px-3 py-3 border-t border-zinc-800">
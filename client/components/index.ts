@@ -8,3 +8,6 @@ export { AuthGuard } from './AuthGuard';
 export { GuestGuard } from './GuestGuard';
 export { MarkdownContent } from './MarkdownContent';
 
+export { FormField } from './FormField';
+export { PasswordRules } from './PasswordRules';
+export { OAuthButtons } from './OAuthButtons';
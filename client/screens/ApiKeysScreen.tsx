@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { SettingsService } from '@/services';
+import type { ApiKeyProvider, SavedApiKey } from '@/services';
+
+const PROVIDERS: { key: ApiKeyProvider; label: string; placeholder: string }[] = [
+  { key: 'gemini', label: 'Google Gemini', placeholder: 'AIza...' },
+  { key: 'openai', label: 'OpenAI', placeholder: 'sk-...' },
+];
+
+export const ApiKeysScreen: React.FC = () => {
+  const router = useRouter();
+  const [savedKeys, setSavedKeys] = useState<SavedApiKey[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<ApiKeyProvider, string>>>({});
+  const [savingProvider, setSavingProvider] = useState<ApiKeyProvider | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    SettingsService.getApiKeys()
+      .then(({ apiKeys }) => setSavedKeys(apiKeys))
+      .catch(() => {
+        Alert.alert('Error', 'Failed to load API keys. Please try again.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSave = async (provider: ApiKeyProvider) => {
+    const apiKey = drafts[provider]?.trim();
+    if (!apiKey) return;
+
+    setSavingProvider(provider);
+    try {
+      const { apiKey: saved } = await SettingsService.saveApiKey(provider, apiKey);
+      setSavedKeys(keys => [...keys.filter(key => key.provider !== provider), saved]);
+      setDrafts(current => ({ ...current, [provider]: '' }));
+    } catch (error) {
+      Alert.alert('Could not save key', error instanceof Error ? error.message : 'Failed to save API key.');
+    } finally {
+      setSavingProvider(null);
+    }
+  };
+
+  const handleRemove = (provider: ApiKeyProvider) => {
+    Alert.alert(
+      'Remove API Key',
+      'Responses will use the shared key again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await SettingsService.deleteApiKey(provider);
+              setSavedKeys(keys => keys.filter(key => key.provider !== provider));
+            } catch (error) {
+              console.error('Failed to remove API key:', error);
+              Alert.alert('Error', 'Failed to remove API key. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top']}>
+      <View className="flex-1">
+        {/* Header */}
+        <View className="px-4 py-4 border-b border-zinc-800 flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="p-2 bg-zinc-800 rounded-lg active:bg-zinc-700 mr-3"
+          >
+            <Ionicons name="arrow-back" size={24} color="#a1a1aa" />
+          </TouchableOpacity>
+          <Text className="text-white text-2xl font-bold">API Keys</Text>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator color="#8b5cf6" />
+          </View>
+        ) : (
+          <ScrollView
+            className="flex-1"
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+          >
+            <Text className="text-zinc-500 text-sm mb-6">
+              Add your own key to bill responses to your account. Keys are checked with the provider and stored encrypted; they are never shown again.
+            </Text>
+
+            {PROVIDERS.map(provider => {
+              const saved = savedKeys.find(key => key.provider === provider.key);
+              const draft = drafts[provider.key] || '';
+              const isSaving = savingProvider === provider.key;
+
+              return (
+                <View key={provider.key} className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 mb-4">
+                  <View className="flex-row items-center mb-3">
+                    <View className="w-10 h-10 rounded-full bg-violet-500/20 items-center justify-center mr-3">
+                      <Ionicons name="key-outline" size={20} color="#8b5cf6" />
+                    </View>
+                    <View className="flex-1">
+                      <Text className="text-white text-base font-medium mb-0.5">{provider.label}</Text>
+                      <Text className="text-zinc-400 text-sm">
+                        {saved ? `Your key ending in ${saved.keyHint}` : 'Using the shared key'}
+                      </Text>
+                    </View>
+                    {saved && (
+                      <TouchableOpacity onPress={() => handleRemove(provider.key)} className="p-2">
+                        <Ionicons name="trash-outline" size={20} color="#ef4444" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  <View className="flex-row items-center gap-2">
+                    <TextInput
+                      className="flex-1 bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base"
+                      placeholder={saved ? 'Replace key' : provider.placeholder}
+                      placeholderTextColor="#52525b"
+                      value={draft}
+                      onChangeText={value => setDrafts(current => ({ ...current, [provider.key]: value }))}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      secureTextEntry
+                    />
+                    <TouchableOpacity
+                      onPress={() => handleSave(provider.key)}
+                      disabled={!draft.trim() || isSaving}
+                      className={`rounded-xl px-4 py-3 ${draft.trim() ? 'bg-violet-500 active:bg-violet-600' : 'bg-zinc-800'}`}
+                    >
+                      {isSaving ? (
+                        <ActivityIndicator color="#ffffff" />
+                      ) : (
+                        <Text className="text-white font-semibold text-base">Save</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
@@ -1,5 +1,5 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { View, ScrollView, Text, TouchableOpacity } from 'react-native';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { View, FlatList, Text, TouchableOpacity, ActivityIndicator, type ListRenderItem } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Animated, { useAnimatedKeyboard, useAnimatedStyle } from 'react-native-reanimated';
 import { Ionicons } from '@expo/vector-icons';
@@ -36,20 +36,30 @@ export const ChatScreen: React.FC = () => {
   const sendMessage = useChatStore(state => state.sendMessage);
   const sendMessageWithImage = useChatStore(state => state.sendMessageWithImage);
   const sendMessageWithDocument = useChatStore(state => state.sendMessageWithDocument);
+  const stopGeneration = useChatStore(state => state.stopGeneration);
+  const regenerateResponse = useChatStore(state => state.regenerateResponse);
+  const editMessage = useChatStore(state => state.editMessage);
+  const switchVariant = useChatStore(state => state.switchVariant);
   const refreshChats = useChatStore(state => state.refreshChats);
   const isThinking = useChatStore(state => state.isThinking);
   const isStreaming = useChatStore(state => state.isStreaming);
   const streamingMessage = useChatStore(state => state.streamingMessage);
+  const highlightedMessageId = useChatStore(state => state.highlightedMessageId);
+  const clearHighlightedMessage = useChatStore(state => state.clearHighlightedMessage);
+  const loadOlderMessages = useChatStore(state => state.loadOlderMessages);
+  const isLoadingOlder = useChatStore(state => state.isLoadingOlder);
   
   const [sidebarVisible, setSidebarVisible] = useState(false);
   const [selectedImage, setSelectedImage] = useState<{ uri: string; type: 'camera' | 'photos' } | null>(null);
   const [selectedDocument, setSelectedDocument] = useState<{ uri: string; name: string; mimeType?: string } | null>(null);
-  const scrollViewRef = useRef<ScrollView>(null);
+  const listRef = useRef<FlatList<Message>>(null);
   const attachmentBottomSheetRef = useRef<BottomSheetModal>(null);
   const scrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isStreamingRef = useRef(isStreaming);
 
-  const messages = currentChat?.messages || [];
+  const messages = useMemo(() => currentChat?.messages || [], [currentChat?.messages]);
+  const reversedMessages = useMemo(() => [...messages].reverse(), [messages]);
+  const newestMessageId = messages[messages.length - 1]?.id;
 
   // Load chats on mount
   useEffect(() => {
@@ -66,15 +76,42 @@ export const ChatScreen: React.FC = () => {
       clearTimeout(scrollTimeoutRef.current);
     }
     
+    // The list is inverted, so the bottom is offset 0
     scrollTimeoutRef.current = setTimeout(() => {
-      scrollViewRef.current?.scrollToEnd({ animated });
+      listRef.current?.scrollToOffset({ offset: 0, animated });
     }, 50);
   };
 
-  // Scroll on messages change
+  // Scroll down when a message is added, but not when older ones load or a highlighted message is shown
   useEffect(() => {
-    scrollToBottom(true);
-  }, [messages]);
+    if (!useChatStore.getState().highlightedMessageId) {
+      scrollToBottom(true);
+    }
+  }, [newestMessageId]);
+
+  // Show the highlighted message and fade the highlight after a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const index = reversedMessages.findIndex(message => message.id === highlightedMessageId);
+    if (index >= 0) {
+      if (scrollTimeoutRef.current) {
+        clearTimeout(scrollTimeoutRef.current);
+      }
+      listRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    }
+
+    const timeout = setTimeout(clearHighlightedMessage, 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId, clearHighlightedMessage]);
+
+  // Rows far from the viewport aren't measured yet: jump to an estimate, then retry once they render
+  const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+    listRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+    setTimeout(() => {
+      listRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  };
 
   // Smooth scroll during streaming with throttling
   useEffect(() => {
@@ -110,6 +147,22 @@ export const ChatScreen: React.FC = () => {
     }
   };
 
+  const handleRegenerate = async (messageId: string) => {
+    try {
+      await regenerateResponse(messageId);
+    } catch (error) {
+      console.error('Failed to regenerate response:', error);
+    }
+  };
+
+  const handleEdit = async (messageId: string, text: string) => {
+    try {
+      await editMessage(messageId, text);
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+    }
+  };
+
   const handleSuggestionPress = (text: string) => {
     handleSend(text);
   };
@@ -140,6 +193,35 @@ export const ChatScreen: React.FC = () => {
     setSelectedDocument(null);
   };
 
+  // `index` counts from the newest message, since the list is inverted
+  const renderMessage: ListRenderItem<Message> = ({ item: message, index }) => {
+    const siblingIds = message.siblingIds || [message.id];
+    const variantIndex = Math.max(0, siblingIds.indexOf(message.id));
+    // Only the latest answer can be regenerated, and not while another is in progress
+    const canRegenerate = !message.isUser && index === 0 && !isThinking && !isStreaming;
+    const canEdit = message.isUser && !message.id.startsWith('temp-') && !isThinking && !isStreaming;
+
+    return (
+      <View className={message.id === highlightedMessageId ? 'bg-violet-500/10' : ''}>
+        <MessageBubble
+          message={message.text}
+          isUser={message.isUser}
+          isStreaming={false}
+          imageUri={message.imageUri}
+          documentUri={message.documentUri}
+          documentName={message.documentName}
+          truncated={message.truncated}
+          variantIndex={variantIndex}
+          variantCount={siblingIds.length}
+          onPreviousVariant={() => switchVariant(siblingIds[variantIndex - 1])}
+          onNextVariant={() => switchVariant(siblingIds[variantIndex + 1])}
+          onRegenerate={canRegenerate ? () => handleRegenerate(message.id) : undefined}
+          onEdit={canEdit ? (text) => handleEdit(message.id, text) : undefined}
+        />
+      </View>
+    );
+  };
+
   // Animated keyboard handling - only for input
   const keyboard = useAnimatedKeyboard();
   const inputAnimatedStyles = useAnimatedStyle(() => ({
@@ -170,60 +252,69 @@ export const ChatScreen: React.FC = () => {
         {messages.length === 0 ? (
           <EmptyState onSuggestionPress={handleSuggestionPress} />
         ) : (
-          <ScrollView 
-            ref={scrollViewRef}
+          // Inverted so the newest message sits at offset 0: replies stay in view and
+          // older pages load at the top without shifting what is on screen
+          <FlatList
+            ref={listRef}
+            data={reversedMessages}
+            keyExtractor={(message) => message.id}
+            renderItem={renderMessage}
+            inverted
             className="flex-1"
-            contentContainerStyle={{ paddingTop: 60, paddingBottom: 16 }}
+            contentContainerStyle={{ paddingTop: 16, paddingBottom: 60 }}
             showsVerticalScrollIndicator={false}
             keyboardShouldPersistTaps="handled"
             removeClippedSubviews={true}
-          >
-            {messages.map((message) => (
-              <MessageBubble
-                key={message.id}
-                message={message.text}
-                isUser={message.isUser}
-                isStreaming={false}
-                imageUri={message.imageUri}
-                documentUri={message.documentUri}
-                documentName={message.documentName}
-              />
-            ))}
-            
-            {/* Thinking indicator - shows before streaming starts */}
-            {isThinking && (
-              <View className="w-full px-4 py-3 flex-row justify-start">
-                <View className="max-w-[85%]">
-                  <Text className="text-zinc-500 text-xs font-medium mb-2 uppercase tracking-wide">
-                    Borz AI
-                  </Text>
-                  <View className="flex-row items-center gap-2">
-                    <View className="w-2 h-2 bg-violet-400 rounded-full opacity-100 animate-pulse" />
-                    <View className="w-2 h-2 bg-violet-400 rounded-full opacity-75 animate-pulse" style={{ animationDelay: '150ms' }} />
-                    <View className="w-2 h-2 bg-violet-400 rounded-full opacity-50 animate-pulse" style={{ animationDelay: '300ms' }} />
-                    <Text className="text-zinc-400 text-sm ml-1">Thinking...</Text>
+            initialNumToRender={15}
+            windowSize={11}
+            onEndReached={loadOlderMessages}
+            onEndReachedThreshold={0.5}
+            onScrollToIndexFailed={handleScrollToIndexFailed}
+            ListHeaderComponent={
+              <>
+                {/* Thinking indicator - shows before streaming starts */}
+                {isThinking && (
+                  <View className="w-full px-4 py-3 flex-row justify-start">
+                    <View className="max-w-[85%]">
+                      <Text className="text-zinc-500 text-xs font-medium mb-2 uppercase tracking-wide">
+                        Borz AI
+                      </Text>
+                      <View className="flex-row items-center gap-2">
+                        <View className="w-2 h-2 bg-violet-400 rounded-full opacity-100 animate-pulse" />
+                        <View className="w-2 h-2 bg-violet-400 rounded-full opacity-75 animate-pulse" style={{ animationDelay: '150ms' }} />
+                        <View className="w-2 h-2 bg-violet-400 rounded-full opacity-50 animate-pulse" style={{ animationDelay: '300ms' }} />
+                        <Text className="text-zinc-400 text-sm ml-1">Thinking...</Text>
+                      </View>
+                    </View>
                   </View>
+                )}
+
+                {/* Streaming message - shows during AI response */}
+                {isStreaming && (
+                  <MessageBubble
+                    message={streamingMessage}
+                    isUser={false}
+                    isStreaming={true}
+                  />
+                )}
+              </>
+            }
+            ListFooterComponent={
+              isLoadingOlder ? (
+                <View className="py-4 items-center">
+                  <ActivityIndicator color="#8b5cf6" />
                 </View>
-              </View>
-            )}
-            
-            {/* Streaming message - shows during AI response */}
-            {isStreaming && (
-              <MessageBubble
-                key="streaming-message"
-                message={streamingMessage}
-                isUser={false}
-                isStreaming={true}
-              />
-            )}
-          </ScrollView>
+              ) : null
+            }
+          />
         )}
         
         {/* Input - moves up with keyboard */}
         <Animated.View style={inputAnimatedStyles}>
           <ChatInput 
             onSend={handleSend} 
-            disabled={isThinking || isStreaming}
+            isGenerating={isThinking || isStreaming}
+            onStop={stopGeneration}
             onAttachmentPress={handleOpenAttachments}
             selectedImage={selectedImage}
             selectedDocument={selectedDocument}
@@ -5,10 +5,107 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { useAuthStore } from '@/stores';
+import { OAuthButtons } from '@/components';
+
+// Second sign-in step for accounts with two-factor authentication
+const TwoFactorStep: React.FC = () => {
+  const router = useRouter();
+  const verifyTwoFactor = useAuthStore(state => state.verifyTwoFactor);
+  const cancelTwoFactor = useAuthStore(state => state.cancelTwoFactor);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      Alert.alert('Error', useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the 6-digit code');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await verifyTwoFactor(code.trim());
+      router.replace('/chat' as any);
+    } catch (error: any) {
+      Alert.alert('Verification Failed', error.message || 'An error occurred during verification');
+      if (/sign in again/i.test(error.message || '')) {
+        cancelTwoFactor();
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+  };
+
+  return (
+    <Animated.View entering={FadeInDown.duration(600).springify()}>
+      <View className="items-center mb-10">
+        <View className="w-20 h-20 bg-zinc-900 border border-zinc-800 rounded-3xl items-center justify-center mb-4">
+          <Ionicons name="shield-checkmark-outline" size={40} color="#a78bfa" />
+        </View>
+        <Text className="text-white text-3xl font-bold mb-2">Two-Factor Check</Text>
+        <Text className="text-zinc-400 text-base text-center">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when turning on two-factor authentication'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </Text>
+      </View>
+
+      <Text className="text-zinc-400 text-sm font-medium mb-2 ml-1">
+        {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+      </Text>
+      <View className="flex-row items-center bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-1">
+        <Ionicons name={useRecoveryCode ? 'document-lock-outline' : 'keypad-outline'} size={20} color="#71717a" />
+        <TextInput
+          className="flex-1 text-white text-base ml-3 leading-tight py-2"
+          placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+          placeholderTextColor="#52525b"
+          value={code}
+          onChangeText={setCode}
+          keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+          autoComplete={useRecoveryCode ? 'off' : 'one-time-code'}
+          autoCapitalize="none"
+          autoCorrect={false}
+          maxLength={useRecoveryCode ? 32 : 6}
+          autoFocus
+          onSubmitEditing={handleVerify}
+        />
+      </View>
+
+      <TouchableOpacity onPress={toggleRecoveryCode} className="self-end mt-4">
+        <Text className="text-violet-400 text-sm font-medium">
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        onPress={handleVerify}
+        disabled={isLoading}
+        className={`bg-violet-400 rounded-xl py-4 items-center justify-center mt-6 ${
+          isLoading ? 'opacity-70' : 'active:opacity-80'
+        }`}
+      >
+        <Text className="text-white text-base font-semibold">
+          {isLoading ? 'Verifying...' : 'Verify'}
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity onPress={cancelTwoFactor} className="items-center mt-6">
+        <Text className="text-zinc-400 text-base">Back to sign in</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
 
 export const LoginScreen: React.FC = () => {
   const router = useRouter();
   const login = useAuthStore(state => state.login);
+  const twoFactorChallenge = useAuthStore(state => state.twoFactorChallenge);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -23,8 +120,10 @@ export const LoginScreen: React.FC = () => {
     setIsLoading(true);
     
     try {
-      await login({ email, password });
-      router.replace('/chat' as any);
+      // Otherwise the screen switches to the 2FA code step
+      if (await login({ email, password })) {
+        router.replace('/chat' as any);
+      }
     } catch (error: any) {
       Alert.alert('Login Failed', error.message || 'An error occurred during login');
     } finally {
@@ -53,112 +152,120 @@ export const LoginScreen: React.FC = () => {
           keyboardShouldPersistTaps="handled"
         >
           <View className="flex-1 px-6 justify-center py-8">
-            {/* Logo/Brand Section */}
-            <Animated.View 
-              entering={FadeInUp.duration(600).springify()}
-              className="items-center mb-12"
-            >
-              <View className="w-24 h-24 bg-gradient-to-br from-violet-500 to-purple-600 rounded-3xl items-center justify-center mb-4 shadow-lg shadow-violet-500/50">
-                <Text className="text-white text-5xl font-bold">B</Text>
-              </View>
-              <Text className="text-white text-3xl font-bold mb-2">Welcome Back</Text>
-              <Text className="text-zinc-400 text-base text-center">
-                Sign in to continue your AI conversations
-              </Text>
-            </Animated.View>
-
-            {/* Login Form */}
-            <Animated.View 
-              entering={FadeInDown.duration(600).delay(200).springify()}
-              className="space-y-5"
-            >
-              {/* Email Input */}
-              <View>
-                <Text className="text-zinc-400 text-sm font-medium mb-2 ml-1">
-                  Email Address
-                </Text>
-                <View className="flex-row items-center bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-1">
-                  <Ionicons name="mail-outline" size={20} color="#71717a" />
-                  <TextInput
-                    className="flex-1 text-white text-base ml-3 leading-tight py-2"
-                    placeholder="Enter your email"
-                    placeholderTextColor="#52525b"
-                    value={email}
-                    onChangeText={setEmail}
-                    keyboardType="email-address"
-                    autoCapitalize="none"
-                    autoComplete="email"
-                  />
-                </View>
-              </View>
-
-              {/* Password Input */}
-              <View className='mt-4'>
-                <Text className="text-zinc-400 text-sm font-medium mb-2 ml-1">
-                  Password
-                </Text>
-                <View className="flex-row items-center bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-1">
-                  <Ionicons name="lock-closed-outline" size={20} color="#71717a" />
-                  <TextInput
-                    className="flex-1 text-white text-base ml-3 leading-tight py-2"
-                    placeholder="Enter your password"
-                    placeholderTextColor="#52525b"
-                    value={password}
-                    onChangeText={setPassword}
-                    secureTextEntry={!showPassword}
-                    autoCapitalize="none"
-                  />
+            {twoFactorChallenge ? (
+              <TwoFactorStep />
+            ) : (
+              <>
+                {/* Logo/Brand Section */}
+                <Animated.View 
+                  entering={FadeInUp.duration(600).springify()}
+                  className="items-center mb-12"
+                >
+                  <View className="w-24 h-24 bg-gradient-to-br from-violet-500 to-purple-600 rounded-3xl items-center justify-center mb-4 shadow-lg shadow-violet-500/50">
+                    <Text className="text-white text-5xl font-bold">B</Text>
+                  </View>
+                  <Text className="text-white text-3xl font-bold mb-2">Welcome Back</Text>
+                  <Text className="text-zinc-400 text-base text-center">
+                    Sign in to continue your AI conversations
+                  </Text>
+                </Animated.View>
+
+                {/* Login Form */}
+                <Animated.View 
+                  entering={FadeInDown.duration(600).delay(200).springify()}
+                  className="space-y-5"
+                >
+                  {/* Email Input */}
+                  <View>
+                    <Text className="text-zinc-400 text-sm font-medium mb-2 ml-1">
+                      Email Address
+                    </Text>
+                    <View className="flex-row items-center bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-1">
+                      <Ionicons name="mail-outline" size={20} color="#71717a" />
+                      <TextInput
+                        className="flex-1 text-white text-base ml-3 leading-tight py-2"
+                        placeholder="Enter your email"
+                        placeholderTextColor="#52525b"
+                        value={email}
+                        onChangeText={setEmail}
+                        keyboardType="email-address"
+                        autoCapitalize="none"
+                        autoComplete="email"
+                      />
+                    </View>
+                  </View>
+
+                  {/* Password Input */}
+                  <View className='mt-4'>
+                    <Text className="text-zinc-400 text-sm font-medium mb-2 ml-1">
+                      Password
+                    </Text>
+                    <View className="flex-row items-center bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-1">
+                      <Ionicons name="lock-closed-outline" size={20} color="#71717a" />
+                      <TextInput
+                        className="flex-1 text-white text-base ml-3 leading-tight py-2"
+                        placeholder="Enter your password"
+                        placeholderTextColor="#52525b"
+                        value={password}
+                        onChangeText={setPassword}
+                        secureTextEntry={!showPassword}
+                        autoCapitalize="none"
+                      />
+                      <TouchableOpacity
+                        onPress={() => setShowPassword(!showPassword)}
+                        className="ml-2"
+                      >
+                        <Ionicons
+                          name={showPassword ? 'eye-outline' : 'eye-off-outline'}
+                          size={20}
+                          color="#71717a"
+                        />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+
+                  {/* Forgot Password Link */}
                   <TouchableOpacity
-                    onPress={() => setShowPassword(!showPassword)}
-                    className="ml-2"
+                    onPress={handleForgotPassword}
+                    className="self-end mt-4"
                   >
-                    <Ionicons
-                      name={showPassword ? 'eye-outline' : 'eye-off-outline'}
-                      size={20}
-                      color="#71717a"
-                    />
+                    <Text className="text-violet-400 text-sm font-medium">
+                      Forgot Password?
+                    </Text>
+                  </TouchableOpacity>
+
+                  {/* Login Button */}
+                  <TouchableOpacity
+                    onPress={handleLogin}
+                    disabled={isLoading}
+                    className={`bg-violet-400 rounded-xl py-4 items-center justify-center mt-6 ${
+                      isLoading ? 'opacity-70' : 'active:opacity-80'
+                    }`}
+                  >
+                    <Text className="text-white text-base font-semibold">
+                      {isLoading ? 'Signing In...' : 'Sign In'}
+                    </Text>
+                  </TouchableOpacity>
+
+                  <OAuthButtons />
+                </Animated.View>
+
+                {/* Sign Up Link */}
+                <Animated.View 
+                  entering={FadeInDown.duration(600).delay(400).springify()}
+                  className="flex-row justify-center items-center mt-8"
+                >
+                  <Text className="text-zinc-400 text-base">
+                    Don't have an account?{' '}
+                  </Text>
+                  <TouchableOpacity onPress={handleSignUp}>
+                    <Text className="text-violet-400 text-base font-bold">
+                      Sign Up
+                    </Text>
                   </TouchableOpacity>
-                </View>
-              </View>
-
-              {/* Forgot Password Link */}
-              <TouchableOpacity
-                onPress={handleForgotPassword}
-                className="self-end mt-4"
-              >
-                <Text className="text-violet-400 text-sm font-medium">
-                  Forgot Password?
-                </Text>
-              </TouchableOpacity>
-
-              {/* Login Button */}
-              <TouchableOpacity
-                onPress={handleLogin}
-                disabled={isLoading}
-                className={`bg-violet-400 rounded-xl py-4 items-center justify-center mt-6 ${
-                  isLoading ? 'opacity-70' : 'active:opacity-80'
-                }`}
-              >
-                <Text className="text-white text-base font-semibold">
-                  {isLoading ? 'Signing In...' : 'Sign In'}
-                </Text>
-              </TouchableOpacity>
-            </Animated.View>
-
-            {/* Sign Up Link */}
-            <Animated.View 
-              entering={FadeInDown.duration(600).delay(400).springify()}
-              className="flex-row justify-center items-center mt-8"
-            >
-              <Text className="text-zinc-400 text-base">
-                Don't have an account?{' '}
-              </Text>
-              <TouchableOpacity onPress={handleSignUp}>
-                <Text className="text-violet-400 text-base font-bold">
-                  Sign Up
-                </Text>
-              </TouchableOpacity>
-            </Animated.View>
+                </Animated.View>
+              </>
+            )}
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { FormField } from '@/components';
+import { SettingsService } from '@/services';
+import type { ModelSettings, SafetyCategory, SafetyThreshold } from '@/services';
+
+const SAFETY_CATEGORIES: { key: SafetyCategory; label: string }[] = [
+  { key: 'harassment', label: 'Harassment' },
+  { key: 'hateSpeech', label: 'Hate speech' },
+  { key: 'sexuallyExplicit', label: 'Sexually explicit' },
+  { key: 'dangerousContent', label: 'Dangerous content' },
+];
+
+// undefined = keep the provider's default filtering
+const SAFETY_OPTIONS: { value: SafetyThreshold | undefined; label: string }[] = [
+  { value: undefined, label: 'Default' },
+  { value: 'none', label: 'Off' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+export const ModelSettingsScreen: React.FC = () => {
+  const router = useRouter();
+  const [model, setModel] = useState('');
+  const [temperature, setTemperature] = useState('');
+  const [maxOutputTokens, setMaxOutputTokens] = useState('');
+  const [safetyThresholds, setSafetyThresholds] = useState<ModelSettings['safetyThresholds']>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    SettingsService.getSettings()
+      .then(({ settings }) => {
+        setModel(settings.model || '');
+        setTemperature(settings.temperature !== null ? String(settings.temperature) : '');
+        setMaxOutputTokens(settings.maxOutputTokens !== null ? String(settings.maxOutputTokens) : '');
+        setSafetyThresholds(settings.safetyThresholds);
+      })
+      .catch(() => {
+        Alert.alert('Error', 'Failed to load model settings. Please try again.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const setThreshold = (category: SafetyCategory, threshold: SafetyThreshold | undefined) => {
+    setSafetyThresholds(current => {
+      const next = { ...current };
+      if (threshold) {
+        next[category] = threshold;
+      } else {
+        delete next[category];
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const parsedTemperature = temperature.trim() ? Number(temperature) : null;
+    const parsedMaxTokens = maxOutputTokens.trim() ? Number(maxOutputTokens) : null;
+
+    if (parsedTemperature !== null && (Number.isNaN(parsedTemperature) || parsedTemperature < 0 || parsedTemperature > 2)) {
+      Alert.alert('Invalid temperature', 'Temperature must be a number between 0 and 2.');
+      return;
+    }
+    if (parsedMaxTokens !== null && (!Number.isInteger(parsedMaxTokens) || parsedMaxTokens < 1)) {
+      Alert.alert('Invalid max tokens', 'Max output tokens must be a whole number greater than 0.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await SettingsService.updateSettings({
+        model: model.trim() || null,
+        temperature: parsedTemperature,
+        maxOutputTokens: parsedMaxTokens,
+        safetyThresholds,
+      });
+      router.back();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save model settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setModel('');
+    setTemperature('');
+    setMaxOutputTokens('');
+    setSafetyThresholds({});
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top']}>
+      <View className="flex-1">
+        {/* Header */}
+        <View className="px-4 py-4 border-b border-zinc-800 flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="p-2 bg-zinc-800 rounded-lg active:bg-zinc-700 mr-3"
+          >
+            <Ionicons name="arrow-back" size={24} color="#a1a1aa" />
+          </TouchableOpacity>
+          <Text className="text-white text-2xl font-bold">Model Settings</Text>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator color="#8b5cf6" />
+          </View>
+        ) : (
+          <ScrollView
+            className="flex-1"
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+          >
+            <Text className="text-zinc-500 text-sm mb-4">
+              These apply to every chat. A chat&apos;s persona can override the model and temperature. Leave a field empty to use the provider default.
+            </Text>
+
+            <FormField label="Model" hint="e.g. gemini-2.5-pro">
+              <TextInput
+                className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base"
+                placeholder="Provider default"
+                placeholderTextColor="#52525b"
+                value={model}
+                onChangeText={setModel}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </FormField>
+            <FormField label="Temperature" hint="0 is focused and repeatable, 2 is the most varied">
+              <TextInput
+                className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base"
+                placeholder="0.7"
+                placeholderTextColor="#52525b"
+                value={temperature}
+                onChangeText={setTemperature}
+                keyboardType="decimal-pad"
+              />
+            </FormField>
+            <FormField label="Max output tokens" hint="Upper limit on the length of each response">
+              <TextInput
+                className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base"
+                placeholder="Provider default"
+                placeholderTextColor="#52525b"
+                value={maxOutputTokens}
+                onChangeText={setMaxOutputTokens}
+                keyboardType="number-pad"
+              />
+            </FormField>
+
+            <Text className="text-zinc-500 text-xs font-medium mt-2 mb-3 uppercase tracking-wide">
+              Safety filters
+            </Text>
+            <Text className="text-zinc-500 text-xs mb-3">
+              Block content from this harm level up. Only supported by Gemini.
+            </Text>
+            {SAFETY_CATEGORIES.map(category => (
+              <View key={category.key} className="mb-4">
+                <Text className="text-zinc-400 text-sm font-medium mb-2">{category.label}</Text>
+                <View className="flex-row gap-2">
+                  {SAFETY_OPTIONS.map(option => {
+                    const selected = safetyThresholds[category.key] === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.label}
+                        onPress={() => setThreshold(category.key, option.value)}
+                        className={`flex-1 py-2 rounded-lg items-center border ${selected ? 'bg-violet-500/20 border-violet-500' : 'bg-zinc-900 border-zinc-800'}`}
+                      >
+                        <Text className={`text-xs font-medium ${selected ? 'text-violet-300' : 'text-zinc-400'}`}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+
+            <TouchableOpacity
+              onPress={handleSave}
+              disabled={isSaving}
+              className="bg-violet-500 rounded-xl py-4 items-center mt-2 active:bg-violet-600"
+            >
+              {isSaving ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text className="text-white font-semibold text-base">Save Settings</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleReset}
+              className="rounded-xl py-4 items-center mt-3 active:bg-zinc-900"
+            >
+              <Text className="text-zinc-400 font-medium text-base">Reset to Defaults</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { FormField } from '@/components';
+import { useChatStore, usePersonaStore } from '@/stores';
+import type { Persona } from '@/services';
+
+// Form state; temperature is kept as text while the user types
+interface PersonaDraft {
+  id?: string;
+  name: string;
+  systemPrompt: string;
+  temperature: string;
+  model: string;
+}
+
+const emptyDraft: PersonaDraft = { name: '', systemPrompt: '', temperature: '', model: '' };
+
+const toDraft = (persona: Persona): PersonaDraft => ({
+  id: persona.id,
+  name: persona.name,
+  systemPrompt: persona.systemPrompt,
+  temperature: persona.temperature !== null ? String(persona.temperature) : '',
+  model: persona.model || '',
+});
+
+export const PersonasScreen: React.FC = () => {
+  const router = useRouter();
+  const currentChat = useChatStore(state => state.currentChat());
+  const setChatPersona = useChatStore(state => state.setChatPersona);
+  const personas = usePersonaStore(state => state.personas);
+  const isLoading = usePersonaStore(state => state.isLoading);
+  const loadPersonas = usePersonaStore(state => state.loadPersonas);
+  const createPersona = usePersonaStore(state => state.createPersona);
+  const updatePersona = usePersonaStore(state => state.updatePersona);
+  const deletePersona = usePersonaStore(state => state.deletePersona);
+
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadPersonas().catch(() => {
+      Alert.alert('Error', 'Failed to load personas. Please try again.');
+    });
+  }, [loadPersonas]);
+
+  const handleGoBack = () => {
+    if (draft) {
+      setDraft(null);
+    } else {
+      router.back();
+    }
+  };
+
+  const handleSelect = async (personaId: string | null) => {
+    if (!currentChat) return;
+
+    try {
+      await setChatPersona(currentChat.id, personaId);
+    } catch (error) {
+      console.error('Failed to update chat persona:', error);
+      Alert.alert('Error', 'Failed to update this chat. Please try again.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const systemPrompt = draft.systemPrompt.trim();
+    const temperature = draft.temperature.trim() ? Number(draft.temperature) : null;
+
+    if (!name || !systemPrompt) {
+      Alert.alert('Missing details', 'A persona needs a name and a system prompt.');
+      return;
+    }
+    if (temperature !== null && (Number.isNaN(temperature) || temperature < 0 || temperature > 2)) {
+      Alert.alert('Invalid temperature', 'Temperature must be a number between 0 and 2.');
+      return;
+    }
+
+    const input = { name, systemPrompt, temperature, model: draft.model.trim() || null };
+
+    setIsSaving(true);
+    try {
+      if (draft.id) {
+        await updatePersona(draft.id, input);
+      } else {
+        const persona = await createPersona(input);
+        // A persona created from a chat is most likely meant for it
+        if (currentChat) {
+          await setChatPersona(currentChat.id, persona.id);
+        }
+      }
+      setDraft(null);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save persona.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    const personaId = draft?.id;
+    if (!personaId) return;
+
+    Alert.alert(
+      'Delete Persona',
+      'Chats using this persona will go back to the default Borz behavior.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePersona(personaId);
+              setDraft(null);
+            } catch (error) {
+              console.error('Failed to delete persona:', error);
+              Alert.alert('Error', 'Failed to delete persona. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const PersonaRow = ({
+    title,
+    subtitle,
+    selected,
+    onPress,
+    onEdit,
+    isLast = false,
+  }: {
+    title: string;
+    subtitle: string;
+    selected: boolean;
+    onPress?: () => void;
+    onEdit?: () => void;
+    isLast?: boolean;
+  }) => (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={!onPress}
+      className={`flex-row items-center px-4 py-4 ${!isLast ? 'border-b border-zinc-800' : ''} ${onPress ? 'active:bg-zinc-800' : ''}`}
+    >
+      <View className="w-10 h-10 rounded-full bg-violet-500/20 items-center justify-center mr-3">
+        <Ionicons name={selected ? 'checkmark' : 'person-outline'} size={20} color="#8b5cf6" />
+      </View>
+      <View className="flex-1">
+        <Text className="text-white text-base font-medium mb-0.5">
+          {title}
+        </Text>
+        <Text className="text-zinc-400 text-sm" numberOfLines={1}>
+          {subtitle}
+        </Text>
+      </View>
+      {onEdit && (
+        <TouchableOpacity onPress={onEdit} className="p-2">
+          <Ionicons name="create-outline" size={20} color="#71717a" />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderEditor = (current: PersonaDraft) => (
+    <ScrollView
+      className="flex-1"
+      keyboardShouldPersistTaps="handled"
+      contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+    >
+      <FormField label="Name">
+        <TextInput
+          className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base"
+          placeholder="e.g. Code Reviewer"
+          placeholderTextColor="#52525b"
+          value={current.name}
+          onChangeText={name => setDraft({ ...current, name })}
+        />
+      </FormField>
+      <FormField label="System prompt">
+        <TextInput
+          className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base min-h-40"
+          placeholder="Describe how the assistant should behave"
+          placeholderTextColor="#52525b"
+          value={current.systemPrompt}
+          onChangeText={systemPrompt => setDraft({ ...current, systemPrompt })}
+          multiline
+          textAlignVertical="top"
+        />
+      </FormField>
+      <FormField label="Temperature (0-2, optional)">
+        <TextInput
+          className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base"
+          placeholder="Default"
+          placeholderTextColor="#52525b"
+          value={current.temperature}
+          onChangeText={temperature => setDraft({ ...current, temperature })}
+          keyboardType="decimal-pad"
+        />
+      </FormField>
+      <FormField label="Default model (optional)">
+        <TextInput
+          className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base"
+          placeholder="Provider default"
+          placeholderTextColor="#52525b"
+          value={current.model}
+          onChangeText={model => setDraft({ ...current, model })}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </FormField>
+
+      <TouchableOpacity
+        onPress={handleSave}
+        disabled={isSaving}
+        className="bg-violet-500 rounded-xl py-4 items-center mt-2 active:bg-violet-600"
+      >
+        {isSaving ? (
+          <ActivityIndicator color="#ffffff" />
+        ) : (
+          <Text className="text-white font-semibold text-base">Save Persona</Text>
+        )}
+      </TouchableOpacity>
+
+      {current.id && (
+        <TouchableOpacity
+          onPress={handleDelete}
+          className="bg-red-500/10 border border-red-500/20 rounded-xl py-4 px-4 flex-row items-center justify-center gap-2 mt-3 active:bg-red-500/20"
+        >
+          <Ionicons name="trash-outline" size={20} color="#ef4444" />
+          <Text className="text-red-500 font-semibold text-base">Delete Persona</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+
+  const activePersonaId = currentChat?.personaId ?? null;
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top']}>
+      <View className="flex-1">
+        {/* Header */}
+        <View className="px-4 py-4 border-b border-zinc-800 flex-row items-center">
+          <TouchableOpacity
+            onPress={handleGoBack}
+            className="p-2 bg-zinc-800 rounded-lg active:bg-zinc-700 mr-3"
+          >
+            <Ionicons name="arrow-back" size={24} color="#a1a1aa" />
+          </TouchableOpacity>
+          <Text className="text-white text-2xl font-bold">
+            {draft ? (draft.id ? 'Edit Persona' : 'New Persona') : 'Chat Behavior'}
+          </Text>
+        </View>
+
+        {draft ? renderEditor(draft) : (
+          <ScrollView
+            className="flex-1"
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={{ paddingTop: 16, paddingBottom: 32 }}
+          >
+            <Text className="text-zinc-500 text-sm px-4 mb-4">
+              {currentChat
+                ? `Choose how Borz behaves in "${currentChat.title}". Changes apply from the next response.`
+                : 'Open a chat to choose its persona. You can still create and edit personas here.'}
+            </Text>
+
+            <View className="mb-6">
+              <Text className="text-zinc-500 text-xs font-medium px-4 mb-3 uppercase tracking-wide">
+                Personas
+              </Text>
+              <View className="bg-zinc-900 mx-3 rounded-xl overflow-hidden border border-zinc-800">
+                <PersonaRow
+                  title="Borz (default)"
+                  subtitle="The standard Borz assistant"
+                  selected={activePersonaId === null}
+                  onPress={currentChat ? () => handleSelect(null) : undefined}
+                  isLast={personas.length === 0}
+                />
+                {personas.map((persona, index) => (
+                  <PersonaRow
+                    key={persona.id}
+                    title={persona.name}
+                    subtitle={persona.systemPrompt}
+                    selected={activePersonaId === persona.id}
+                    onPress={currentChat ? () => handleSelect(persona.id) : undefined}
+                    onEdit={() => setDraft(toDraft(persona))}
+                    isLast={index === personas.length - 1}
+                  />
+                ))}
+              </View>
+              {isLoading && personas.length === 0 && (
+                <ActivityIndicator color="#8b5cf6" className="mt-4" />
+              )}
+            </View>
+
+            <View className="px-3">
+              <TouchableOpacity
+                onPress={() => setDraft(emptyDraft)}
+                className="bg-zinc-900 border border-zinc-800 rounded-xl py-4 px-4 flex-row items-center justify-center gap-2 active:bg-zinc-800"
+              >
+                <Ionicons name="add" size={20} color="#8b5cf6" />
+                <Text className="text-violet-400 font-semibold text-base">New Persona</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,361 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { FormField, PasswordRules } from '@/components';
+import { AuthService } from '@/services';
+import type { LinkedIdentity, OAuthProvider } from '@/services';
+import { useAuthStore } from '@/stores';
+
+// Validation failures carry one issue per broken rule; show those instead of the summary
+const errorMessage = (error: any, fallback: string): string =>
+  error.details?.map((issue: { message: string }) => issue.message).join('\n') || error.error || error.message || fallback;
+
+const inputClassName = 'bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-white text-base';
+
+export const ProfileScreen: React.FC = () => {
+  const router = useRouter();
+  const user = useAuthStore(state => state.user);
+  const updateProfile = useAuthStore(state => state.updateProfile);
+  const deleteAccount = useAuthStore(state => state.deleteAccount);
+  const markPasswordSet = useAuthStore(state => state.markPasswordSet);
+
+  // Accounts created through OAuth have no password until they set one
+  const hasPassword = user?.hasPassword !== false;
+
+  const [name, setName] = useState(user?.name || '');
+  const [email, setEmail] = useState(user?.email || '');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  const [deletePassword, setDeletePassword] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const [providers, setProviders] = useState<OAuthProvider[]>([]);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+
+  useEffect(() => {
+    Promise.all([AuthService.getOAuthProviders(), AuthService.getIdentities()])
+      .then(([{ providers }, { identities }]) => {
+        setProviders(providers);
+        setIdentities(identities);
+      })
+      .catch(error => console.error('Failed to load connected accounts:', error));
+  }, []);
+
+  const emailChanged = email.trim().toLowerCase() !== (user?.email || '');
+  const profileChanged = name.trim() !== (user?.name || '') || emailChanged;
+
+  const handleSaveProfile = async () => {
+    if (!name.trim() || !email.trim()) {
+      Alert.alert('Missing details', 'Name and email are required.');
+      return;
+    }
+    if (emailChanged && hasPassword && !emailPassword) {
+      Alert.alert('Password required', 'Enter your current password to change your email.');
+      return;
+    }
+
+    setIsSavingProfile(true);
+    try {
+      await updateProfile({
+        name: name.trim(),
+        ...(emailChanged ? { email: email.trim(), currentPassword: hasPassword ? emailPassword : undefined } : {}),
+      });
+      setEmailPassword('');
+      if (emailChanged) {
+        Alert.alert('Check Your Email', 'We sent a verification link to your new address.');
+      }
+    } catch (error) {
+      Alert.alert('Error', errorMessage(error, 'Failed to update profile.'));
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if ((hasPassword && !currentPassword) || !newPassword) {
+      Alert.alert('Missing details', hasPassword ? 'Enter your current and new password.' : 'Enter a new password.');
+      return;
+    }
+
+    setIsChangingPassword(true);
+    try {
+      await AuthService.changePassword(hasPassword ? currentPassword : undefined, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      if (hasPassword) {
+        Alert.alert('Password Changed', 'Your other devices have been signed out.');
+      } else {
+        markPasswordSet();
+        Alert.alert('Password Set', 'You can now also sign in with your email and password.');
+      }
+    } catch (error) {
+      Alert.alert('Error', errorMessage(error, 'Failed to change password.'));
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  const handleConnect = async (provider: OAuthProvider) => {
+    try {
+      if (await AuthService.linkIdentity(provider.name)) {
+        const { identities } = await AuthService.getIdentities();
+        setIdentities(identities);
+      }
+    } catch (error) {
+      Alert.alert('Error', errorMessage(error, `Failed to connect ${provider.label}.`));
+    }
+  };
+
+  const handleDisconnect = (provider: OAuthProvider) => {
+    Alert.alert(
+      `Disconnect ${provider.label}`,
+      `You won't be able to sign in with ${provider.label} anymore.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disconnect',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await AuthService.unlinkIdentity(provider.name);
+              setIdentities(current => current.filter(identity => identity.provider !== provider.name));
+            } catch (error) {
+              Alert.alert('Error', errorMessage(error, `Failed to disconnect ${provider.label}.`));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleDeleteAccount = () => {
+    if (hasPassword && !deletePassword) {
+      Alert.alert('Password required', 'Enter your password to delete your account.');
+      return;
+    }
+
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your account and all of your chats. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setIsDeleting(true);
+            try {
+              await deleteAccount(hasPassword ? deletePassword : undefined);
+              router.replace('/login' as any);
+            } catch (error) {
+              Alert.alert('Error', errorMessage(error, 'Failed to delete account.'));
+              setIsDeleting(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top']}>
+      <View className="flex-1">
+        {/* Header */}
+        <View className="px-4 py-4 border-b border-zinc-800 flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="p-2 bg-zinc-800 rounded-lg active:bg-zinc-700 mr-3"
+          >
+            <Ionicons name="arrow-back" size={24} color="#a1a1aa" />
+          </TouchableOpacity>
+          <Text className="text-white text-2xl font-bold">Profile</Text>
+        </View>
+
+        <ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ padding: 16, paddingBottom: 32 }}
+        >
+          {/* Account */}
+          <Text className="text-zinc-500 text-xs font-medium mb-3 uppercase tracking-wide">
+            Account
+          </Text>
+          <FormField label="Name">
+            <TextInput
+              className={inputClassName}
+              placeholder="Your name"
+              placeholderTextColor="#52525b"
+              value={name}
+              onChangeText={setName}
+            />
+          </FormField>
+          <FormField
+            label="Email"
+            hint={user?.isVerified === false ? 'Not verified yet' : undefined}
+          >
+            <TextInput
+              className={inputClassName}
+              placeholder="you@example.com"
+              placeholderTextColor="#52525b"
+              value={email}
+              onChangeText={setEmail}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </FormField>
+          {emailChanged && hasPassword && (
+            <FormField label="Current password" hint="Needed to change your email; the new address must be verified">
+              <TextInput
+                className={inputClassName}
+                placeholder="Current password"
+                placeholderTextColor="#52525b"
+                value={emailPassword}
+                onChangeText={setEmailPassword}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            </FormField>
+          )}
+          <TouchableOpacity
+            onPress={handleSaveProfile}
+            disabled={!profileChanged || isSavingProfile}
+            className={`rounded-xl py-4 items-center mb-8 ${profileChanged ? 'bg-violet-500 active:bg-violet-600' : 'bg-zinc-800'}`}
+          >
+            {isSavingProfile ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text className="text-white font-semibold text-base">Save Profile</Text>
+            )}
+          </TouchableOpacity>
+
+          {/* Password */}
+          <Text className="text-zinc-500 text-xs font-medium mb-3 uppercase tracking-wide">
+            Password
+          </Text>
+          {hasPassword ? (
+            <FormField label="Current password">
+              <TextInput
+                className={inputClassName}
+                placeholder="Current password"
+                placeholderTextColor="#52525b"
+                value={currentPassword}
+                onChangeText={setCurrentPassword}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            </FormField>
+          ) : (
+            <Text className="text-zinc-400 text-sm mb-4">
+              You sign in with a connected account. Set a password to also sign in with your email.
+            </Text>
+          )}
+          <FormField label="New password">
+            <TextInput
+              className={inputClassName}
+              placeholder="New password"
+              placeholderTextColor="#52525b"
+              value={newPassword}
+              onChangeText={setNewPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="new-password"
+            />
+            <PasswordRules password={newPassword} />
+          </FormField>
+          <TouchableOpacity
+            onPress={handleChangePassword}
+            disabled={isChangingPassword}
+            className="bg-zinc-900 border border-zinc-800 rounded-xl py-4 items-center mb-8 active:bg-zinc-800"
+          >
+            {isChangingPassword ? (
+              <ActivityIndicator color="#8b5cf6" />
+            ) : (
+              <Text className="text-violet-400 font-semibold text-base">
+                {hasPassword ? 'Change Password' : 'Set Password'}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          {/* Connected accounts */}
+          {providers.length > 0 && (
+            <>
+              <Text className="text-zinc-500 text-xs font-medium mb-3 uppercase tracking-wide">
+                Connected Accounts
+              </Text>
+              <View className="bg-zinc-900 rounded-xl overflow-hidden border border-zinc-800 mb-8">
+                {providers.map((provider, index) => {
+                  const identity = identities.find(item => item.provider === provider.name);
+                  return (
+                    <View
+                      key={provider.name}
+                      className={`flex-row items-center px-4 py-4 ${index < providers.length - 1 ? 'border-b border-zinc-800' : ''}`}
+                    >
+                      <View className="flex-1">
+                        <Text className="text-white text-base font-medium">{provider.label}</Text>
+                        <Text className="text-zinc-400 text-sm">
+                          {identity ? identity.email || 'Connected' : 'Not connected'}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => identity ? handleDisconnect(provider) : handleConnect(provider)}
+                        className="px-3 py-2"
+                      >
+                        <Text className={`font-semibold text-sm ${identity ? 'text-red-500' : 'text-violet-400'}`}>
+                          {identity ? 'Disconnect' : 'Connect'}
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
+          {/* Danger zone */}
+          <Text className="text-zinc-500 text-xs font-medium mb-3 uppercase tracking-wide">
+            Delete Account
+          </Text>
+          {hasPassword ? (
+            <FormField label="Password" hint="Deletes your account, chats and settings permanently">
+              <TextInput
+                className={inputClassName}
+                placeholder="Confirm with your password"
+                placeholderTextColor="#52525b"
+                value={deletePassword}
+                onChangeText={setDeletePassword}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            </FormField>
+          ) : (
+            <Text className="text-zinc-400 text-sm mb-4">
+              Deletes your account, chats and settings permanently.
+            </Text>
+          )}
+          <TouchableOpacity
+            onPress={handleDeleteAccount}
+            disabled={isDeleting}
+            className="bg-red-500/10 border border-red-500/20 rounded-xl py-4 px-4 flex-row items-center justify-center gap-2 active:bg-red-500/20"
+          >
+            {isDeleting ? (
+              <ActivityIndicator color="#ef4444" />
+            ) : (
+              <>
+                <Ionicons name="trash-outline" size={20} color="#ef4444" />
+                <Text className="text-red-500 font-semibold text-base">Delete Account</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+};
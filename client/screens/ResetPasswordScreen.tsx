@@ -2,15 +2,25 @@ import React, { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import AuthService from '@/services/auth.service';
+import { useAuthStore } from '@/stores';
+import { PasswordRules } from '@/components';
 
 export const ResetPasswordScreen: React.FC = () => {
   const router = useRouter();
+  // Present when the screen is opened from the link in the reset email
+  const { token } = useLocalSearchParams<{ token?: string }>();
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isEmailSent, setIsEmailSent] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isPasswordReset, setIsPasswordReset] = useState(false);
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const logout = useAuthStore(state => state.logout);
 
   const handleResetPassword = async () => {
     if (!email) {
@@ -37,10 +47,164 @@ export const ResetPasswordScreen: React.FC = () => {
     }
   };
 
+  const handleSetNewPassword = async () => {
+    if (!token) return;
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await AuthService.resetPassword(token, newPassword);
+      // The reset ended every session, including this device's
+      if (isAuthenticated) {
+        await logout();
+      }
+      setIsPasswordReset(true);
+    } catch (error: any) {
+      const details = error.details?.map((issue: { message: string }) => issue.message).join('\n');
+      Alert.alert('Error', details || error.error || error.message || 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleBackToLogin = () => {
-    router.back();
+    // Opened from an email link there may be nothing to go back to
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/login' as any);
+    }
   };
 
+  if (isPasswordReset) {
+    return (
+      <SafeAreaView className="flex-1 bg-zinc-950" edges={['top', 'bottom']}>
+        <View className="flex-1 px-6 justify-center">
+          <Animated.View 
+            entering={FadeInUp.duration(600).springify()}
+            className="items-center"
+          >
+            {/* Success Icon */}
+            <View className="w-24 h-24 bg-violet-500/20 rounded-full items-center justify-center mb-6">
+              <View className="w-20 h-20 bg-violet-500/30 rounded-full items-center justify-center">
+                <Ionicons name="checkmark-circle-outline" size={40} color="#8b5cf6" />
+              </View>
+            </View>
+
+            {/* Success Message */}
+            <Text className="text-white text-2xl font-bold mb-3 text-center">
+              Password Updated
+            </Text>
+            <Text className="text-zinc-500 text-sm text-center px-4 mb-8">
+              You&apos;ve been signed out on all devices. Log in with your new password to continue.
+            </Text>
+
+            <TouchableOpacity
+              onPress={() => router.replace('/login' as any)}
+              className="bg-violet-500 rounded-xl py-4 px-8 active:bg-violet-600"
+            >
+              <Text className="text-white text-base font-semibold">
+                Go to Login
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (token) {
+    return (
+      <SafeAreaView className="flex-1 bg-zinc-950" edges={['top', 'bottom']}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          className="flex-1"
+        >
+          <ScrollView
+            className="flex-1"
+            contentContainerStyle={{ flexGrow: 1 }}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View className="flex-1 px-6 justify-center py-8">
+              {/* Header Section */}
+              <Animated.View 
+                entering={FadeInUp.duration(600).springify()}
+                className="items-center mb-8"
+              >
+                <View className="w-20 h-20 bg-violet-500/20 rounded-full items-center justify-center mb-6">
+                  <Ionicons name="key-outline" size={36} color="#8b5cf6" />
+                </View>
+
+                <Text className="text-white text-3xl font-bold mb-3 text-center">
+                  New Password
+                </Text>
+                <Text className="text-zinc-400 text-base text-center px-4">
+                  Choose a new password for your account
+                </Text>
+              </Animated.View>
+
+              {/* New Password Form */}
+              <Animated.View 
+                entering={FadeInDown.duration(600).delay(100).springify()}
+                className="space-y-6"
+              >
+                {[
+                  { label: 'New Password', value: newPassword, onChange: setNewPassword, showRules: true },
+                  { label: 'Confirm Password', value: confirmPassword, onChange: setConfirmPassword, showRules: false },
+                ].map(field => (
+                  <View key={field.label} className="mb-4">
+                    <Text className="text-zinc-400 text-sm font-medium mb-2 ml-1">
+                      {field.label}
+                    </Text>
+                    <View className="flex-row items-center bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-2">
+                      <Ionicons name="lock-closed-outline" size={20} color="#71717a" />
+                      <TextInput
+                        className="flex-1 text-white text-base ml-3 leading-tight py-1"
+                        placeholder={field.label}
+                        placeholderTextColor="#52525b"
+                        value={field.value}
+                        onChangeText={field.onChange}
+                        secureTextEntry={!showPassword}
+                        autoCapitalize="none"
+                        autoComplete="new-password"
+                      />
+                      <TouchableOpacity onPress={() => setShowPassword(!showPassword)} className="p-1">
+                        <Ionicons
+                          name={showPassword ? 'eye-outline' : 'eye-off-outline'}
+                          size={20}
+                          color="#71717a"
+                        />
+                      </TouchableOpacity>
+                    </View>
+                    {field.showRules && <PasswordRules password={field.value} />}
+                  </View>
+                ))}
+
+                <TouchableOpacity
+                  onPress={handleSetNewPassword}
+                  disabled={isLoading}
+                  className={`bg-violet-400 rounded-xl py-4 items-center justify-center mt-4 ${
+                    isLoading ? 'opacity-70' : 'active:scale-[0.98]'
+                  }`}
+                >
+                  <Text className="text-white text-base font-semibold">
+                    {isLoading ? 'Saving...' : 'Set New Password'}
+                  </Text>
+                </TouchableOpacity>
+              </Animated.View>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    );
+  }
+
   if (isEmailSent) {
     return (
       <SafeAreaView className="flex-1 bg-zinc-950" edges={['top', 'bottom']}>
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { AuthService } from '@/services';
+import type { Session } from '@/services';
+
+// Best-effort device name from the user agent the session signed in with
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+  if (/iPhone|iPad|iOS/i.test(userAgent)) return 'iOS device';
+  if (/Android/i.test(userAgent)) return 'Android device';
+  if (/Macintosh|Mac OS/i.test(userAgent)) return 'Mac';
+  if (/Windows/i.test(userAgent)) return 'Windows PC';
+  if (/Linux/i.test(userAgent)) return 'Linux';
+  return 'Unknown device';
+};
+
+export const SessionsScreen: React.FC = () => {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    AuthService.getSessions()
+      .then(({ sessions }) => setSessions(sessions))
+      .catch(() => {
+        Alert.alert('Error', 'Failed to load devices. Please try again.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleRevoke = (session: Session) => {
+    Alert.alert(
+      'Sign Out Device',
+      `${describeDevice(session.userAgent)} will need to sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await AuthService.revokeSession(session.id);
+              setSessions(current => current.filter(item => item.id !== session.id));
+            } catch (error) {
+              console.error('Failed to revoke session:', error);
+              Alert.alert('Error', 'Failed to sign out device. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      'Sign Out Other Devices',
+      'Every other device will need to sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await AuthService.revokeOtherSessions();
+              setSessions(current => current.filter(item => item.current));
+            } catch (error) {
+              console.error('Failed to revoke sessions:', error);
+              Alert.alert('Error', 'Failed to sign out other devices. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const otherSessions = sessions.filter(session => !session.current);
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top']}>
+      <View className="flex-1">
+        {/* Header */}
+        <View className="px-4 py-4 border-b border-zinc-800 flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="p-2 bg-zinc-800 rounded-lg active:bg-zinc-700 mr-3"
+          >
+            <Ionicons name="arrow-back" size={24} color="#a1a1aa" />
+          </TouchableOpacity>
+          <Text className="text-white text-2xl font-bold">Devices</Text>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator color="#8b5cf6" />
+          </View>
+        ) : (
+          <ScrollView
+            className="flex-1"
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={{ paddingTop: 16, paddingBottom: 32 }}
+          >
+            <Text className="text-zinc-500 text-sm px-4 mb-4">
+              Devices signed in to your account. Sign out any you don&apos;t recognize.
+            </Text>
+
+            <View className="bg-zinc-900 mx-3 rounded-xl overflow-hidden border border-zinc-800 mb-6">
+              {sessions.map((session, index) => (
+                <View
+                  key={session.id}
+                  className={`flex-row items-center px-4 py-4 ${index < sessions.length - 1 ? 'border-b border-zinc-800' : ''}`}
+                >
+                  <View className="w-10 h-10 rounded-full bg-violet-500/20 items-center justify-center mr-3">
+                    <Ionicons name="phone-portrait-outline" size={20} color="#8b5cf6" />
+                  </View>
+                  <View className="flex-1">
+                    <Text className="text-white text-base font-medium mb-0.5">
+                      {describeDevice(session.userAgent)}{session.current ? ' (this device)' : ''}
+                    </Text>
+                    <Text className="text-zinc-400 text-sm">
+                      Last active {new Date(session.lastUsedAt).toLocaleDateString()}
+                      {session.ipAddress ? ` · ${session.ipAddress}` : ''}
+                    </Text>
+                  </View>
+                  {!session.current && (
+                    <TouchableOpacity onPress={() => handleRevoke(session)} className="p-2">
+                      <Ionicons name="log-out-outline" size={20} color="#ef4444" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            {otherSessions.length > 0 && (
+              <View className="px-3">
+                <TouchableOpacity
+                  onPress={handleRevokeOthers}
+                  className="bg-red-500/10 border border-red-500/20 rounded-xl py-4 px-4 flex-row items-center justify-center gap-2 active:bg-red-500/20"
+                >
+                  <Ionicons name="log-out-outline" size={20} color="#ef4444" />
+                  <Text className="text-red-500 font-semibold text-base">Sign Out Other Devices</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
@@ -4,6 +4,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useAuthStore } from '@/stores';
+import { AuthService } from '@/services';
 
 export const SettingsScreen: React.FC = () => {
   const router = useRouter();
@@ -53,6 +54,15 @@ export const SettingsScreen: React.FC = () => {
     );
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await AuthService.resendVerification();
+      Alert.alert('Email Sent', `We sent a new verification link to ${user?.email}.`);
+    } catch (error: any) {
+      Alert.alert('Error', error.error || error.message || 'Failed to send verification email');
+    }
+  };
+
   const SettingsSection = ({ title, children }: { title: string; children: React.ReactNode }) => (
     <View className="mb-6">
       <Text className="text-zinc-500 text-xs font-medium px-4 mb-3 uppercase tracking-wide">
@@ -142,13 +152,39 @@ export const SettingsScreen: React.FC = () => {
               icon="person-outline"
               title={user?.name || 'User'}
               subtitle={user?.email || 'No email'}
-              onPress={() => console.log('Edit profile')}
+              onPress={() => router.push('/profile' as any)}
             />
+            {user?.isVerified === false && (
+              <SettingsItem
+                icon="mail-unread-outline"
+                title="Verify Email"
+                subtitle="Resend the verification link"
+                onPress={handleResendVerification}
+              />
+            )}
             <SettingsItem
               icon="key-outline"
               title="API Key"
-              subtitle="Configure your Gemini API key"
-              onPress={() => console.log('API settings')}
+              subtitle="Use your own Gemini or OpenAI key"
+              onPress={() => router.push('/api-keys' as any)}
+            />
+            <SettingsItem
+              icon="shield-checkmark-outline"
+              title="Two-Factor Authentication"
+              subtitle="Require a code from an authenticator app"
+              onPress={() => router.push('/two-factor' as any)}
+            />
+            <SettingsItem
+              icon="phone-portrait-outline"
+              title="Devices"
+              subtitle="See where you're signed in"
+              onPress={() => router.push('/sessions' as any)}
+            />
+            <SettingsItem
+              icon="stats-chart-outline"
+              title="Usage"
+              subtitle="Tokens used today and this month"
+              onPress={() => router.push('/usage' as any)}
               isLast
             />
           </SettingsSection>
@@ -200,13 +236,13 @@ export const SettingsScreen: React.FC = () => {
               icon="sparkles-outline"
               title="Model Settings"
               subtitle="Temperature, tokens, and parameters"
-              onPress={() => console.log('Model settings')}
+              onPress={() => router.push('/model-settings' as any)}
             />
             <SettingsItem
               icon="chatbubbles-outline"
               title="Chat Behavior"
-              subtitle="Customize AI response style"
-              onPress={() => console.log('Chat behavior')}
+              subtitle="Personas and system prompts"
+              onPress={() => router.push('/personas' as any)}
               isLast
             />
           </SettingsSection>
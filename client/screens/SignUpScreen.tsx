@@ -5,6 +5,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { useAuthStore } from '@/stores';
+import { OAuthButtons, PasswordRules } from '@/components';
 
 export const SignUpScreen: React.FC = () => {
   const router = useRouter();
@@ -29,11 +30,6 @@ export const SignUpScreen: React.FC = () => {
       return;
     }
 
-    if (password.length < 8) {
-      Alert.alert('Error', 'Password must be at least 8 characters');
-      return;
-    }
-
     if (!acceptedTerms) {
       Alert.alert('Error', 'Please accept the terms and conditions');
       return;
@@ -164,9 +160,13 @@ export const SignUpScreen: React.FC = () => {
                     />
                   </TouchableOpacity>
                 </View>
-                <Text className="text-zinc-500 text-xs mt-2 ml-1">
-                  Must be at least 8 characters
-                </Text>
+                {password ? (
+                  <PasswordRules password={password} />
+                ) : (
+                  <Text className="text-zinc-500 text-xs mt-2 ml-1">
+                    Use 8 or more characters with a mix of letters, numbers and symbols
+                  </Text>
+                )}
               </View>
 
               {/* Confirm Password Input */}
@@ -232,6 +232,8 @@ export const SignUpScreen: React.FC = () => {
                   {isLoading ? 'Creating Account...' : 'Create Account'}
                 </Text>
               </TouchableOpacity>
+
+              <OAuthButtons />
             </Animated.View>
 
             {/* Login Link */}
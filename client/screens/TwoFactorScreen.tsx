@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Alert, ActivityIndicator, Linking } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import { AuthService } from '@/services';
+import type { TwoFactorStatus, TwoFactorSetup } from '@/services';
+
+// Groups of four, the way authenticator apps show secrets for manual entry
+const formatSecret = (secret: string): string => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+const CodeInput: React.FC<{
+  value: string;
+  onChangeText: (value: string) => void;
+  placeholder?: string;
+}> = ({ value, onChangeText, placeholder = 'Authenticator or recovery code' }) => (
+  <View className="flex-row items-center bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-1">
+    <Ionicons name="keypad-outline" size={20} color="#71717a" />
+    <TextInput
+      className="flex-1 text-white text-base ml-3 leading-tight py-2"
+      placeholder={placeholder}
+      placeholderTextColor="#52525b"
+      value={value}
+      onChangeText={onChangeText}
+      autoCapitalize="none"
+      autoCorrect={false}
+      maxLength={32}
+    />
+  </View>
+);
+
+export const TwoFactorScreen: React.FC = () => {
+  const router = useRouter();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await AuthService.getTwoFactorStatus());
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+      Alert.alert('Error', 'Failed to load two-factor status. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Runs an action that needs a code, keeping the input on failure so it can be corrected
+  const withCode = async (action: (code: string) => Promise<void>) => {
+    if (!code.trim()) {
+      Alert.alert('Error', 'Please enter a code');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await action(code.trim());
+      setCode('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true);
+    try {
+      setSetup(await AuthService.setupTwoFactor());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start two-factor setup');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEnable = () => withCode(async (value) => {
+    const result = await AuthService.enableTwoFactor(value);
+    setSetup(null);
+    setRecoveryCodes(result.recoveryCodes);
+    await loadStatus();
+  });
+
+  const handleRegenerate = () => withCode(async (value) => {
+    const result = await AuthService.regenerateRecoveryCodes(value);
+    setRecoveryCodes(result.recoveryCodes);
+    await loadStatus();
+  });
+
+  const handleDisable = () => {
+    Alert.alert(
+      'Turn Off Two-Factor',
+      'Signing in will only need your password again, and your recovery codes will stop working.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Turn Off',
+          style: 'destructive',
+          onPress: () => withCode(async (value) => {
+            await AuthService.disableTwoFactor(value);
+            setRecoveryCodes(null);
+            await loadStatus();
+          }),
+        },
+      ]
+    );
+  };
+
+  const handleOpenAuthenticator = async () => {
+    if (!setup) return;
+    try {
+      await Linking.openURL(setup.otpauthUri);
+    } catch (error) {
+      console.error('Failed to open authenticator:', error);
+      Alert.alert('No Authenticator Found', 'Enter the setup key in your authenticator app by hand.');
+    }
+  };
+
+  const handleCopy = async (text: string, label: string) => {
+    await Clipboard.setStringAsync(text);
+    Alert.alert('Copied', `${label} copied to the clipboard.`);
+  };
+
+  const renderRecoveryCodes = (codes: string[]) => (
+    <View className="bg-zinc-900 mx-3 rounded-xl border border-zinc-800 px-4 py-4 mb-4">
+      <Text className="text-white text-base font-semibold mb-1">Recovery codes</Text>
+      <Text className="text-zinc-400 text-sm mb-4">
+        Save these somewhere safe. Each one signs you in once if you lose your authenticator, and they will not be shown again.
+      </Text>
+      <View className="flex-row flex-wrap">
+        {codes.map(recoveryCode => (
+          <Text key={recoveryCode} className="text-white text-base font-mono w-1/2 mb-2">
+            {recoveryCode}
+          </Text>
+        ))}
+      </View>
+      <View className="flex-row mt-2 gap-3">
+        <TouchableOpacity
+          onPress={() => handleCopy(codes.join('\n'), 'Recovery codes')}
+          className="flex-1 bg-zinc-800 rounded-xl py-3 items-center active:bg-zinc-700"
+        >
+          <Text className="text-white text-sm font-semibold">Copy</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setRecoveryCodes(null)}
+          className="flex-1 bg-violet-400 rounded-xl py-3 items-center active:opacity-80"
+        >
+          <Text className="text-white text-sm font-semibold">Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return renderRecoveryCodes(recoveryCodes);
+    }
+
+    if (status?.enabled) {
+      return (
+        <View className="bg-zinc-900 mx-3 rounded-xl border border-zinc-800 px-4 py-4">
+          <View className="flex-row items-center mb-2">
+            <Ionicons name="shield-checkmark" size={20} color="#22c55e" />
+            <Text className="text-white text-base font-semibold ml-2">Two-factor authentication is on</Text>
+          </View>
+          <Text className="text-zinc-400 text-sm mb-4">
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            Enter a current code to get new recovery codes or to turn two-factor authentication off.
+          </Text>
+          <CodeInput value={code} onChangeText={setCode} />
+          <TouchableOpacity
+            onPress={handleRegenerate}
+            disabled={isSubmitting}
+            className={`bg-zinc-800 rounded-xl py-3 items-center mt-4 ${isSubmitting ? 'opacity-70' : 'active:bg-zinc-700'}`}
+          >
+            <Text className="text-white text-sm font-semibold">New Recovery Codes</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleDisable}
+            disabled={isSubmitting}
+            className={`rounded-xl py-3 items-center mt-3 ${isSubmitting ? 'opacity-70' : 'active:bg-zinc-800'}`}
+          >
+            <Text className="text-red-400 text-sm font-semibold">Turn Off</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (setup) {
+      return (
+        <View className="bg-zinc-900 mx-3 rounded-xl border border-zinc-800 px-4 py-4">
+          <Text className="text-white text-base font-semibold mb-1">1. Add the account to your authenticator</Text>
+          <Text className="text-zinc-400 text-sm mb-4">
+            Open it directly in an authenticator app on this device, or enter the setup key by hand.
+          </Text>
+          <TouchableOpacity
+            onPress={handleOpenAuthenticator}
+            className="bg-zinc-800 rounded-xl py-3 flex-row items-center justify-center gap-2 mb-3 active:bg-zinc-700"
+          >
+            <Ionicons name="open-outline" size={18} color="#ffffff" />
+            <Text className="text-white text-sm font-semibold">Open in Authenticator</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleCopy(setup.secret, 'Setup key')}
+            className="bg-zinc-950 border border-zinc-800 rounded-xl px-4 py-3 flex-row items-center mb-6 active:bg-zinc-800"
+          >
+            <Text className="flex-1 text-white text-base font-mono">{formatSecret(setup.secret)}</Text>
+            <Ionicons name="copy-outline" size={18} color="#a1a1aa" />
+          </TouchableOpacity>
+
+          <Text className="text-white text-base font-semibold mb-1">2. Enter the code it shows</Text>
+          <Text className="text-zinc-400 text-sm mb-4">This confirms the authenticator is set up correctly.</Text>
+          <CodeInput value={code} onChangeText={setCode} placeholder="123456" />
+          <TouchableOpacity
+            onPress={handleEnable}
+            disabled={isSubmitting}
+            className={`bg-violet-400 rounded-xl py-3 items-center mt-4 ${isSubmitting ? 'opacity-70' : 'active:opacity-80'}`}
+          >
+            <Text className="text-white text-sm font-semibold">{isSubmitting ? 'Verifying...' : 'Turn On'}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View className="bg-zinc-900 mx-3 rounded-xl border border-zinc-800 px-4 py-4">
+        <Text className="text-white text-base font-semibold mb-1">Two-factor authentication is off</Text>
+        <Text className="text-zinc-400 text-sm mb-4">
+          Add a second step to signing in: a code from an authenticator app such as Google Authenticator or 1Password.
+        </Text>
+        <TouchableOpacity
+          onPress={handleStartSetup}
+          disabled={isSubmitting}
+          className={`bg-violet-400 rounded-xl py-3 items-center ${isSubmitting ? 'opacity-70' : 'active:opacity-80'}`}
+        >
+          <Text className="text-white text-sm font-semibold">Set Up</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top']}>
+      <View className="flex-1">
+        {/* Header */}
+        <View className="px-4 py-4 border-b border-zinc-800 flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="p-2 bg-zinc-800 rounded-lg active:bg-zinc-700 mr-3"
+          >
+            <Ionicons name="arrow-back" size={24} color="#a1a1aa" />
+          </TouchableOpacity>
+          <Text className="text-white text-2xl font-bold">Two-Factor Authentication</Text>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator color="#8b5cf6" />
+          </View>
+        ) : (
+          <ScrollView
+            className="flex-1"
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={{ paddingTop: 16, paddingBottom: 32 }}
+          >
+            {renderContent()}
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { SettingsService } from '@/services';
+import type { Usage, UsagePeriod } from '@/services';
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+const UsageCard: React.FC<{ title: string; period: UsagePeriod }> = ({ title, period }) => {
+  const fraction = period.limit ? Math.min(period.used / period.limit, 1) : 0;
+  const isExhausted = period.limit !== null && period.used >= period.limit;
+
+  return (
+    <View className="bg-zinc-900 mx-3 rounded-xl border border-zinc-800 px-4 py-4 mb-3">
+      <Text className="text-zinc-400 text-sm mb-1">{title}</Text>
+      <Text className="text-white text-2xl font-bold mb-1">
+        {formatTokens(period.used)}
+        <Text className="text-zinc-500 text-base font-normal">
+          {period.limit ? ` / ${formatTokens(period.limit)} tokens` : ' tokens'}
+        </Text>
+      </Text>
+      {period.limit !== null && (
+        <>
+          <View className="h-2 bg-zinc-800 rounded-full overflow-hidden mt-2 mb-2">
+            <View
+              className={`h-2 rounded-full ${isExhausted ? 'bg-red-500' : 'bg-violet-500'}`}
+              style={{ width: `${fraction * 100}%` }}
+            />
+          </View>
+          <Text className={`text-xs ${isExhausted ? 'text-red-400' : 'text-zinc-500'}`}>
+            {isExhausted ? 'Limit reached · ' : ''}Resets {new Date(period.resetsAt).toLocaleString()}
+          </Text>
+        </>
+      )}
+    </View>
+  );
+};
+
+export const UsageScreen: React.FC = () => {
+  const router = useRouter();
+  const [usage, setUsage] = useState<Usage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    SettingsService.getUsage()
+      .then(({ usage }) => setUsage(usage))
+      .catch(() => {
+        Alert.alert('Error', 'Failed to load usage. Please try again.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const days = [...(usage?.days || [])].reverse();
+  const busiestDay = Math.max(1, ...days.map(day => day.promptTokens + day.completionTokens));
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top']}>
+      <View className="flex-1">
+        {/* Header */}
+        <View className="px-4 py-4 border-b border-zinc-800 flex-row items-center">
+          <TouchableOpacity
+            onPress={() => router.back()}
+            className="p-2 bg-zinc-800 rounded-lg active:bg-zinc-700 mr-3"
+          >
+            <Ionicons name="arrow-back" size={24} color="#a1a1aa" />
+          </TouchableOpacity>
+          <Text className="text-white text-2xl font-bold">Usage</Text>
+        </View>
+
+        {isLoading ? (
+          <View className="flex-1 items-center justify-center">
+            <ActivityIndicator color="#8b5cf6" />
+          </View>
+        ) : usage && (
+          <ScrollView
+            className="flex-1"
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={{ paddingTop: 16, paddingBottom: 32 }}
+          >
+            <Text className="text-zinc-500 text-sm px-4 mb-4">
+              Tokens sent to and generated by the AI, counting prompts, history and responses.
+            </Text>
+
+            <UsageCard title="Today" period={usage.daily} />
+            <UsageCard title="This month" period={usage.monthly} />
+
+            <Text className="text-zinc-500 text-xs font-medium px-4 mt-5 mb-3 uppercase tracking-wide">
+              Last 30 days
+            </Text>
+            {days.length === 0 ? (
+              <Text className="text-zinc-500 text-sm px-4">No usage yet.</Text>
+            ) : (
+              <View className="bg-zinc-900 mx-3 rounded-xl overflow-hidden border border-zinc-800">
+                {days.map((day, index) => {
+                  const total = day.promptTokens + day.completionTokens;
+                  return (
+                    <View
+                      key={day.date}
+                      className={`px-4 py-3 ${index < days.length - 1 ? 'border-b border-zinc-800' : ''}`}
+                    >
+                      <View className="flex-row justify-between mb-1.5">
+                        <Text className="text-white text-sm">{day.date}</Text>
+                        <Text className="text-zinc-400 text-sm">{formatTokens(total)}</Text>
+                      </View>
+                      <View className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                        <View
+                          className="h-1.5 bg-violet-500 rounded-full"
+                          style={{ width: `${(total / busiestDay) * 100}%` }}
+                        />
+                      </View>
+                      <Text className="text-zinc-500 text-xs mt-1.5">
+                        {formatTokens(day.promptTokens)} prompt · {formatTokens(day.completionTokens)} response
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import AuthService from '@/services/auth.service';
+import { useAuthStore } from '@/stores';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+export const VerifyEmailScreen: React.FC = () => {
+  const router = useRouter();
+  const { token } = useLocalSearchParams<{ token?: string }>();
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const markEmailVerified = useAuthStore(state => state.markEmailVerified);
+  const [status, setStatus] = useState<VerifyStatus>('verifying');
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('failed');
+      setErrorMessage('This verification link is incomplete.');
+      return;
+    }
+
+    AuthService.verifyEmail(token)
+      .then(() => {
+        markEmailVerified();
+        setStatus('verified');
+      })
+      .catch((error: any) => {
+        setStatus('failed');
+        setErrorMessage(error.error || error.message || 'Failed to verify email');
+      });
+  }, [token, markEmailVerified]);
+
+  const handleContinue = () => {
+    router.replace((isAuthenticated ? '/' : '/login') as any);
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-zinc-950" edges={['top', 'bottom']}>
+      <View className="flex-1 px-6 justify-center">
+        {status === 'verifying' ? (
+          <View className="items-center">
+            <ActivityIndicator color="#8b5cf6" />
+            <Text className="text-zinc-400 text-base mt-4">Verifying your email...</Text>
+          </View>
+        ) : (
+          <Animated.View
+            entering={FadeInUp.duration(600).springify()}
+            className="items-center"
+          >
+            <View className="w-24 h-24 bg-violet-500/20 rounded-full items-center justify-center mb-6">
+              <View className="w-20 h-20 bg-violet-500/30 rounded-full items-center justify-center">
+                <Ionicons
+                  name={status === 'verified' ? 'checkmark-circle-outline' : 'alert-circle-outline'}
+                  size={40}
+                  color="#8b5cf6"
+                />
+              </View>
+            </View>
+
+            <Text className="text-white text-2xl font-bold mb-3 text-center">
+              {status === 'verified' ? 'Email Verified' : 'Verification Failed'}
+            </Text>
+            <Text className="text-zinc-400 text-base text-center px-4 mb-8">
+              {status === 'verified'
+                ? 'Thanks for confirming your email address.'
+                : `${errorMessage} You can request a new link from Settings.`}
+            </Text>
+
+            <TouchableOpacity
+              onPress={handleContinue}
+              className="bg-violet-500 rounded-xl py-4 px-8 active:bg-violet-600"
+            >
+              <Text className="text-white text-base font-semibold">
+                Continue
+              </Text>
+            </TouchableOpacity>
+          </Animated.View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
@@ -4,3 +4,11 @@ export { LoginScreen } from './LoginScreen';
 export { SignUpScreen } from './SignUpScreen';
 export { ResetPasswordScreen } from './ResetPasswordScreen';
 
+export { PersonasScreen } from './PersonasScreen';
+export { ModelSettingsScreen } from './ModelSettingsScreen';
+export { ApiKeysScreen } from './ApiKeysScreen';
+export { SessionsScreen } from './SessionsScreen';
+export { VerifyEmailScreen } from './VerifyEmailScreen';
+export { ProfileScreen } from './ProfileScreen';
+export { UsageScreen } from './UsageScreen';
+export { TwoFactorScreen } from './TwoFactorScreen';
@@ -0,0 +1,121 @@
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from 'axios';
+import * as SecureStore from 'expo-secure-store';
+
+// Use Railway URL or fallback to localhost:3000 (backend default port)
+export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+export const TOKEN_KEY = 'auth_token';
+export const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Requests that must never trigger a refresh (they either issue tokens or are the refresh itself)
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/signup', '/auth/refresh'];
+
+let refreshInFlight: Promise<boolean> | null = null;
+let onSessionExpired: (() => void) | null = null;
+
+// Called when the refresh token is rejected and the user has to sign in again
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  onSessionExpired = handler;
+};
+
+export const storeTokens = async (token: string, refreshToken: string): Promise<void> => {
+  await SecureStore.setItemAsync(TOKEN_KEY, token);
+  await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearTokens = async (): Promise<void> => {
+  await SecureStore.deleteItemAsync(TOKEN_KEY);
+  await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * Concurrent callers share one request, since each refresh token can only be used once.
+ * Resolves to false when the session is over.
+ */
+export const refreshSession = (): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      try {
+        const refreshToken = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+        if (!refreshToken) {
+          throw new Error('No refresh token');
+        }
+
+        const response = await axios.post<{ token: string; refreshToken: string }>(
+          `${API_BASE_URL}/auth/refresh`,
+          { refreshToken },
+          { timeout: 10000 }
+        );
+        await storeTokens(response.data.token, response.data.refreshToken);
+        return true;
+      } catch (error: any) {
+        // A network failure does not mean the session is over
+        if (!error.response && error.message !== 'No refresh token') {
+          console.error('Failed to refresh session:', error);
+          return false;
+        }
+
+        await clearTokens().catch(e => console.error('Failed to clear auth data:', e));
+        onSessionExpired?.();
+        return false;
+      } finally {
+        refreshInFlight = null;
+      }
+    })();
+  }
+
+  return refreshInFlight;
+};
+
+// Axios instance that sends the access token and retries once after refreshing it on a 401
+export const createApiClient = ({ timeout }: { timeout: number }) => {
+  const api = axios.create({
+    baseURL: API_BASE_URL,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    timeout,
+  });
+
+  // Request interceptor to add token to headers
+  api.interceptors.request.use(
+    async (config) => {
+      try {
+        const token = await SecureStore.getItemAsync(TOKEN_KEY);
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+      } catch (error) {
+        console.error('Failed to get token:', error);
+      }
+      return config;
+    },
+    (error) => {
+      return Promise.reject(error);
+    }
+  );
+
+  // Response interceptor to refresh an expired access token and replay the request
+  api.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+      const config = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+      if (
+        error.response?.status === 401 &&
+        config &&
+        !config._retried &&
+        !NO_REFRESH_PATHS.some(path => config.url?.startsWith(path))
+      ) {
+        config._retried = true;
+        if (await refreshSession()) {
+          return api(config);
+        }
+      }
+
+      return Promise.reject(error);
+    }
+  );
+
+  return api;
+};
@@ -1,53 +1,14 @@
-import axios from 'axios';
 import * as SecureStore from 'expo-secure-store';
+import * as WebBrowser from 'expo-web-browser';
+import * as Linking from 'expo-linking';
+import { TOKEN_KEY, createApiClient, storeTokens, clearTokens } from './api';
 
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
-const TOKEN_KEY = 'auth_token';
 const USER_KEY = 'user_data';
 
-// Create axios instance
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: 10000,
-});
+const api = createApiClient({ timeout: 10000 });
 
-// Request interceptor to add token to headers
-api.interceptors.request.use(
-  async (config) => {
-    try {
-      const token = await SecureStore.getItemAsync(TOKEN_KEY);
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-    } catch (error) {
-      console.error('Failed to get token:', error);
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Response interceptor for error handling
-api.interceptors.response.use(
-  (response) => response,
-  async (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid, clear all stored data
-      try {
-        await SecureStore.deleteItemAsync(TOKEN_KEY);
-        await SecureStore.deleteItemAsync(USER_KEY);
-      } catch (e) {
-        console.error('Failed to clear auth data:', e);
-      }
-    }
-    return Promise.reject(error);
-  }
-);
+// Deep link the server sends OAuth results to (client://oauth, or exp://.../--/oauth in Expo Go)
+const OAUTH_REDIRECT_URI = Linking.createURL('oauth');
 
 export interface SignUpData {
   name: string;
@@ -64,27 +25,95 @@ export interface User {
   id: number;
   name: string;
   email: string;
+  isVerified?: boolean;
+  hasPassword?: boolean; // false for accounts created through OAuth until they set one
 }
 
 export interface AuthResponse {
   user: User;
   token: string;
+  refreshToken: string;
+}
+
+// Returned instead of a session when the account has two-factor authentication on
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string; // Short-lived; traded for a session together with a code
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string; // Base32, for typing into an authenticator by hand
+  otpauthUri: string;
+}
+
+export interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean; // The session this device is using
+}
+
+export type PasswordRuleId = 'length' | 'uppercase' | 'lowercase' | 'number' | 'symbol' | 'notCommon';
+
+export interface PasswordRule {
+  id: PasswordRuleId;
+  message: string;
+  passed: boolean;
+}
+
+export type OAuthProviderName = 'google' | 'github';
+
+export interface OAuthProvider {
+  name: OAuthProviderName;
+  label: string;
+}
+
+export interface LinkedIdentity {
+  provider: OAuthProviderName;
+  email: string | null;
+  createdAt: string;
 }
 
 export interface UserProfile {
-  user: {
-    id: number;
-    name: string;
-    email: string;
-    createdAt: string;
-  };
+  user: User;
+}
+
+export interface ProfileUpdate {
+  name?: string;
+  email?: string;
+  currentPassword?: string; // Required when the email changes
 }
 
+// Open the provider's sign-in page and wait for the server to redirect back into the app.
+// Resolves to the redirect's query parameters, or null if the user closed the browser.
+const openOAuthSession = async (url: string): Promise<Record<string, string> | null> => {
+  const result = await WebBrowser.openAuthSessionAsync(url, OAUTH_REDIRECT_URI);
+  if (result.type !== 'success') {
+    return null;
+  }
+
+  const params = Linking.parse(result.url).queryParams || {};
+  if (typeof params.error === 'string') {
+    throw { error: params.error };
+  }
+  return params as Record<string, string>;
+};
+
 class AuthService {
-  // Store token securely
-  async storeToken(token: string): Promise<void> {
+  // Store the access and refresh tokens securely
+  async storeTokens(token: string, refreshToken: string): Promise<void> {
     try {
-      await SecureStore.setItemAsync(TOKEN_KEY, token);
+      await storeTokens(token, refreshToken);
     } catch (error) {
       console.error('Failed to store token:', error);
       throw new Error('Failed to save authentication data');
@@ -125,7 +154,7 @@ class AuthService {
   // Remove all auth data
   async clearAuthData(): Promise<void> {
     try {
-      await SecureStore.deleteItemAsync(TOKEN_KEY);
+      await clearTokens();
       await SecureStore.deleteItemAsync(USER_KEY);
     } catch (error) {
       console.error('Failed to clear auth data:', error);
@@ -137,7 +166,7 @@ class AuthService {
     try {
       const response = await api.post<AuthResponse>('/auth/signup', data);
       if (response.data.token && response.data.user) {
-        await this.storeToken(response.data.token);
+        await this.storeTokens(response.data.token, response.data.refreshToken);
         await this.storeUser(response.data.user);
       }
       return response.data;
@@ -149,12 +178,12 @@ class AuthService {
     }
   }
 
-  // Login
-  async login(data: LoginData): Promise<AuthResponse> {
+  // Login; accounts with 2FA get a challenge to finish with verifyTwoFactor
+  async login(data: LoginData): Promise<LoginResponse> {
     try {
-      const response = await api.post<AuthResponse>('/auth/login', data);
-      if (response.data.token && response.data.user) {
-        await this.storeToken(response.data.token);
+      const response = await api.post<LoginResponse>('/auth/login', data);
+      if ('token' in response.data) {
+        await this.storeTokens(response.data.token, response.data.refreshToken);
         await this.storeUser(response.data.user);
       }
       return response.data;
@@ -166,11 +195,226 @@ class AuthService {
     }
   }
 
-  // Logout
+  // Sign-in providers the server is configured for
+  async getOAuthProviders(): Promise<{ providers: OAuthProvider[] }> {
+    try {
+      const response = await api.get<{ providers: OAuthProvider[] }>('/auth/oauth/providers');
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to load sign-in options');
+    }
+  }
+
+  // Second sign-in step: an authenticator or recovery code for the challenge from login
+  async verifyTwoFactor(challengeToken: string, code: string): Promise<AuthResponse> {
+    try {
+      const response = await api.post<AuthResponse>('/auth/2fa/verify', { challengeToken, code });
+      await this.storeTokens(response.data.token, response.data.refreshToken);
+      await this.storeUser(response.data.user);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      throw new Error('Network error. Please check your connection.');
+    }
+  }
+
+  // Sign in through a provider; resolves to null if the user cancels
+  async loginWithOAuth(provider: OAuthProviderName): Promise<LoginResponse | null> {
+    try {
+      const { data } = await api.post<{ url: string }>(`/auth/oauth/${provider}/start`, {
+        redirectUri: OAUTH_REDIRECT_URI,
+      });
+
+      const params = await openOAuthSession(data.url);
+      if (!params?.code) {
+        return null;
+      }
+
+      const response = await api.post<LoginResponse>('/auth/oauth/exchange', { code: params.code });
+      if ('token' in response.data) {
+        await this.storeTokens(response.data.token, response.data.refreshToken);
+        await this.storeUser(response.data.user);
+      }
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      if (error.error) {
+        throw error;
+      }
+      throw new Error('Network error. Please check your connection.');
+    }
+  }
+
+  // Accounts connected to the signed-in user
+  async getIdentities(): Promise<{ identities: LinkedIdentity[] }> {
+    try {
+      const response = await api.get<{ identities: LinkedIdentity[] }>('/auth/identities');
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to load connected accounts');
+    }
+  }
+
+  // Connect a provider to the signed-in account; resolves to false if the user cancels
+  async linkIdentity(provider: OAuthProviderName): Promise<boolean> {
+    try {
+      const { data } = await api.post<{ url: string }>(`/auth/oauth/${provider}/link`, {
+        redirectUri: OAUTH_REDIRECT_URI,
+      });
+
+      const params = await openOAuthSession(data.url);
+      return params?.linked === provider;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      if (error.error) {
+        throw error;
+      }
+      throw new Error('Failed to connect account');
+    }
+  }
+
+  // Disconnect a provider
+  async unlinkIdentity(provider: OAuthProviderName): Promise<void> {
+    try {
+      await api.delete(`/auth/identities/${provider}`);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to disconnect account');
+    }
+  }
+
+  // Whether two-factor authentication is on, and how many recovery codes are left
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    try {
+      const response = await api.get<TwoFactorStatus>('/auth/2fa');
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to load two-factor status');
+    }
+  }
+
+  // Start enrollment; the secret only takes effect once enableTwoFactor confirms a code
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    try {
+      const response = await api.post<TwoFactorSetup>('/auth/2fa/setup');
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to start two-factor setup');
+    }
+  }
+
+  // Finish enrollment; the recovery codes are only ever returned here and on regeneration
+  async enableTwoFactor(code: string): Promise<{ recoveryCodes: string[] }> {
+    try {
+      const response = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/enable', { code });
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to enable two-factor authentication');
+    }
+  }
+
+  // Turn two-factor authentication off with a current code
+  async disableTwoFactor(code: string): Promise<void> {
+    try {
+      await api.post('/auth/2fa/disable', { code });
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to disable two-factor authentication');
+    }
+  }
+
+  // Replace the recovery codes; the old ones stop working
+  async regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+    try {
+      const response = await api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code });
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to regenerate recovery codes');
+    }
+  }
+
+  // Logout: end this device's session on the server, then forget it locally
   async logout(): Promise<void> {
+    try {
+      await api.post('/auth/logout');
+    } catch (error) {
+      console.error('Failed to end session on server:', error);
+    }
     await this.clearAuthData();
   }
 
+  // Update name or email
+  async updateProfile(updates: ProfileUpdate): Promise<UserProfile> {
+    try {
+      const response = await api.patch<UserProfile>('/auth/me', updates);
+      await this.storeUser(response.data.user);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      throw new Error('Failed to update profile');
+    }
+  }
+
+  // Change password (or set the first one, without a current password); the server signs out the user's other devices
+  async changePassword(currentPassword: string | undefined, newPassword: string): Promise<{ success: boolean }> {
+    try {
+      const response = await api.post('/auth/change-password', { currentPassword, newPassword });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      throw new Error('Failed to change password');
+    }
+  }
+
+  // Permanently delete the account and all of its chats
+  async deleteAccount(password?: string): Promise<void> {
+    try {
+      await api.delete('/auth/me', { data: { password } });
+      await this.clearAuthData();
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      throw new Error('Failed to delete account');
+    }
+  }
+
+  // Active sessions across the user's devices
+  async getSessions(): Promise<{ sessions: Session[] }> {
+    try {
+      const response = await api.get<{ sessions: Session[] }>('/auth/sessions');
+      return response.data;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to load sessions');
+    }
+  }
+
+  // Sign out another device
+  async revokeSession(sessionId: string): Promise<void> {
+    try {
+      await api.delete(`/auth/sessions/${sessionId}`);
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to sign out session');
+    }
+  }
+
+  // Sign out every device except this one
+  async revokeOtherSessions(): Promise<void> {
+    try {
+      await api.delete('/auth/sessions');
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Failed to sign out other sessions');
+    }
+  }
+
   // Get current user profile from server
   async getProfile(): Promise<UserProfile> {
     try {
@@ -207,7 +451,7 @@ class AuthService {
   }
 
   // Forgot password
-  async forgotPassword(email: string): Promise<{ message: string }> {
+  async forgotPassword(email: string): Promise<{ success: boolean }> {
     try {
       const response = await api.post('/auth/forgot-password', { email });
       return response.data;
@@ -219,8 +463,40 @@ class AuthService {
     }
   }
 
+  // Check a candidate password against the server's password policy
+  async checkPassword(password: string): Promise<{ valid: boolean; rules: PasswordRule[] }> {
+    const response = await api.post('/auth/password-check', { password });
+    return response.data;
+  }
+
+  // Confirm the email address with the token from the verification link
+  async verifyEmail(token: string): Promise<{ success: boolean }> {
+    try {
+      const response = await api.post('/auth/verify-email', { token });
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      throw new Error('Failed to verify email');
+    }
+  }
+
+  // Send another verification email
+  async resendVerification(): Promise<{ success: boolean }> {
+    try {
+      const response = await api.post('/auth/resend-verification');
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.data) {
+        throw error.response.data;
+      }
+      throw new Error('Failed to send verification email');
+    }
+  }
+
   // Reset password
-  async resetPassword(token: string, password: string): Promise<{ message: string }> {
+  async resetPassword(token: string, password: string): Promise<{ success: boolean }> {
     try {
       const response = await api.post('/auth/reset-password', { token, password });
       return response.data;
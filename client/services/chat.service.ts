@@ -1,41 +1,27 @@
-import axios from 'axios';
 import * as SecureStore from 'expo-secure-store';
-
-// Use Railway URL or fallback to localhost:3000 (backend default port)
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+import { API_BASE_URL, TOKEN_KEY, createApiClient, refreshSession } from './api';
 
 // Log API URL for debugging (remove in production)
 if (__DEV__) {
   console.log('🔗 API Base URL:', API_BASE_URL);
 }
-const TOKEN_KEY = 'auth_token';
-
-// Create axios instance
-const api = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: 30000, // 30 seconds for streaming
-});
-
-// Request interceptor to add token to headers
-api.interceptors.request.use(
-  async (config) => {
-    try {
-      const token = await SecureStore.getItemAsync(TOKEN_KEY);
-      if (token) {
-        config.headers.Authorization = `Bearer ${token}`;
-      }
-    } catch (error) {
-      console.error('Failed to get token:', error);
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
+
+const api = createApiClient({ timeout: 30000 }); // 30 seconds for streaming
+
+export interface MessageAttachment {
+  id: string;
+  type: 'image' | 'document';
+  mimeType: string;
+  size: number;
+  fileName?: string;
+  pages?: number;
+  url?: string;
+}
+
+export interface MessageMetadata {
+  attachments?: MessageAttachment[];
+  truncated?: boolean; // Assistant response stopped before it finished
+}
 
 export interface Message {
   id: string;
@@ -43,7 +29,9 @@ export interface Message {
   content: string;
   role: 'user' | 'assistant';
   createdAt: string;
-  metadata?: any;
+  metadata?: MessageMetadata | null;
+  parentId?: string | null;
+  siblingIds?: string[]; // Variants of this message (itself included), oldest first
 }
 
 export interface Chat {
@@ -53,14 +41,64 @@ export interface Chat {
   createdAt: string;
   updatedAt: string;
   messageCount?: number;
+  lastMessagePreview?: string | null; // Start of the newest message
+  hasMoreMessages?: boolean; // Older messages exist before the first one returned
+  activeMessageId?: string | null;
+  personaId?: string | null; // null = default Borz persona
+  folder?: string | null;
+  pinnedAt?: string | null;
+  archivedAt?: string | null;
   messages?: Message[];
 }
 
+export interface ChatListFilters {
+  pinned?: boolean;
+  archived?: boolean; // Archived chats are only listed with archived: true
+  folder?: string;
+  from?: string; // ISO dates bounding the last activity
+  to?: string;
+}
+
+export interface ChatListPage {
+  chats: Chat[];
+  nextCursor: string | null; // null after the last page
+}
+
+// How a chat is sorted in the chat list
+export interface ChatOrganization {
+  pinned?: boolean;
+  archived?: boolean;
+  folder?: string | null;
+}
+
+export interface SearchHighlight {
+  start: number; // Offset into the snippet
+  length: number;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  chatId: string;
+  chatTitle: string;
+  role: 'user' | 'assistant';
+  createdAt: string;
+  rank: number;
+  snippet: string; // Excerpt around the matches
+  highlights: SearchHighlight[];
+}
+
 class ChatService {
-  // Get all user chats
-  async getUserChats(): Promise<{ chats: Chat[] }> {
+  // Resolve a signed attachment URL returned by the server
+  getAttachmentUrl(attachment: MessageAttachment): string | undefined {
+    return attachment.url ? `${API_BASE_URL}${attachment.url}` : undefined;
+  }
+
+  // Get a page of user chats, most recently active first; pass `nextCursor` back for the next page
+  async getUserChats(filters: ChatListFilters = {}, cursor?: string): Promise<ChatListPage> {
     try {
-      const response = await api.get<{ chats: Chat[] }>('/api/chats');
+      const response = await api.get<ChatListPage>('/api/chats', {
+        params: { ...filters, cursor },
+      });
       return response.data;
     } catch (error: any) {
       console.error('Failed to fetch chats:', error);
@@ -68,6 +106,17 @@ class ChatService {
     }
   }
 
+  // Folder names in use
+  async getFolders(): Promise<{ folders: string[] }> {
+    try {
+      const response = await api.get<{ folders: string[] }>('/api/chats/folders');
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to fetch folders:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch folders');
+    }
+  }
+
   // Create new chat
   async createChat(title?: string): Promise<{ chat: Chat }> {
     try {
@@ -81,10 +130,10 @@ class ChatService {
     }
   }
 
-  // Get specific chat with messages
-  async getChatById(chatId: string): Promise<{ chat: Chat }> {
+  // Get specific chat with its newest messages, or the page older than `before`
+  async getChatById(chatId: string, page: { before?: string; limit?: number } = {}): Promise<{ chat: Chat }> {
     try {
-      const response = await api.get<{ chat: Chat }>(`/api/chats/${chatId}`);
+      const response = await api.get<{ chat: Chat }>(`/api/chats/${chatId}`, { params: page });
       return response.data;
     } catch (error: any) {
       console.error('Failed to fetch chat:', error);
@@ -99,16 +148,23 @@ class ChatService {
     onChunk?: (chunk: string) => void
   ): Promise<string> {
     try {
-      const token = await SecureStore.getItemAsync(TOKEN_KEY);
-      
-      const response = await fetch(`${API_BASE_URL}/api/chats/${chatId}/messages`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ content }),
-      });
+      const post = async () => {
+        const token = await SecureStore.getItemAsync(TOKEN_KEY);
+        return fetch(`${API_BASE_URL}/api/chats/${chatId}/messages`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ content }),
+        });
+      };
+
+      let response = await post();
+      // fetch bypasses the axios interceptor, so refresh an expired token here
+      if (response.status === 401 && await refreshSession()) {
+        response = await post();
+      }
 
       if (!response.ok) {
         throw new Error('Failed to send message');
@@ -140,6 +196,30 @@ class ChatService {
     }
   }
 
+  // Full-text search across all of the user's chats, best matches first
+  async searchMessages(query: string): Promise<{ results: MessageSearchResult[] }> {
+    try {
+      const response = await api.get<{ results: MessageSearchResult[] }>('/api/chats/search', {
+        params: { q: query },
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to search chats:', error);
+      throw new Error(error.response?.data?.error || 'Failed to search chats');
+    }
+  }
+
+  // Switch the visible branch to another variant of a message
+  async activateMessage(chatId: string, messageId: string): Promise<{ chat: Chat }> {
+    try {
+      const response = await api.post<{ chat: Chat }>(`/api/chats/${chatId}/messages/${messageId}/activate`);
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to switch variant:', error);
+      throw new Error(error.response?.data?.error || 'Failed to switch variant');
+    }
+  }
+
   // Update chat title
   async updateChat(chatId: string, title: string): Promise<{ chat: Chat }> {
     try {
@@ -153,6 +233,30 @@ class ChatService {
     }
   }
 
+  // Assign a persona to a chat (null = default)
+  async setChatPersona(chatId: string, personaId: string | null): Promise<{ chat: Chat }> {
+    try {
+      const response = await api.patch<{ chat: Chat }>(`/api/chats/${chatId}`, {
+        personaId,
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to update chat persona:', error);
+      throw new Error(error.response?.data?.error || 'Failed to update chat persona');
+    }
+  }
+
+  // Pin, archive or file a chat
+  async organizeChat(chatId: string, changes: ChatOrganization): Promise<{ chat: Chat }> {
+    try {
+      const response = await api.patch<{ chat: Chat }>(`/api/chats/${chatId}`, changes);
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to update chat:', error);
+      throw new Error(error.response?.data?.error || 'Failed to update chat');
+    }
+  }
+
   // Delete chat
   async deleteChat(chatId: string): Promise<void> {
     try {
@@ -1,8 +1,13 @@
 export { default as AuthService } from './auth.service';
-export type { SignUpData, LoginData, User, AuthResponse, UserProfile } from './auth.service';
+export type { SignUpData, LoginData, User, AuthResponse, UserProfile, ProfileUpdate, Session, PasswordRule, PasswordRuleId, OAuthProvider, OAuthProviderName, LinkedIdentity, LoginResponse, TwoFactorChallenge, TwoFactorStatus, TwoFactorSetup } from './auth.service';
 
 export { default as ChatService } from './chat.service';
-export type { Message, Chat } from './chat.service';
+export type { Message, Chat, MessageAttachment, MessageMetadata, MessageSearchResult, SearchHighlight, ChatListFilters, ChatListPage, ChatOrganization } from './chat.service';
 
 export { default as SocketManager } from './socket.service';
 
+export { default as PersonaService } from './persona.service';
+export type { Persona, PersonaInput } from './persona.service';
+
+export { default as SettingsService } from './settings.service';
+export type { ModelSettings, SafetyCategory, SafetyThreshold, ApiKeyProvider, SavedApiKey, Usage, UsagePeriod, UsageDay } from './settings.service';
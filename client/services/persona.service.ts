@@ -0,0 +1,67 @@
+import { createApiClient } from './api';
+
+const api = createApiClient({ timeout: 10000 });
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  temperature: number | null; // null = provider default
+  model: string | null; // null = provider default
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PersonaInput {
+  name: string;
+  systemPrompt: string;
+  temperature?: number | null;
+  model?: string | null;
+}
+
+class PersonaService {
+  // Get all user personas
+  async getPersonas(): Promise<{ personas: Persona[] }> {
+    try {
+      const response = await api.get<{ personas: Persona[] }>('/api/personas');
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to fetch personas:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch personas');
+    }
+  }
+
+  // Create new persona
+  async createPersona(input: PersonaInput): Promise<{ persona: Persona }> {
+    try {
+      const response = await api.post<{ persona: Persona }>('/api/personas', input);
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to create persona:', error);
+      throw new Error(error.response?.data?.error || 'Failed to create persona');
+    }
+  }
+
+  // Update persona
+  async updatePersona(personaId: string, updates: Partial<PersonaInput>): Promise<{ persona: Persona }> {
+    try {
+      const response = await api.patch<{ persona: Persona }>(`/api/personas/${personaId}`, updates);
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to update persona:', error);
+      throw new Error(error.response?.data?.error || 'Failed to update persona');
+    }
+  }
+
+  // Delete persona
+  async deletePersona(personaId: string): Promise<void> {
+    try {
+      await api.delete(`/api/personas/${personaId}`);
+    } catch (error: any) {
+      console.error('Failed to delete persona:', error);
+      throw new Error(error.response?.data?.error || 'Failed to delete persona');
+    }
+  }
+}
+
+export default new PersonaService();
@@ -0,0 +1,110 @@
+import { createApiClient } from './api';
+
+const api = createApiClient({ timeout: 10000 });
+
+export type SafetyCategory = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+
+// Lowest harm probability that gets blocked; 'none' turns blocking off for the category
+export type SafetyThreshold = 'none' | 'high' | 'medium' | 'low';
+
+export interface ModelSettings {
+  model: string | null; // null = provider default
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  safetyThresholds: Partial<Record<SafetyCategory, SafetyThreshold>>;
+}
+
+export type ApiKeyProvider = 'gemini' | 'openai';
+
+export interface SavedApiKey {
+  provider: ApiKeyProvider;
+  keyHint: string; // Last characters of the key; the key itself never comes back
+  updatedAt: string;
+}
+
+export interface UsagePeriod {
+  used: number; // Prompt plus completion tokens
+  limit: number | null; // null = unlimited
+  resetsAt: string;
+}
+
+export interface UsageDay {
+  date: string; // YYYY-MM-DD, UTC
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface Usage {
+  daily: UsagePeriod;
+  monthly: UsagePeriod;
+  days: UsageDay[]; // Last 30 days, only days with usage
+}
+
+class SettingsService {
+  // Get model settings
+  async getSettings(): Promise<{ settings: ModelSettings }> {
+    try {
+      const response = await api.get<{ settings: ModelSettings }>('/api/settings');
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to fetch settings:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch settings');
+    }
+  }
+
+  // Replace model settings
+  async updateSettings(settings: ModelSettings): Promise<{ settings: ModelSettings }> {
+    try {
+      const response = await api.put<{ settings: ModelSettings }>('/api/settings', settings);
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to update settings:', error);
+      throw new Error(error.response?.data?.error || 'Failed to update settings');
+    }
+  }
+
+  // List saved provider keys
+  async getApiKeys(): Promise<{ apiKeys: SavedApiKey[] }> {
+    try {
+      const response = await api.get<{ apiKeys: SavedApiKey[] }>('/api/settings/api-keys');
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to fetch API keys:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch API keys');
+    }
+  }
+
+  // Save a provider key; the server checks it with the provider first
+  async saveApiKey(provider: ApiKeyProvider, apiKey: string): Promise<{ apiKey: SavedApiKey }> {
+    try {
+      const response = await api.put<{ apiKey: SavedApiKey }>(`/api/settings/api-keys/${provider}`, { apiKey });
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to save API key:', error);
+      throw new Error(error.response?.data?.error || 'Failed to save API key');
+    }
+  }
+
+  // Remove a provider key
+  async deleteApiKey(provider: ApiKeyProvider): Promise<void> {
+    try {
+      await api.delete(`/api/settings/api-keys/${provider}`);
+    } catch (error: any) {
+      console.error('Failed to delete API key:', error);
+      throw new Error(error.response?.data?.error || 'Failed to delete API key');
+    }
+  }
+
+  // Token consumption against the deployment's quotas
+  async getUsage(): Promise<{ usage: Usage }> {
+    try {
+      const response = await api.get<{ usage: Usage }>('/api/usage');
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to fetch usage:', error);
+      throw new Error(error.response?.data?.error || 'Failed to fetch usage');
+    }
+  }
+}
+
+export default new SettingsService();
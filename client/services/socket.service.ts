@@ -1,8 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import * as SecureStore from 'expo-secure-store';
-
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
-const TOKEN_KEY = 'auth_token';
+import { API_BASE_URL, TOKEN_KEY, refreshSession } from './api';
 
 class SocketManager {
   private socket: Socket | null = null;
@@ -21,7 +19,10 @@ class SocketManager {
     }
 
     this.socket = io(API_BASE_URL, {
-      auth: { token },
+      // Read the token on every (re)connect so a refreshed token is picked up
+      auth: (cb) => {
+        SecureStore.getItemAsync(TOKEN_KEY).then(current => cb({ token: current }));
+      },
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionDelay: 1000,
@@ -32,14 +33,30 @@ class SocketManager {
     this.setupEventHandlers();
 
     return new Promise((resolve, reject) => {
-      this.socket!.on('connect', () => {
-        console.log('✅ Socket connected:', this.socket!.id);
+      const socket = this.socket!;
+      let hasRefreshed = false;
+
+      socket.on('connect', () => {
+        console.log('✅ Socket connected:', socket.id);
         this.reconnectAttempts = 0;
-        resolve(this.socket!);
+        hasRefreshed = false;
+        resolve(socket);
       });
 
-      this.socket!.on('connect_error', (error) => {
+      socket.on('connect_error', async (error) => {
         console.error('❌ Socket connection error:', error.message);
+
+        // The server rejects the handshake when the access token has expired: refresh once and retry
+        if (error.message.startsWith('Authentication error') && !hasRefreshed) {
+          hasRefreshed = true;
+          if (await refreshSession()) {
+            socket.connect();
+          } else {
+            reject(new Error('Session expired'));
+          }
+          return;
+        }
+
         this.reconnectAttempts++;
         
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
@@ -204,6 +221,87 @@ class SocketManager {
     });
   }
 
+  // Send an edited version of an earlier user message; the reply streams like a normal one
+  async editMessage(chatId: string, messageId: string, content: string): Promise<void> {
+    if (!this.socket?.connected) {
+      await this.connect();
+    }
+
+    return new Promise((resolve, reject) => {
+      console.log('📤 Sending edited message via WebSocket:', { chatId, messageId, content: content.substring(0, 50) + '...' });
+      this.socket!.emit('edit-message', { chatId, messageId, content });
+
+      // Set timeout for response
+      const timeout = setTimeout(() => {
+        console.error('⏱️ Message edit timeout');
+        this.socket!.off('message-saved', onMessageSaved);
+        this.socket!.off('error', onError);
+        reject(new Error('Message edit timeout'));
+      }, 60000); // 60 second timeout
+
+      // Listen for confirmation
+      const onMessageSaved = (data: any) => {
+        console.log('✅ Edited message saved confirmation received:', data);
+        clearTimeout(timeout);
+        this.socket!.off('message-saved', onMessageSaved);
+        this.socket!.off('error', onError);
+        resolve();
+      };
+
+      const onError = (error: any) => {
+        console.error('❌ Socket error received:', error);
+        clearTimeout(timeout);
+        this.socket!.off('message-saved', onMessageSaved);
+        this.socket!.off('error', onError);
+        const errorMessage = error.message || error.error || 'Failed to edit message';
+        reject(new Error(errorMessage));
+      };
+
+      this.socket!.once('message-saved', onMessageSaved);
+      this.socket!.once('error', onError);
+    });
+  }
+
+  // Ask for a new variant of an assistant response
+  async regenerateResponse(chatId: string, messageId: string): Promise<void> {
+    if (!this.socket?.connected) {
+      await this.connect();
+    }
+
+    return new Promise((resolve, reject) => {
+      console.log('📤 Requesting regenerated response via WebSocket:', { chatId, messageId });
+      this.socket!.emit('regenerate-response', { chatId, messageId });
+
+      // Set timeout for response
+      const timeout = setTimeout(() => {
+        console.error('⏱️ Regenerate timeout');
+        this.socket!.off('ai-response-start', onStart);
+        this.socket!.off('error', onError);
+        reject(new Error('Regenerate timeout'));
+      }, 60000); // 60 second timeout
+
+      // Generation has started; chunks arrive through the usual listeners
+      const onStart = () => {
+        clearTimeout(timeout);
+        this.socket!.off('ai-response-start', onStart);
+        this.socket!.off('error', onError);
+        resolve();
+      };
+
+      const onError = (error: any) => {
+        console.error('❌ Socket error received:', error);
+        clearTimeout(timeout);
+        this.socket!.off('ai-response-start', onStart);
+        this.socket!.off('error', onError);
+        const errorMessage = error.message || error.error || 'Failed to regenerate response';
+        reject(new Error(errorMessage));
+      };
+
+      this.socket!.once('ai-response-start', onStart);
+      this.socket!.once('error', onError);
+    });
+  }
+
   // Listen for AI response start
   onAIResponseStart(callback: (data: { chatId: string }) => void) {
     this.socket?.on('ai-response-start', callback);
@@ -219,6 +317,17 @@ class SocketManager {
     this.socket?.on('ai-response-complete', callback);
   }
 
+  // Stop the response currently streaming for a chat
+  cancelGeneration(chatId: string) {
+    console.log('🛑 Cancelling generation for chat:', chatId);
+    this.socket?.emit('cancel-generation', { chatId });
+  }
+
+  // Listen for AI responses stopped by the user (partial answer is saved)
+  onAIResponseCancelled(callback: (data: { chatId: string; messageId: string | null; fullResponse: string; createdAt?: string }) => void) {
+    this.socket?.on('ai-response-cancelled', callback);
+  }
+
   // Listen for AI response errors
   onAIResponseError(callback: (data: { chatId: string; error: string }) => void) {
     this.socket?.on('ai-response-error', callback);
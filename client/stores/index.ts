@@ -1,5 +1,7 @@
-export { useChatStore } from './useChatStore';
+export { useChatStore, matchesChatFilter } from './useChatStore';
 export type { Message, Chat } from './useChatStore';
 
 export { useAuthStore } from './useAuthStore';
 export type { User } from './useAuthStore';
+
+export { usePersonaStore } from './usePersonaStore';
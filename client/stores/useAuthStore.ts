@@ -1,11 +1,14 @@
 import { create } from 'zustand';
-import AuthService, { SignUpData, LoginData } from '../services/auth.service';
+import AuthService, { SignUpData, LoginData, ProfileUpdate, OAuthProviderName } from '../services/auth.service';
 import SocketManager from '../services/socket.service';
+import { setSessionExpiredHandler } from '../services/api';
 
 export interface User {
   id: number;
   name: string;
   email: string;
+  isVerified?: boolean;
+  hasPassword?: boolean;
 }
 
 interface AuthState {
@@ -13,6 +16,7 @@ interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  twoFactorChallenge: string | null; // Set between a correct password and the 2FA code
 
   // Actions
   setUser: (user: User | null) => void;
@@ -21,10 +25,17 @@ interface AuthState {
   
   // Auth operations
   checkAuthStatus: () => Promise<void>;
-  login: (data: LoginData) => Promise<void>;
+  login: (data: LoginData) => Promise<boolean>;
+  loginWithOAuth: (provider: OAuthProviderName) => Promise<boolean>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
   signup: (data: SignUpData) => Promise<void>;
   logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
+  markEmailVerified: () => void;
+  updateProfile: (updates: ProfileUpdate) => Promise<void>;
+  deleteAccount: (password?: string) => Promise<void>;
+  markPasswordSet: () => void;
 }
 
 export const useAuthStore = create<AuthState>((set, get) => ({
@@ -32,6 +43,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   isAuthenticated: false,
   isLoading: true,
+  twoFactorChallenge: null,
 
   // Basic setters
   setUser: (user) => set({ user }),
@@ -90,14 +102,20 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
-  // Login user
+  // Login user; false when the account needs a 2FA code first
   login: async (data) => {
     try {
       const response = await AuthService.login(data);
+      if ('twoFactorRequired' in response) {
+        set({ twoFactorChallenge: response.challengeToken });
+        return false;
+      }
       set({ 
         user: response.user, 
-        isAuthenticated: true 
+        isAuthenticated: true,
+        twoFactorChallenge: null
       });
+      return true;
     } catch (error: any) {
       console.error('Login error:', error);
       const message = error.error || error.message || 'Login failed';
@@ -105,6 +123,54 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     }
   },
 
+  // Sign in through an OAuth provider; false when the user backed out or a 2FA code is needed
+  loginWithOAuth: async (provider) => {
+    try {
+      const response = await AuthService.loginWithOAuth(provider);
+      if (!response) {
+        return false;
+      }
+      if ('twoFactorRequired' in response) {
+        set({ twoFactorChallenge: response.challengeToken });
+        return false;
+      }
+      set({ 
+        user: response.user, 
+        isAuthenticated: true,
+        twoFactorChallenge: null
+      });
+      return true;
+    } catch (error: any) {
+      console.error('OAuth login error:', error);
+      const message = error.error || error.message || 'Sign in failed';
+      throw new Error(message);
+    }
+  },
+
+  // Finish a sign-in that is waiting for a 2FA code
+  verifyTwoFactor: async (code) => {
+    const challengeToken = get().twoFactorChallenge;
+    if (!challengeToken) {
+      throw new Error('Sign-in expired. Please sign in again');
+    }
+
+    try {
+      const response = await AuthService.verifyTwoFactor(challengeToken, code);
+      set({ 
+        user: response.user, 
+        isAuthenticated: true,
+        twoFactorChallenge: null
+      });
+    } catch (error: any) {
+      console.error('Two-factor verification error:', error);
+      const message = error.error || error.message || 'Verification failed';
+      throw new Error(message);
+    }
+  },
+
+  // Back out of the code step to the password form
+  cancelTwoFactor: () => set({ twoFactorChallenge: null }),
+
   // Sign up user
   signup: async (data) => {
     try {
@@ -115,7 +181,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       });
     } catch (error: any) {
       console.error('Signup error:', error);
-      const message = error.error || error.message || 'Sign up failed';
+      // Validation failures carry one issue per broken rule; show those instead of the summary
+      const details = error.details?.map((issue: { message: string }) => issue.message).join('\n');
+      const message = details || error.error || error.message || 'Sign up failed';
       throw new Error(message);
     }
   },
@@ -143,7 +211,50 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     set({ isLoading: true });
     await get().checkAuthStatus();
   },
+
+  // Update name or email
+  updateProfile: async (updates) => {
+    const { user } = await AuthService.updateProfile(updates);
+    set({ user });
+  },
+
+  // Delete the account; the server ends every session
+  deleteAccount: async (password) => {
+    await AuthService.deleteAccount(password);
+    SocketManager.disconnect();
+    set({ 
+      user: null, 
+      isAuthenticated: false 
+    });
+  },
+
+  // An OAuth-only account just set its first password
+  markPasswordSet: () => {
+    const { user } = get();
+    if (user) {
+      const updatedUser = { ...user, hasPassword: true };
+      set({ user: updatedUser });
+      AuthService.storeUser(updatedUser);
+    }
+  },
+
+  // Reflect a confirmed email without waiting for the next profile fetch
+  markEmailVerified: () => {
+    const { user } = get();
+    if (user) {
+      const verifiedUser = { ...user, isVerified: true };
+      set({ user: verifiedUser });
+      AuthService.storeUser(verifiedUser);
+    }
+  },
 }));
 
+// The refresh token was rejected (expired, or the session was ended elsewhere): sign out locally
+setSessionExpiredHandler(() => {
+  SocketManager.disconnect();
+  AuthService.clearAuthData();
+  useAuthStore.setState({ user: null, isAuthenticated: false });
+});
+
 // Initialize auth check on store creation
 useAuthStore.getState().checkAuthStatus();
@@ -1,5 +1,5 @@
-import { create } from 'zustand';
-import ChatService, { Message as ServiceMessage, Chat as ServiceChat } from '../services/chat.service';
+import { create, type StoreApi } from 'zustand';
+import ChatService, { Message as ServiceMessage, Chat as ServiceChat, type ChatListFilters, type ChatOrganization } from '../services/chat.service';
 import SocketManager from '../services/socket.service';
 import * as FileSystem from 'expo-file-system/legacy';
 
@@ -13,26 +13,41 @@ export interface Message {
   imageUri?: string;
   documentUri?: string;
   documentName?: string;
+  truncated?: boolean;
+  siblingIds?: string[];
 }
 
 export interface Chat {
   id: string;
   title: string;
-  messages: Message[];
+  messages: Message[]; // The loaded part of the branch, oldest first
+  hasMoreMessages?: boolean; // Older messages can be loaded with loadOlderMessages
   messageCount?: number;
+  lastMessagePreview?: string | null;
+  activeMessageId?: string | null; // Leaf of the branch being shown
+  personaId?: string | null;
+  folder?: string | null;
+  pinnedAt?: string | null;
+  archivedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
 interface ChatState {
   // State
-  chats: Chat[];
+  chats: Chat[]; // Loaded chat list pages, plus the open chat
   currentChatId: string | null;
+  chatFilter: ChatListFilters; // Which chats the sidebar lists
+  chatsCursor: string | null; // Next chat list page, null once all are loaded
+  folders: string[];
   isLoading: boolean;
+  isLoadingMoreChats: boolean;
+  isLoadingOlder: boolean;
   isThinking: boolean;
   isStreaming: boolean;
   streamingMessage: string;
   streamingBuffer: string;
+  highlightedMessageId: string | null; // Message to scroll to and flash, e.g. a search result
 
   // Computed
   currentChat: () => Chat | null;
@@ -46,20 +61,33 @@ interface ChatState {
   setStreamingMessage: (message: string) => void;
   appendStreamingChunk: (chunk: string) => void;
   clearStreaming: () => void;
+  stopGeneration: () => void;
   
   // Chat operations
   refreshChats: () => Promise<void>;
+  loadMoreChats: () => Promise<void>;
+  setChatFilter: (filter: ChatListFilters) => Promise<void>;
+  organizeChat: (chatId: string, changes: ChatOrganization) => Promise<void>;
   createNewChat: () => Promise<string>;
   switchChat: (chatId: string) => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
+  jumpToMessage: (chatId: string, messageId: string) => Promise<void>;
+  clearHighlightedMessage: () => void;
   deleteChat: (chatId: string) => Promise<void>;
   addMessage: (message: Message) => void;
   updateChat: (chatId: string, updates: Partial<Chat>) => void;
+  setChatPersona: (chatId: string, personaId: string | null) => Promise<void>;
   clearCurrentChat: () => Promise<void>;
   
   // Message sending
   sendMessage: (content: string) => Promise<void>;
   sendMessageWithImage: (content: string, imageUri: string) => Promise<void>;
   sendMessageWithDocument: (content: string, documentUri: string, documentName: string) => Promise<void>;
+
+  // Variants
+  regenerateResponse: (messageId: string) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  switchVariant: (messageId: string) => Promise<void>;
 }
 
 const formatTime = () => {
@@ -67,31 +95,171 @@ const formatTime = () => {
   return now.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
 };
 
-const convertMessage = (msg: ServiceMessage): Message => ({
-  id: msg.id,
-  text: msg.content,
-  isUser: msg.role === 'user',
-  timestamp: new Date(msg.createdAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
-});
+const convertMessage = (msg: ServiceMessage): Message => {
+  const attachments = msg.metadata?.attachments || [];
+  const image = attachments.find(attachment => attachment.type === 'image');
+  const document = attachments.find(attachment => attachment.type === 'document');
+
+  return {
+    id: msg.id,
+    text: msg.content,
+    isUser: msg.role === 'user',
+    timestamp: new Date(msg.createdAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+    imageUri: image ? ChatService.getAttachmentUrl(image) : undefined,
+    documentUri: document ? ChatService.getAttachmentUrl(document) : undefined,
+    documentName: document?.fileName,
+    truncated: msg.metadata?.truncated,
+    siblingIds: msg.siblingIds,
+  };
+};
 
 const convertChat = (chat: ServiceChat): Chat => ({
   id: chat.id,
   title: chat.title,
   messages: chat.messages ? chat.messages.map(convertMessage) : [],
+  hasMoreMessages: chat.hasMoreMessages,
   messageCount: chat.messageCount,
+  lastMessagePreview: chat.lastMessagePreview,
+  activeMessageId: chat.activeMessageId,
+  personaId: chat.personaId,
+  folder: chat.folder,
+  pinnedAt: chat.pinnedAt,
+  archivedAt: chat.archivedAt,
   createdAt: chat.createdAt,
   updatedAt: chat.updatedAt,
 });
 
+// Whether a chat belongs in the list for `filter`, mirroring the server's filtering
+export const matchesChatFilter = (chat: Chat, filter: ChatListFilters): boolean =>
+  !!chat.archivedAt === !!filter.archived &&
+  (filter.pinned === undefined || !!chat.pinnedAt === filter.pinned) &&
+  (filter.folder === undefined || chat.folder === filter.folder) &&
+  (!filter.from || chat.updatedAt >= filter.from) &&
+  (!filter.to || chat.updatedAt <= filter.to);
+
+// List pages carry no messages; keep the ones already loaded for chats that were opened
+const withLoadedChats = (cached: Chat[], fetched: Chat[]): Chat[] => fetched.map(chat => {
+  const existing = cached.find(c => c.id === chat.id);
+  return existing
+    ? { ...chat, messages: existing.messages, hasMoreMessages: existing.hasMoreMessages, activeMessageId: existing.activeMessageId }
+    : chat;
+});
+
+// A reload only returns the newest page; keep the older messages already loaded above it
+const withLoadedHistory = (previous: Chat, latest: Chat): Chat => {
+  const firstId = latest.messages[0]?.id;
+  const overlap = firstId ? previous.messages.findIndex(message => message.id === firstId) : -1;
+  if (overlap <= 0) {
+    return latest;
+  }
+
+  return {
+    ...latest,
+    messages: [...previous.messages.slice(0, overlap), ...latest.messages],
+    hasMoreMessages: previous.hasMoreMessages,
+  };
+};
+
+// Page back through the chat's branch until `messageId` is loaded, or the branch runs out
+const loadThroughMessage = async (chatId: string, messageId: string): Promise<ServiceChat> => {
+  let { chat } = await ChatService.getChatById(chatId);
+  let loaded = chat.messages || [];
+
+  while (!loaded.some(message => message.id === messageId) && chat.hasMoreMessages && loaded.length > 0) {
+    ({ chat } = await ChatService.getChatById(chatId, { before: loaded[0].id, limit: 200 }));
+    loaded = [...(chat.messages || []), ...loaded];
+  }
+
+  return { ...chat, messages: loaded };
+};
+
+// Stream the reply for a chat into the store, then reload the chat so new variants show up
+const listenForResponse = (
+  chatId: string,
+  set: StoreApi<ChatState>['setState'],
+  get: StoreApi<ChatState>['getState'],
+  onError?: () => Promise<void>
+) => {
+  const handleStart = (data: { chatId: string }) => {
+    if (data.chatId === chatId) {
+      if (DEBUG) console.log('🎬 AI response started');
+      set({ 
+        isThinking: false, 
+        isStreaming: true,
+        streamingBuffer: '',
+        streamingMessage: '' 
+      });
+    }
+  };
+
+  const handleChunk = (data: { chatId: string; chunk: string }) => {
+    if (data.chatId === chatId) {
+      if (DEBUG) console.log(`📨 Received chunk (${data.chunk.length} chars)`);
+      get().appendStreamingChunk(data.chunk);
+    }
+  };
+
+  // Also used for ai-response-cancelled, which carries the partial response
+  const handleComplete = async (data: { chatId: string; messageId: string | null; fullResponse: string }) => {
+    if (data.chatId === chatId) {
+      if (DEBUG) console.log('✅ AI response complete');
+
+      set({ 
+        streamingBuffer: data.fullResponse,
+        streamingMessage: data.fullResponse 
+      });
+
+      const { chat } = await ChatService.getChatById(chatId);
+      const updatedChat = convertChat(chat);
+
+      set(state => ({
+        chats: state.chats.map(c => c.id === chatId ? withLoadedHistory(c, updatedChat) : c)
+      }));
+
+      get().clearStreaming();
+      cleanup();
+    }
+  };
+
+  const handleError = async (data: { chatId: string; error: string }) => {
+    if (data.chatId === chatId) {
+      console.error('❌ AI response error:', data.error);
+      get().clearStreaming();
+      cleanup();
+      await onError?.();
+    }
+  };
+
+  const cleanup = () => {
+    SocketManager.off('ai-response-start', handleStart);
+    SocketManager.off('ai-response-chunk', handleChunk);
+    SocketManager.off('ai-response-complete', handleComplete);
+    SocketManager.off('ai-response-cancelled', handleComplete);
+    SocketManager.off('ai-response-error', handleError);
+  };
+
+  SocketManager.onAIResponseStart(handleStart);
+  SocketManager.onAIResponseChunk(handleChunk);
+  SocketManager.onAIResponseComplete(handleComplete);
+  SocketManager.onAIResponseCancelled(handleComplete);
+  SocketManager.onAIResponseError(handleError);
+};
+
 export const useChatStore = create<ChatState>((set, get) => ({
   // Initial state
   chats: [],
   currentChatId: null,
+  chatFilter: {},
+  chatsCursor: null,
+  folders: [],
   isLoading: false,
+  isLoadingMoreChats: false,
+  isLoadingOlder: false,
   isThinking: false,
   isStreaming: false,
   streamingMessage: '',
   streamingBuffer: '',
+  highlightedMessageId: null,
 
   // Computed
   currentChat: () => {
@@ -122,12 +290,38 @@ export const useChatStore = create<ChatState>((set, get) => ({
     streamingBuffer: '' 
   }),
 
-  // Refresh chats from server
+  // Ask the server to stop the current response; it replies with ai-response-cancelled
+  stopGeneration: () => {
+    const { currentChatId, isThinking, isStreaming } = get();
+    if (!currentChatId || (!isThinking && !isStreaming)) return;
+
+    SocketManager.cancelGeneration(currentChatId);
+  },
+
+  // Reload the first page of the chat list (and the folder names) from the server
   refreshChats: async () => {
+    const filter = get().chatFilter;
+
     try {
       set({ isLoading: true });
-      const { chats: fetchedChats } = await ChatService.getUserChats();
-      set({ chats: fetchedChats.map(convertChat) });
+      const [{ chats: fetchedChats, nextCursor }, { folders }] = await Promise.all([
+        ChatService.getUserChats(filter),
+        ChatService.getFolders(),
+      ]);
+
+      // The filter changed while loading; its own refresh takes over
+      if (get().chatFilter !== filter) return;
+
+      set(state => {
+        const page = withLoadedChats(state.chats, fetchedChats.map(convertChat));
+        // Keep the open chat even when this page or filter leaves it out
+        const current = state.chats.find(c => c.id === state.currentChatId && !page.some(p => p.id === c.id));
+        return {
+          chats: current ? [...page, current] : page,
+          chatsCursor: nextCursor,
+          folders,
+        };
+      });
     } catch (error) {
       console.error('Failed to refresh chats:', error);
     } finally {
@@ -135,6 +329,53 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
+  // Append the next page of the chat list, for infinite scroll
+  loadMoreChats: async () => {
+    const { chatFilter: filter, chatsCursor, isLoadingMoreChats } = get();
+    if (!chatsCursor || isLoadingMoreChats) return;
+
+    try {
+      set({ isLoadingMoreChats: true });
+      const { chats: fetchedChats, nextCursor } = await ChatService.getUserChats(filter, chatsCursor);
+
+      if (get().chatFilter !== filter) return;
+
+      set(state => {
+        const page = withLoadedChats(state.chats, fetchedChats.map(convertChat));
+        return {
+          chats: [...state.chats.filter(c => !page.some(p => p.id === c.id)), ...page],
+          chatsCursor: nextCursor,
+        };
+      });
+    } catch (error) {
+      console.error('Failed to load more chats:', error);
+    } finally {
+      set({ isLoadingMoreChats: false });
+    }
+  },
+
+  // Show a different set of chats in the sidebar, starting again from the first page
+  setChatFilter: async (filter) => {
+    set({ chatFilter: filter, chatsCursor: null });
+    await get().refreshChats();
+  },
+
+  // Pin, archive or file a chat
+  organizeChat: async (chatId, changes) => {
+    try {
+      const { chat } = await ChatService.organizeChat(chatId, changes);
+      get().updateChat(chatId, { pinnedAt: chat.pinnedAt, archivedAt: chat.archivedAt, folder: chat.folder });
+
+      if (changes.folder !== undefined) {
+        const { folders } = await ChatService.getFolders();
+        set({ folders });
+      }
+    } catch (error) {
+      console.error('Failed to organize chat:', error);
+      throw error;
+    }
+  },
+
   // Create new chat
   createNewChat: async () => {
     try {
@@ -174,6 +415,58 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
+  // Open a chat at a specific message, switching to its branch if it isn't the one shown
+  jumpToMessage: async (chatId, messageId) => {
+    try {
+      set({ isLoading: true, currentChatId: chatId, highlightedMessageId: null });
+
+      let chat = await loadThroughMessage(chatId, messageId);
+      if (!chat.messages?.some(message => message.id === messageId)) {
+        await ChatService.activateMessage(chatId, messageId);
+        chat = await loadThroughMessage(chatId, messageId);
+      }
+
+      const fullChat = convertChat(chat);
+      set(state => ({
+        chats: state.chats.some(c => c.id === chatId)
+          ? state.chats.map(c => c.id === chatId ? fullChat : c)
+          : [fullChat, ...state.chats],
+        highlightedMessageId: messageId,
+      }));
+    } catch (error) {
+      console.error('Failed to open message:', error);
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  clearHighlightedMessage: () => set({ highlightedMessageId: null }),
+
+  // Load the page of messages before the oldest one shown
+  loadOlderMessages: async () => {
+    const { currentChatId: chatId, isLoadingOlder } = get();
+    const chat = get().currentChat();
+    const oldest = chat?.messages.find(message => !message.id.startsWith('temp-'));
+    if (!chatId || !chat?.hasMoreMessages || !oldest || isLoadingOlder) return;
+
+    try {
+      set({ isLoadingOlder: true });
+      const { chat: page } = await ChatService.getChatById(chatId, { before: oldest.id });
+      const olderMessages = (page.messages || []).map(convertMessage);
+
+      set(state => ({
+        chats: state.chats.map(c => c.id === chatId
+          ? { ...c, messages: [...olderMessages, ...c.messages], hasMoreMessages: page.hasMoreMessages }
+          : c
+        )
+      }));
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    } finally {
+      set({ isLoadingOlder: false });
+    }
+  },
+
   // Delete chat
   deleteChat: async (chatId) => {
     try {
@@ -218,6 +511,17 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }));
   },
 
+  // Assign a persona to a chat; it applies from the next response on
+  setChatPersona: async (chatId, personaId) => {
+    try {
+      await ChatService.setChatPersona(chatId, personaId);
+      get().updateChat(chatId, { personaId });
+    } catch (error) {
+      console.error('Failed to update chat persona:', error);
+      throw error;
+    }
+  },
+
   // Clear current chat messages
   clearCurrentChat: async () => {
     const { currentChatId } = get();
@@ -278,79 +582,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
         await SocketManager.connect();
       }
 
-      // Setup socket listeners
-      const handleStart = (data: { chatId: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log('🎬 AI response started');
-          set({ 
-            isThinking: false, 
-            isStreaming: true,
-            streamingBuffer: '',
-            streamingMessage: '' 
-          });
-        }
-      };
-
-      const handleChunk = (data: { chatId: string; chunk: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log(`📨 Received chunk (${data.chunk.length} chars)`);
-          get().appendStreamingChunk(data.chunk);
-        }
-      };
-
-      const handleComplete = async (data: { chatId: string; messageId: string; fullResponse: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log('✅ AI response complete');
-          
-          // Show complete response while fetching from DB
-          set({ 
-            streamingBuffer: data.fullResponse,
-            streamingMessage: data.fullResponse 
-          });
-          
-          // Fetch updated chat
-          const { chat } = await ChatService.getChatById(chatId!);
-          const updatedChat = convertChat(chat);
-          
-          set(state => ({
-            chats: state.chats.map(c => c.id === chatId ? updatedChat : c)
-          }));
-          
-          // Clear streaming state
-          get().clearStreaming();
-
-          // Cleanup listeners
-          SocketManager.off('ai-response-start', handleStart);
-          SocketManager.off('ai-response-chunk', handleChunk);
-          SocketManager.off('ai-response-complete', handleComplete);
-          SocketManager.off('ai-response-error', handleError);
-        }
-      };
-
-      const handleError = (data: { chatId: string; error: string }) => {
-        if (data.chatId === chatId) {
-          console.error('❌ AI response error:', data.error);
-          get().clearStreaming();
-          
-          // Cleanup listeners
-          SocketManager.off('ai-response-start', handleStart);
-          SocketManager.off('ai-response-chunk', handleChunk);
-          SocketManager.off('ai-response-complete', handleComplete);
-          SocketManager.off('ai-response-error', handleError);
-        }
-      };
-
       const handleTitleUpdate = (data: { chatId: string; title: string }) => {
         if (data.chatId === chatId) {
           get().updateChat(chatId, { title: data.title });
         }
       };
 
-      // Attach listeners
-      SocketManager.onAIResponseStart(handleStart);
-      SocketManager.onAIResponseChunk(handleChunk);
-      SocketManager.onAIResponseComplete(handleComplete);
-      SocketManager.onAIResponseError(handleError);
+      listenForResponse(chatId, set, get);
       SocketManager.onChatTitleUpdated(handleTitleUpdate);
 
       // Send message via WebSocket
@@ -405,67 +643,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
         await SocketManager.connect();
       }
 
-      // Setup listeners (same as sendMessage)
-      const handleStart = (data: { chatId: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log('🎬 AI response started');
-          set({ 
-            isThinking: false, 
-            isStreaming: true,
-            streamingBuffer: '',
-            streamingMessage: '' 
-          });
-        }
-      };
-
-      const handleChunk = (data: { chatId: string; chunk: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log(`📨 Received chunk (${data.chunk.length} chars)`);
-          get().appendStreamingChunk(data.chunk);
-        }
-      };
-
-      const handleComplete = async (data: { chatId: string; messageId: string; fullResponse: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log('✅ AI response complete');
-          
-          set({ 
-            streamingBuffer: data.fullResponse,
-            streamingMessage: data.fullResponse 
-          });
-          
-          const { chat } = await ChatService.getChatById(chatId!);
-          const updatedChat = convertChat(chat);
-          
-          set(state => ({
-            chats: state.chats.map(c => c.id === chatId ? updatedChat : c)
-          }));
-
-          get().clearStreaming();
-
-          SocketManager.off('ai-response-start', handleStart);
-          SocketManager.off('ai-response-chunk', handleChunk);
-          SocketManager.off('ai-response-complete', handleComplete);
-          SocketManager.off('ai-response-error', handleError);
-        }
-      };
-
-      const handleError = (data: { chatId: string; error: string }) => {
-        if (data.chatId === chatId) {
-          console.error('❌ AI response error:', data.error);
-          get().clearStreaming();
-          
-          SocketManager.off('ai-response-start', handleStart);
-          SocketManager.off('ai-response-chunk', handleChunk);
-          SocketManager.off('ai-response-complete', handleComplete);
-          SocketManager.off('ai-response-error', handleError);
-        }
-      };
-
-      SocketManager.onAIResponseStart(handleStart);
-      SocketManager.onAIResponseChunk(handleChunk);
-      SocketManager.onAIResponseComplete(handleComplete);
-      SocketManager.onAIResponseError(handleError);
+      listenForResponse(chatId, set, get);
 
       await SocketManager.sendMessageWithImage(chatId, content, base64, mimeType);
 
@@ -529,74 +707,106 @@ export const useChatStore = create<ChatState>((set, get) => ({
         await SocketManager.connect();
       }
 
-      // Setup listeners (same pattern)
-      const handleStart = (data: { chatId: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log('🎬 AI response started');
-          set({ 
-            isThinking: false, 
-            isStreaming: true,
-            streamingBuffer: '',
-            streamingMessage: '' 
-          });
-        }
-      };
+      listenForResponse(chatId, set, get);
 
-      const handleChunk = (data: { chatId: string; chunk: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log(`📨 Received chunk (${data.chunk.length} chars)`);
-          get().appendStreamingChunk(data.chunk);
-        }
-      };
+      await SocketManager.sendMessageWithDocument(chatId, content, base64, mimeType, documentName);
 
-      const handleComplete = async (data: { chatId: string; messageId: string; fullResponse: string }) => {
-        if (data.chatId === chatId) {
-          if (DEBUG) console.log('✅ AI response complete');
-          
-          set({ 
-            streamingBuffer: data.fullResponse,
-            streamingMessage: data.fullResponse 
-          });
-          
-          const { chat } = await ChatService.getChatById(chatId!);
-          const updatedChat = convertChat(chat);
-          
-          set(state => ({
-            chats: state.chats.map(c => c.id === chatId ? updatedChat : c)
-          }));
-
-          get().clearStreaming();
-
-          SocketManager.off('ai-response-start', handleStart);
-          SocketManager.off('ai-response-chunk', handleChunk);
-          SocketManager.off('ai-response-complete', handleComplete);
-          SocketManager.off('ai-response-error', handleError);
-        }
-      };
+    } catch (error) {
+      console.error('Failed to send message with document:', error);
+      get().clearStreaming();
+      throw error;
+    }
+  },
 
-      const handleError = (data: { chatId: string; error: string }) => {
-        if (data.chatId === chatId) {
-          console.error('❌ AI response error:', data.error);
-          get().clearStreaming();
-          
-          SocketManager.off('ai-response-start', handleStart);
-          SocketManager.off('ai-response-chunk', handleChunk);
-          SocketManager.off('ai-response-complete', handleComplete);
-          SocketManager.off('ai-response-error', handleError);
-        }
-      };
+  // Regenerate an assistant response; the new answer is kept next to the old one as a variant
+  regenerateResponse: async (messageId) => {
+    const chatId = get().currentChatId;
+    if (!chatId) return;
 
-      SocketManager.onAIResponseStart(handleStart);
-      SocketManager.onAIResponseChunk(handleChunk);
-      SocketManager.onAIResponseComplete(handleComplete);
-      SocketManager.onAIResponseError(handleError);
+    // Hide the answer being replaced while the new one streams in
+    set(state => ({
+      isThinking: true,
+      streamingMessage: '',
+      streamingBuffer: '',
+      chats: state.chats.map(chat =>
+        chat.id === chatId
+          ? { ...chat, messages: chat.messages.filter(msg => msg.id !== messageId) }
+          : chat
+      ),
+    }));
 
-      await SocketManager.sendMessageWithDocument(chatId, content, base64, mimeType, documentName);
+    // On failure, bring back the answer that was hidden
+    const restore = () => get().switchVariant(messageId);
+
+    try {
+      if (!SocketManager.isConnected()) {
+        await SocketManager.connect();
+      }
+
+      listenForResponse(chatId, set, get, restore);
+      await SocketManager.regenerateResponse(chatId, messageId);
 
     } catch (error) {
-      console.error('Failed to send message with document:', error);
+      console.error('Failed to regenerate response:', error);
       get().clearStreaming();
+      await restore();
       throw error;
     }
   },
+
+  // Edit an earlier user message; the conversation forks from there and the old branch is kept
+  editMessage: async (messageId, content) => {
+    const chatId = get().currentChatId;
+    if (!chatId) return;
+
+    // Show the edited message in place and drop everything after it while the reply streams in
+    set(state => ({
+      isThinking: true,
+      streamingMessage: '',
+      streamingBuffer: '',
+      chats: state.chats.map(chat => {
+        if (chat.id !== chatId) return chat;
+
+        const index = chat.messages.findIndex(msg => msg.id === messageId);
+        if (index === -1) return chat;
+
+        const edited = { ...chat.messages[index], id: `temp-${Date.now()}`, text: content, siblingIds: undefined };
+        return { ...chat, messages: [...chat.messages.slice(0, index), edited] };
+      }),
+    }));
+
+    // On failure, go back to the branch with the original message
+    const restore = () => get().switchVariant(messageId);
+
+    try {
+      if (!SocketManager.isConnected()) {
+        await SocketManager.connect();
+      }
+
+      listenForResponse(chatId, set, get, restore);
+      await SocketManager.editMessage(chatId, messageId, content);
+
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+      get().clearStreaming();
+      await restore();
+      throw error;
+    }
+  },
+
+  // Show another variant of a message
+  switchVariant: async (messageId) => {
+    const chatId = get().currentChatId;
+    if (!chatId) return;
+
+    try {
+      const { chat } = await ChatService.activateMessage(chatId, messageId);
+      const updatedChat = convertChat(chat);
+      set(state => ({
+        chats: state.chats.map(c => c.id === chatId ? withLoadedHistory(c, updatedChat) : c)
+      }));
+    } catch (error) {
+      console.error('Failed to switch variant:', error);
+    }
+  },
 }));
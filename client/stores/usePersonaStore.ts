@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import PersonaService, { Persona, PersonaInput } from '../services/persona.service';
+import { useChatStore } from './useChatStore';
+
+interface PersonaState {
+  // State
+  personas: Persona[];
+  isLoading: boolean;
+
+  // Persona operations
+  loadPersonas: () => Promise<void>;
+  createPersona: (input: PersonaInput) => Promise<Persona>;
+  updatePersona: (personaId: string, updates: Partial<PersonaInput>) => Promise<void>;
+  deletePersona: (personaId: string) => Promise<void>;
+}
+
+export const usePersonaStore = create<PersonaState>((set) => ({
+  // Initial state
+  personas: [],
+  isLoading: false,
+
+  // Load personas from server
+  loadPersonas: async () => {
+    set({ isLoading: true });
+    try {
+      const { personas } = await PersonaService.getPersonas();
+      set({ personas });
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+      throw error;
+    } finally {
+      set({ isLoading: false });
+    }
+  },
+
+  // Create persona
+  createPersona: async (input) => {
+    const { persona } = await PersonaService.createPersona(input);
+    set(state => ({ personas: [...state.personas, persona] }));
+    return persona;
+  },
+
+  // Update persona
+  updatePersona: async (personaId, updates) => {
+    const { persona } = await PersonaService.updatePersona(personaId, updates);
+    set(state => ({
+      personas: state.personas.map(p => p.id === personaId ? persona : p)
+    }));
+  },
+
+  // Delete persona; the server moves chats that used it back to the default
+  deletePersona: async (personaId) => {
+    await PersonaService.deletePersona(personaId);
+    set(state => ({ personas: state.personas.filter(p => p.id !== personaId) }));
+
+    useChatStore.setState(state => ({
+      chats: state.chats.map(chat => chat.personaId === personaId ? { ...chat, personaId: null } : chat)
+    }));
+  },
+}));
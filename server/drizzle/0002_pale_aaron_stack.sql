@@ -0,0 +1 @@
+ALTER TABLE "chats" ADD COLUMN "provider" text;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "document_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chat_id" uuid NOT NULL,
+	"attachment_id" uuid NOT NULL,
+	"file_name" text NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"page" integer,
+	"content" text NOT NULL,
+	"embedding" real[] NOT NULL,
+	"embedding_model" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD CONSTRAINT "document_chunks_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_document_chunks_chat_id" ON "document_chunks" USING btree ("chat_id");--> statement-breakpoint
+CREATE INDEX "idx_document_chunks_attachment_id" ON "document_chunks" USING btree ("attachment_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "chat_summaries" (
+	"chat_id" uuid PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"summarized_through" timestamp NOT NULL,
+	"message_count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_summaries" ADD CONSTRAINT "chat_summaries_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "chats" ADD COLUMN "active_message_id" uuid;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "parent_id" uuid;--> statement-breakpoint
+ALTER TABLE "chats" ADD CONSTRAINT "chats_active_message_id_messages_id_fk" FOREIGN KEY ("active_message_id") REFERENCES "public"."messages"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_parent_id_messages_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_messages_parent_id" ON "messages" USING btree ("parent_id");--> statement-breakpoint
+-- Existing chats are linear: link each message to the one before it and show the latest
+UPDATE "messages" SET "parent_id" = "ordered"."previous_id" FROM (SELECT "id", LAG("id") OVER (PARTITION BY "chat_id" ORDER BY "created_at") AS "previous_id" FROM "messages") AS "ordered" WHERE "messages"."id" = "ordered"."id";--> statement-breakpoint
+UPDATE "chats" SET "active_message_id" = (SELECT "id" FROM "messages" WHERE "messages"."chat_id" = "chats"."id" ORDER BY "created_at" DESC LIMIT 1);
\ No newline at end of file
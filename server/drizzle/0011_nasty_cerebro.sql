@@ -0,0 +1,4 @@
+-- Outstanding reset links were stored in plain text; drop them rather than keep them usable
+DELETE FROM "password_resets";--> statement-breakpoint
+ALTER TABLE "password_resets" ADD COLUMN "token_hash" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "password_resets" DROP COLUMN "token";
\ No newline at end of file
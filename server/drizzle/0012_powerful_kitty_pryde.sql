@@ -0,0 +1,3 @@
+ALTER TABLE "password_resets" DROP CONSTRAINT "password_resets_user_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "password_resets" ADD CONSTRAINT "password_resets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "idx_messages_content_search" ON "messages" USING gin (to_tsvector('english', "content"));
\ No newline at end of file
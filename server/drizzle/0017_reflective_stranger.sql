@@ -0,0 +1,13 @@
+CREATE TABLE "message_embeddings" (
+	"message_id" uuid PRIMARY KEY NOT NULL,
+	"chat_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"embedding" real[] NOT NULL,
+	"embedding_model" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "message_embeddings" ADD CONSTRAINT "message_embeddings_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_embeddings" ADD CONSTRAINT "message_embeddings_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_embeddings" ADD CONSTRAINT "message_embeddings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_message_embeddings_user_id_model_created_at" ON "message_embeddings" USING btree ("user_id","embedding_model","created_at");
\ No newline at end of file
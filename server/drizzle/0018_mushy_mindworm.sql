@@ -0,0 +1,9 @@
+ALTER TABLE "chats" ADD COLUMN "folder" text;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "pinned_at" timestamp;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "archived_at" timestamp;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "message_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chats" ADD COLUMN "last_message_preview" text;--> statement-breakpoint
+CREATE INDEX "idx_chats_user_id_updated_at" ON "chats" USING btree ("user_id","updated_at","id");--> statement-breakpoint
+-- Fill the stored counts and previews for existing chats
+UPDATE "chats" SET "message_count" = "counts"."count" FROM (SELECT "chat_id", COUNT(*)::integer AS "count" FROM "messages" GROUP BY "chat_id") AS "counts" WHERE "chats"."id" = "counts"."chat_id";--> statement-breakpoint
+UPDATE "chats" SET "last_message_preview" = (SELECT LEFT("content", 200) FROM "messages" WHERE "messages"."chat_id" = "chats"."id" ORDER BY "created_at" DESC LIMIT 1);
@@ -0,0 +1,110 @@
+/**
+ * Minimal OpenID Connect provider for trying OAuth sign-in locally
+ * Run with: npx tsx mock-oidc.ts
+ *
+ * Then start the server with:
+ *   GOOGLE_ISSUER=http://localhost:4000 GOOGLE_CLIENT_ID=mock GOOGLE_CLIENT_SECRET=mock
+ * and "Continue with Google" signs in through the form below instead of Google.
+ */
+
+import { randomBytes } from 'crypto';
+import { Hono } from 'hono';
+import { serve } from '@hono/node-server';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 4000;
+const ISSUER = `http://localhost:${PORT}`;
+
+interface MockAccount {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+}
+
+// Authorization codes and access tokens, both single-process and in memory
+const codes = new Map<string, MockAccount>();
+const accessTokens = new Map<string, MockAccount>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const app = new Hono();
+
+app.get('/.well-known/openid-configuration', (c) => {
+  return c.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+});
+
+// Stands in for the consent screen: pick who to sign in as
+app.get('/authorize', (c) => {
+  const hidden = ['redirect_uri', 'state']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(c.req.query(name) || '')}">`)
+    .join('\n    ');
+
+  return c.html(`<!doctype html>
+<html>
+<body style="font-family: sans-serif; max-width: 360px; margin: 48px auto;">
+  <h2>Mock OIDC sign-in</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Email<br><input name="email" value="test@example.com" style="width: 100%"></label></p>
+    <p><label>Name<br><input name="name" value="Test User" style="width: 100%"></label></p>
+    <p><label><input type="checkbox" name="email_verified" checked> Email verified</label></p>
+    <p><button type="submit">Sign in</button> <button type="submit" name="deny" value="1">Cancel</button></p>
+  </form>
+</body>
+</html>`);
+});
+
+app.post('/authorize', async (c) => {
+  const form = await c.req.parseBody();
+  const redirectUri = String(form.redirect_uri);
+  const params = new URLSearchParams({ state: String(form.state) });
+
+  if (form.deny) {
+    params.set('error', 'access_denied');
+  } else {
+    const email = String(form.email).trim().toLowerCase();
+    const code = randomBytes(16).toString('hex');
+    codes.set(code, {
+      sub: `mock-${email}`, // Stable per email, so signing in again finds the same account
+      email,
+      email_verified: form.email_verified === 'on',
+      name: String(form.name),
+    });
+    params.set('code', code);
+  }
+
+  return c.redirect(`${redirectUri}?${params.toString()}`, 302);
+});
+
+app.post('/token', async (c) => {
+  const form = await c.req.parseBody();
+  const account = codes.get(String(form.code));
+  if (!account) {
+    return c.json({ error: 'invalid_grant' }, 400);
+  }
+  codes.delete(String(form.code));
+
+  const accessToken = randomBytes(16).toString('hex');
+  accessTokens.set(accessToken, account);
+  return c.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600 });
+});
+
+app.get('/userinfo', (c) => {
+  const account = accessTokens.get(c.req.header('Authorization')?.replace(/^Bearer /, '') || '');
+  if (!account) {
+    return c.json({ error: 'invalid_token' }, 401);
+  }
+  return c.json(account);
+});
+
+serve({ fetch: app.fetch, port: PORT });
+console.log(`🔐 Mock OIDC provider running on ${ISSUER}`);
@@ -1,11 +1,11 @@
-import { boolean, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { boolean, index, integer, pgTable, text, timestamp, unique, uuid } from "drizzle-orm/pg-core";
 
 
 export const users = pgTable('users', {
     id: uuid('id').primaryKey().defaultRandom(),
     name: text('name').notNull(),
     email: text('email').notNull().unique(),
-    password: text('password').notNull(),
+    password: text('password'), // null for accounts that only sign in with OAuth
     isVerified: boolean('is_verified').notNull().default(false),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -13,9 +13,78 @@ export const users = pgTable('users', {
 
 export const passwordResets = pgTable('password_resets', {
     id: uuid('id').primaryKey().defaultRandom(),
-    userId: uuid('user_id').references(() => users.id),
-    token: text('token').notNull(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: text('token_hash').notNull(), // sha256 of the emailed token; the token itself is never stored
     expiresAt: timestamp('expires_at').notNull(),
     used: boolean('used').notNull().default(false),
     createdAt: timestamp('created_at').notNull().defaultNow(),
-});
\ No newline at end of file
+});
+
+//email verifications table: single-use links sent to confirm a user's address
+export const emailVerifications = pgTable('email_verifications', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: text('token_hash').notNull(), // sha256 of the emailed token; the token itself is never stored
+    expiresAt: timestamp('expires_at').notNull(),
+    used: boolean('used').notNull().default(false),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+    userIdIndex: index('idx_email_verifications_user_id').on(table.userId),
+}));
+
+//sessions table: one row per signed-in device, holding the hash of its current refresh token
+export const sessions = pgTable('sessions', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    refreshTokenHash: text('refresh_token_hash').notNull(),
+    userAgent: text('user_agent'),
+    ipAddress: text('ip_address'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    lastUsedAt: timestamp('last_used_at').notNull().defaultNow(),
+    expiresAt: timestamp('expires_at').notNull(),
+    revokedAt: timestamp('revoked_at'),
+}, (table) => ({
+    userIdIndex: index('idx_sessions_user_id').on(table.userId),
+}));
+
+//user identities table: OAuth accounts linked to a user, any of which can be used to sign in
+export const userIdentities = pgTable('user_identities', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    provider: text('provider').notNull(), // 'google' | 'github'
+    providerUserId: text('provider_user_id').notNull(), // Stable account id at the provider; emails can change
+    email: text('email'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+    providerAccountUnique: unique('user_identities_provider_account_unique').on(table.provider, table.providerUserId),
+    userProviderUnique: unique('user_identities_user_provider_unique').on(table.userId, table.provider),
+}));
+
+//oauth login codes table: single-use codes the app trades for a session after the OAuth redirect
+export const oauthLoginCodes = pgTable('oauth_login_codes', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: text('code_hash').notNull().unique(), // sha256 of the code; the code itself only travels in the redirect
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+//user two factor table: the TOTP secret of each user who started enrolling; enabledAt is set once a code confirms it
+export const userTwoFactor = pgTable('user_two_factor', {
+    userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+    encryptedSecret: text('encrypted_secret').notNull(), // AES-256-GCM with the server master key
+    enabledAt: timestamp('enabled_at'),
+    lastUsedStep: integer('last_used_step'), // Time step of the last accepted code, so a code can't be replayed
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+//recovery codes table: single-use codes for signing in without the authenticator
+export const recoveryCodes = pgTable('recovery_codes', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    codeHash: text('code_hash').notNull(), // sha256 of the normalized code
+    usedAt: timestamp('used_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+    userIdIndex: index('idx_recovery_codes_user_id').on(table.userId),
+}));
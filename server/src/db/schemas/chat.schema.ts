@@ -1,17 +1,28 @@
-import { pgTable, text, timestamp, uuid, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, uuid, jsonb, index, integer, real, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { users } from "./auth.schema";
-import { relations } from "drizzle-orm";
+import { personas } from "./persona.schema";
+import { relations, sql } from "drizzle-orm";
+import type { MessageMetadata } from "../../types/chat.types";
 
 //chats table
 export const chats = pgTable('chats', {
     id: uuid('id').primaryKey().defaultRandom(),
     userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
     title: text('title').notNull().default('New Chat'),
+    provider: text('provider'), // LLM provider override, null = deployment default
+    personaId: uuid('persona_id').references(() => personas.id, { onDelete: 'set null' }), // null = default Borz persona
+    activeMessageId: uuid('active_message_id').references((): AnyPgColumn => messages.id, { onDelete: 'set null' }), // Leaf of the branch shown to the user
+    folder: text('folder'), // User-chosen group, null = none
+    pinnedAt: timestamp('pinned_at'), // null = not pinned
+    archivedAt: timestamp('archived_at'), // null = not archived; archived chats are left out of the list by default
+    messageCount: integer('message_count').notNull().default(0), // All variants included; kept up to date as messages are added
+    lastMessagePreview: text('last_message_preview'), // Start of the newest message, for the chat list
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => ({
     userIdIndex: index('idx_chats_user_id').on(table.userId),
     updatedAtIndex: index('idx_chats_updated_at').on(table.updatedAt),
+    userIdUpdatedAtIndex: index('idx_chats_user_id_updated_at').on(table.userId, table.updatedAt, table.id), // Chat list pages
 }));
 
 
@@ -19,27 +30,71 @@ export const chats = pgTable('chats', {
 export const messages = pgTable('messages', {
     id: uuid('id').primaryKey().defaultRandom(),
     chatId: uuid('chat_id').notNull().references(() => chats.id, { onDelete: 'cascade' }),
+    parentId: uuid('parent_id').references((): AnyPgColumn => messages.id, { onDelete: 'cascade' }), // Previous message; siblings are alternative variants
     content: text('content').notNull(),
     role: text('role').notNull(), // 'user' or 'assistant'
     createdAt: timestamp('created_at').notNull().defaultNow(),
-    metadata: jsonb('metadata'), // For attachments, etc.
+    metadata: jsonb('metadata').$type<MessageMetadata>(), // For attachments, etc.
 }, (table) => ({
     chatIdIdx: index('idx_messages_chat_id').on(table.chatId),
+    parentIdIdx: index('idx_messages_parent_id').on(table.parentId),
+    contentSearchIdx: index('idx_messages_content_search').using('gin', sql`to_tsvector('english', ${table.content})`), // Full-text search
 }));
 
 
+//message_embeddings table: vectors for semantic search, written in the background after each exchange
+export const messageEmbeddings = pgTable('message_embeddings', {
+    messageId: uuid('message_id').primaryKey().references(() => messages.id, { onDelete: 'cascade' }),
+    chatId: uuid('chat_id').notNull().references(() => chats.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    embedding: real('embedding').array().notNull(), // Plain float array, similarity is computed in the service
+    embeddingModel: text('embedding_model').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+    userIdModelCreatedAtIdx: index('idx_message_embeddings_user_id_model_created_at').on(table.userId, table.embeddingModel, table.createdAt), // Newest candidates first
+}));
+
+
+//chat_summaries table: rolling summary of messages that no longer fit in the context window
+export const chatSummaries = pgTable('chat_summaries', {
+    chatId: uuid('chat_id').primaryKey().references(() => chats.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(),
+    summarizedThrough: timestamp('summarized_through').notNull(), // createdAt of the last message folded in
+    messageCount: integer('message_count').notNull().default(0),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+
 //relations for chats table
 export const chatsRelations = relations(chats, ({ one, many }) => ({
     user: one(users, {
         fields: [chats.userId],
         references: [users.id],
     }),
+    persona: one(personas, {
+        fields: [chats.personaId],
+        references: [personas.id],
+    }),
     messages: many(messages),
+    summary: one(chatSummaries),
 }));
 
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
     chat: one(chats, {
         fields: [messages.chatId],
         references: [chats.id],
     }),
+    parent: one(messages, {
+        fields: [messages.parentId],
+        references: [messages.id],
+        relationName: 'variants',
+    }),
+    children: many(messages, { relationName: 'variants' }),
+}));
+
+export const chatSummariesRelations = relations(chatSummaries, ({ one }) => ({
+    chat: one(chats, {
+        fields: [chatSummaries.chatId],
+        references: [chats.id],
+    }),
 }));
\ No newline at end of file
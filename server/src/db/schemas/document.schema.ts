@@ -0,0 +1,29 @@
+import { pgTable, text, timestamp, uuid, integer, real, index } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { chats } from "./chat.schema";
+
+//document chunks table (retrieval-augmented generation over uploaded files)
+export const documentChunks = pgTable('document_chunks', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    chatId: uuid('chat_id').notNull().references(() => chats.id, { onDelete: 'cascade' }),
+    attachmentId: uuid('attachment_id').notNull(),
+    fileName: text('file_name').notNull(),
+    chunkIndex: integer('chunk_index').notNull(),
+    page: integer('page'),
+    content: text('content').notNull(),
+    embedding: real('embedding').array().notNull(), // Plain float array, similarity is computed in the service
+    embeddingModel: text('embedding_model').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+    chatIdIdx: index('idx_document_chunks_chat_id').on(table.chatId),
+    attachmentIdIdx: index('idx_document_chunks_attachment_id').on(table.attachmentId),
+}));
+
+
+//relations for document chunks table
+export const documentChunksRelations = relations(documentChunks, ({ one }) => ({
+    chat: one(chats, {
+        fields: [documentChunks.chatId],
+        references: [chats.id],
+    }),
+}));
@@ -1,2 +1,6 @@
 export * from './auth.schema';
-export * from './chat.schema';
\ No newline at end of file
+export * from './chat.schema';
+export * from './document.schema';
+export * from './persona.schema';
+export * from './settings.schema';
+export * from './usage.schema';
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { pgTable, text, timestamp, uuid, real, index } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./auth.schema";
+
+//personas table: user-defined system prompts and generation settings, assignable per chat
+export const personas = pgTable('personas', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    systemPrompt: text('system_prompt').notNull(),
+    temperature: real('temperature'), // null = provider default
+    model: text('model'), // Model name for the chat's provider, null = provider default
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+    userIdIndex: index('idx_personas_user_id').on(table.userId),
+}));
+
+
+//relations for personas table
+export const personasRelations = relations(personas, ({ one }) => ({
+    user: one(users, {
+        fields: [personas.userId],
+        references: [users.id],
+    }),
+}));
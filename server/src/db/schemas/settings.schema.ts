@@ -0,0 +1,43 @@
+import { pgTable, text, timestamp, uuid, real, integer, jsonb, primaryKey } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./auth.schema";
+import type { SafetyThresholds } from "../../services/llm/types";
+
+//user_settings table: model parameters applied to every generation, null = provider default
+export const userSettings = pgTable('user_settings', {
+    userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+    model: text('model'),
+    temperature: real('temperature'),
+    maxOutputTokens: integer('max_output_tokens'),
+    safetyThresholds: jsonb('safety_thresholds').$type<SafetyThresholds>(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+
+//user_api_keys table: provider keys users bring to bill generations to their own account
+export const userApiKeys = pgTable('user_api_keys', {
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    provider: text('provider').notNull(), // 'gemini' | 'openai'
+    encryptedKey: text('encrypted_key').notNull(), // AES-256-GCM with the server master key
+    keyHint: text('key_hint').notNull(), // Last characters, shown so users can tell keys apart
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+    pk: primaryKey({ columns: [table.userId, table.provider] }),
+}));
+
+
+//relations for user settings table
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+    user: one(users, {
+        fields: [userSettings.userId],
+        references: [users.id],
+    }),
+}));
+
+export const userApiKeysRelations = relations(userApiKeys, ({ one }) => ({
+    user: one(users, {
+        fields: [userApiKeys.userId],
+        references: [users.id],
+    }),
+}));
@@ -0,0 +1,32 @@
+import { pgTable, text, timestamp, uuid, integer, boolean, index } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./auth.schema";
+import { chats } from "./chat.schema";
+
+//usage_events table: token counts of every generation, summed for quotas and the usage screen
+export const usageEvents = pgTable('usage_events', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    chatId: uuid('chat_id').references(() => chats.id, { onDelete: 'set null' }), // Kept after the chat is deleted so totals stay accurate
+    provider: text('provider').notNull(),
+    model: text('model'), // null = provider default
+    promptTokens: integer('prompt_tokens').notNull(),
+    completionTokens: integer('completion_tokens').notNull(),
+    estimated: boolean('estimated').notNull().default(false), // The provider reported no counts, so they were estimated from the text
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+    userIdCreatedAtIdx: index('idx_usage_events_user_id_created_at').on(table.userId, table.createdAt),
+}));
+
+
+//relations for usage events table
+export const usageEventsRelations = relations(usageEvents, ({ one }) => ({
+    user: one(users, {
+        fields: [usageEvents.userId],
+        references: [users.id],
+    }),
+    chat: one(chats, {
+        fields: [usageEvents.chatId],
+        references: [chats.id],
+    }),
+}));
@@ -6,6 +6,11 @@ import { logger } from 'hono/logger';
 import { createAdaptorServer } from '@hono/node-server';
 import authRoutes from './routes/auth.routes';
 import chatRoutes from './routes/chat.routes';
+import attachmentRoutes from './routes/attachment.routes';
+import personaRoutes from './routes/persona.routes';
+import settingsRoutes from './routes/settings.routes';
+import usageRoutes from './routes/usage.routes';
+import searchRoutes from './routes/search.routes';
 import { SocketService } from './services/socket.service';
 
 const app = new Hono();
@@ -29,7 +34,7 @@ app.use('*', cors({
   origin: allowedOrigins,
   credentials: true,
   allowHeaders: ['Content-Type', 'Authorization'],
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
 }));
 
 // Health check
@@ -52,6 +57,11 @@ app.get('/health', (c) => {
 // Routes
 app.route('/auth', authRoutes);
 app.route('/api/chats', chatRoutes);
+app.route('/api/attachments', attachmentRoutes);
+app.route('/api/personas', personaRoutes);
+app.route('/api/settings', settingsRoutes);
+app.route('/api/usage', usageRoutes);
+app.route('/api/search', searchRoutes);
 
 // 404 handler
 app.notFound((c) => {
@@ -91,18 +101,61 @@ console.log(`📡 REST API + WebSocket endpoints:`);
 console.log(`\n  Auth:`);
 console.log(`   POST   /auth/signup`);
 console.log(`   POST   /auth/login`);
+console.log(`   POST   /auth/refresh`);
+console.log(`   POST   /auth/logout (protected)`);
+console.log(`   GET    /auth/sessions (protected)`);
+console.log(`   DELETE /auth/sessions (protected)`);
+console.log(`   DELETE /auth/sessions/:sessionId (protected)`);
 console.log(`   POST   /auth/forgot-password`);
 console.log(`   POST   /auth/reset-password`);
+console.log(`   POST   /auth/change-password (protected)`);
+console.log(`   POST   /auth/password-check`);
+console.log(`   POST   /auth/verify-email`);
+console.log(`   POST   /auth/resend-verification (protected)`);
+console.log(`   GET    /auth/oauth/providers`);
+console.log(`   POST   /auth/oauth/:provider/start`);
+console.log(`   POST   /auth/oauth/:provider/link (protected)`);
+console.log(`   GET    /auth/oauth/:provider/callback`);
+console.log(`   POST   /auth/oauth/exchange`);
+console.log(`   GET    /auth/identities (protected)`);
+console.log(`   DELETE /auth/identities/:provider (protected)`);
+console.log(`   POST   /auth/2fa/verify`);
+console.log(`   GET    /auth/2fa (protected)`);
+console.log(`   POST   /auth/2fa/setup (protected)`);
+console.log(`   POST   /auth/2fa/enable (protected)`);
+console.log(`   POST   /auth/2fa/disable (protected)`);
+console.log(`   POST   /auth/2fa/recovery-codes (protected)`);
 console.log(`   GET    /auth/me (protected)`);
+console.log(`   PATCH  /auth/me (protected)`);
+console.log(`   DELETE /auth/me (protected)`);
 console.log(`   GET    /auth/check`);
 console.log(`\n  Chat (REST):`);
-console.log(`   GET    /api/chats (protected)`);
+console.log(`   GET    /api/chats?cursor=&pinned=&archived=&folder=&from=&to= (protected)`);
+console.log(`   GET    /api/chats/folders (protected)`);
 console.log(`   POST   /api/chats (protected)`);
-console.log(`   GET    /api/chats/:chatId (protected)`);
+console.log(`   GET    /api/chats/search?q= (protected)`);
+console.log(`   GET    /api/search/semantic?q= (protected)`);
+console.log(`   GET    /api/chats/:chatId?before=&limit= (protected)`);
 console.log(`   POST   /api/chats/:chatId/messages (protected, streaming - deprecated)`);
 console.log(`   PATCH  /api/chats/:chatId (protected)`);
+console.log(`   POST   /api/chats/:chatId/messages/:messageId/activate (protected)`);
 console.log(`   DELETE /api/chats/:chatId (protected)`);
 console.log(`   DELETE /api/chats/:chatId/messages (protected)`);
+console.log(`   GET    /api/attachments/:attachmentId?token= (signed)`);
+console.log(`\n  Personas & Settings:`);
+console.log(`   GET    /api/personas (protected)`);
+console.log(`   POST   /api/personas (protected)`);
+console.log(`   PATCH  /api/personas/:personaId (protected)`);
+console.log(`   DELETE /api/personas/:personaId (protected)`);
+console.log(`   GET    /api/settings (protected)`);
+console.log(`   PUT    /api/settings (protected)`);
+console.log(`   GET    /api/settings/api-keys (protected)`);
+console.log(`   PUT    /api/settings/api-keys/:provider (protected)`);
+console.log(`   DELETE /api/settings/api-keys/:provider (protected)`);
+console.log(`   GET    /api/usage (protected)`);
 console.log(`\n  Chat (WebSocket):`);
 console.log(`   EVENT  send-message (chatId, content)`);
+console.log(`   EVENT  regenerate-response (chatId, messageId)`);
+console.log(`   EVENT  edit-message (chatId, messageId, content)`);
+console.log(`   EVENT  cancel-generation (chatId)`);
 console.log(`   EVENT  typing (chatId, isTyping)`);
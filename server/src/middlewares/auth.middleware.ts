@@ -1,5 +1,7 @@
 import { Context, Next } from 'hono';
 import { verifyToken } from '../utils/auth/jwt';
+import { SessionService } from '../services/session.service';
+import { AuthService } from '../services/auth.service';
 
 /**
  * Authentication middleware for Hono routes
@@ -13,14 +15,22 @@ export const authMiddleware = async (c: Context, next: Next) => {
 
   const token = authHeader.substring(7);
 
+  let decoded;
   try {
-    const decoded = verifyToken(token);
-    c.set('userId', decoded.userId);
-    c.set('email', decoded.email);
-    await next();
+    decoded = verifyToken(token);
   } catch (error) {
     return c.json({ error: 'Invalid or expired token' }, 401);
   }
+
+  // Access tokens stop working as soon as their session is revoked (e.g. logout)
+  if (!(await SessionService.isActive(decoded.sessionId))) {
+    return c.json({ error: 'Session has ended' }, 401);
+  }
+
+  c.set('userId', decoded.userId);
+  c.set('email', decoded.email);
+  c.set('sessionId', decoded.sessionId);
+  await next();
 };
 
 /**
@@ -33,8 +43,11 @@ export const optionalAuthMiddleware = async (c: Context, next: Next) => {
     const token = authHeader.substring(7);
     try {
       const decoded = verifyToken(token);
-      c.set('userId', decoded.userId);
-      c.set('email', decoded.email);
+      if (await SessionService.isActive(decoded.sessionId)) {
+        c.set('userId', decoded.userId);
+        c.set('email', decoded.email);
+        c.set('sessionId', decoded.sessionId);
+      }
     } catch (error) {
       // Token is invalid, but we don't throw
     }
@@ -43,3 +56,15 @@ export const optionalAuthMiddleware = async (c: Context, next: Next) => {
   await next();
 };
 
+
+/**
+ * Verified email middleware - when REQUIRE_EMAIL_VERIFICATION is on, blocks accounts
+ * that haven't confirmed their address. Runs after authMiddleware.
+ */
+export const verifiedEmailMiddleware = async (c: Context, next: Next) => {
+  if (await AuthService.isVerificationPending(c.get('userId'))) {
+    return c.json({ error: 'Please verify your email address to continue' }, 403);
+  }
+
+  await next();
+};
@@ -0,0 +1,31 @@
+import { Context, Next } from 'hono';
+import { UsageService, quotaMessage } from '../services/usage.service';
+
+/**
+ * Rejects generation requests once the user has used up a token quota.
+ * Must run after authMiddleware.
+ */
+export const quotaMiddleware = async (c: Context, next: Next) => {
+  const quota = await UsageService.checkQuota(c.get('userId')).catch(error => {
+    console.error('❌ Failed to check usage quota:', error);
+    return null;
+  });
+
+  // The request is refused rather than let through unchecked
+  if (!quota) {
+    return c.json({ error: 'Failed to check usage quota. Please try again.' }, 500);
+  }
+
+  if (!quota.allowed) {
+    const retryAfter = Math.ceil((quota.resetsAt.getTime() - Date.now()) / 1000);
+    c.header('Retry-After', String(retryAfter));
+    return c.json({
+      error: quotaMessage(quota.period, quota.resetsAt),
+      code: 'QUOTA_EXCEEDED',
+      period: quota.period,
+      resetsAt: quota.resetsAt,
+    }, 429);
+  }
+
+  await next();
+};
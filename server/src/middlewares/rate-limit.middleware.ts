@@ -0,0 +1,34 @@
+import { Context, Next } from 'hono';
+import { rateLimitMessage, type RateLimiter } from '../services/rate-limit';
+import { getClientIp } from '../utils/network';
+
+/**
+ * Rate limit middleware for Hono routes.
+ * Buckets are per client IP, or per user for routes behind authMiddleware.
+ */
+export const rateLimit = (limiter: RateLimiter, by: 'ip' | 'user' = 'ip') => {
+  return async (c: Context, next: Next) => {
+    const key = by === 'user' ? c.get('userId') : getClientIp(c) ?? 'unknown';
+    const result = await limiter.consume(key);
+
+    c.header('RateLimit-Limit', String(result.limit));
+    c.header('RateLimit-Remaining', String(result.remaining));
+
+    if (!result.allowed) {
+      return rateLimitExceeded(c, result.retryAfterSeconds);
+    }
+
+    await next();
+  };
+};
+
+/**
+ * 429 response with Retry-After, for this middleware and for routes catching a RateLimitError
+ */
+export const rateLimitExceeded = (c: Context, retryAfterSeconds: number) => {
+  c.header('Retry-After', String(retryAfterSeconds));
+  return c.json({
+    error: rateLimitMessage(retryAfterSeconds),
+    retryAfter: retryAfterSeconds,
+  }, 429);
+};
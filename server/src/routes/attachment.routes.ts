@@ -0,0 +1,36 @@
+import { Hono } from 'hono';
+import { getBlobStore } from '../services/storage';
+import { verifyAttachmentToken } from '../utils/auth/jwt';
+
+const attachmentRoutes = new Hono();
+
+/**
+ * GET /api/attachments/:attachmentId?token=
+ * Download an attachment using the signed token from its message metadata
+ */
+attachmentRoutes.get('/:attachmentId', async (c) => {
+  try {
+    const attachmentId = c.req.param('attachmentId');
+    const decoded = verifyAttachmentToken(c.req.query('token') || '');
+
+    if (!decoded || !decoded.key.endsWith(`/${attachmentId}`)) {
+      return c.json({ error: 'Invalid or expired attachment token' }, 401);
+    }
+
+    const blob = await getBlobStore().get(decoded.key);
+    if (!blob) {
+      return c.json({ error: 'Attachment not found' }, 404);
+    }
+
+    return c.body(new Uint8Array(blob.data), 200, {
+      'Content-Type': blob.contentType,
+      'Cache-Control': 'private, max-age=86400',
+    });
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch attachment' 
+    }, 500);
+  }
+});
+
+export default attachmentRoutes;
@@ -1,26 +1,54 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { AuthService } from '../services/auth.service';
+import { SessionService, type SessionClient } from '../services/session.service';
+import { OAuthService } from '../services/oauth.service';
+import { TwoFactorService } from '../services/two-factor.service';
 import { 
   signupSchema, 
   loginSchema, 
   forgotPasswordSchema, 
-  resetPasswordSchema 
+  resetPasswordSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  changePasswordSchema,
+  passwordCheckSchema,
+  updateProfileSchema,
+  deleteAccountSchema,
+  oauthStartSchema,
+  oauthExchangeSchema,
+  twoFactorCodeSchema,
+  twoFactorVerifySchema
 } from '../utils/auth/validation';
+import { checkPasswordPolicy } from '../utils/auth/password-policy';
 import { authMiddleware } from '../middlewares/auth.middleware';
+import { rateLimit, rateLimitExceeded } from '../middlewares/rate-limit.middleware';
+import { rateLimiters, RateLimitError } from '../services/rate-limit';
+import { getClientIp } from '../utils/network';
 import { z } from 'zod';
 import type { AuthContext } from '../types/hono.types.ts';
 
 const authRoutes = new Hono();
 
+// Device details recorded on a session so users can tell their sessions apart
+const getSessionClient = (c: Context): SessionClient => ({
+  userAgent: c.req.header('User-Agent')?.slice(0, 512),
+  ipAddress: getClientIp(c),
+});
+
+// Where providers send the browser back to; PUBLIC_URL is needed behind proxies that rewrite the host
+const getOAuthCallbackUrl = (c: Context, provider: string): string =>
+  `${process.env.PUBLIC_URL || new URL(c.req.url).origin}/auth/oauth/${provider}/callback`;
+
 /**
  * POST /auth/signup
  * Register a new user
  */
-authRoutes.post('/signup', async (c) => {
+authRoutes.post('/signup', rateLimit(rateLimiters.signup), async (c) => {
   try {
     const body = await c.req.json();
     const validatedData = signupSchema.parse(body);
-    const result = await AuthService.signup(validatedData);
+    const result = await AuthService.signup(validatedData, getSessionClient(c));
     
     return c.json(result, 201);
   } catch (error) {
@@ -41,11 +69,38 @@ authRoutes.post('/signup', async (c) => {
  * POST /auth/login
  * Login user
  */
-authRoutes.post('/login', async (c) => {
+authRoutes.post('/login', rateLimit(rateLimiters.login), async (c) => {
   try {
     const body = await c.req.json();
     const validatedData = loginSchema.parse(body);
-    const result = await AuthService.login(validatedData);
+    const result = await AuthService.login(validatedData, getSessionClient(c));
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    if (error instanceof RateLimitError) {
+      return rateLimitExceeded(c, error.retryAfterSeconds);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Failed to login';
+    return c.json({ error: message }, 401);
+  }
+});
+
+/**
+ * POST /auth/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ */
+authRoutes.post('/refresh', rateLimit(rateLimiters.refresh), async (c) => {
+  try {
+    const body = await c.req.json();
+    const validatedData = refreshTokenSchema.parse(body);
+    const result = await SessionService.refresh(validatedData.refreshToken, getSessionClient(c));
     
     return c.json(result, 200);
   } catch (error) {
@@ -57,16 +112,87 @@ authRoutes.post('/login', async (c) => {
     }
     
     return c.json({ 
-      error: error instanceof Error ? error.message : 'Failed to login' 
+      error: error instanceof Error ? error.message : 'Failed to refresh session' 
     }, 401);
   }
 });
 
+/**
+ * POST /auth/logout
+ * End the current session (protected route)
+ */
+authRoutes.post('/logout', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const sessionId = c.get('sessionId');
+    const result = await SessionService.revoke(sessionId, userId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to logout' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /auth/sessions
+ * List the user's active sessions (protected route)
+ */
+authRoutes.get('/sessions', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const sessionId = c.get('sessionId');
+    const result = await SessionService.getUserSessions(userId, sessionId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to get sessions' 
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /auth/sessions
+ * End every session except the current one (protected route)
+ */
+authRoutes.delete('/sessions', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const sessionId = c.get('sessionId');
+    const result = await SessionService.revokeAllForUser(userId, sessionId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to revoke sessions' 
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /auth/sessions/:sessionId
+ * End one of the user's sessions (protected route)
+ */
+authRoutes.delete('/sessions/:sessionId', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const sessionId = c.req.param('sessionId');
+    const result = await SessionService.revoke(sessionId, userId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to revoke session';
+    return c.json({ error: message }, message === 'Session not found' ? 404 : 500);
+  }
+});
+
 /**
  * POST /auth/forgot-password
  * Request password reset
  */
-authRoutes.post('/forgot-password', async (c) => {
+authRoutes.post('/forgot-password', rateLimit(rateLimiters.passwordReset), async (c) => {
   try {
     const body = await c.req.json();
     const validatedData = forgotPasswordSchema.parse(body);
@@ -80,10 +206,12 @@ authRoutes.post('/forgot-password', async (c) => {
         details: error.issues 
       }, 400);
     }
+    if (error instanceof RateLimitError) {
+      return rateLimitExceeded(c, error.retryAfterSeconds);
+    }
     
-    return c.json({ 
-      error: error instanceof Error ? error.message : 'Failed to request password reset' 
-    }, 400);
+    const message = error instanceof Error ? error.message : 'Failed to request password reset';
+    return c.json({ error: message }, 400);
   }
 });
 
@@ -91,7 +219,7 @@ authRoutes.post('/forgot-password', async (c) => {
  * POST /auth/reset-password
  * Reset password with token
  */
-authRoutes.post('/reset-password', async (c) => {
+authRoutes.post('/reset-password', rateLimit(rateLimiters.passwordReset), async (c) => {
   try {
     const body = await c.req.json();
     const validatedData = resetPasswordSchema.parse(body);
@@ -112,6 +240,385 @@ authRoutes.post('/reset-password', async (c) => {
   }
 });
 
+/**
+ * POST /auth/change-password
+ * Change password with the current one; ends the user's other sessions (protected route)
+ */
+authRoutes.post('/change-password', authMiddleware, rateLimit(rateLimiters.passwordAttempt, 'user'), async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const sessionId = c.get('sessionId');
+    const body = await c.req.json();
+    const validatedData = changePasswordSchema.parse(body);
+    const result = await AuthService.changePassword(userId, sessionId, validatedData);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Failed to change password';
+    return c.json({ error: message }, message === 'User not found' ? 404 : 400);
+  }
+});
+
+/**
+ * POST /auth/password-check
+ * Check a candidate password against each rule of the password policy
+ */
+authRoutes.post('/password-check', rateLimit(rateLimiters.passwordCheck), async (c) => {
+  try {
+    const body = await c.req.json();
+    const validatedData = passwordCheckSchema.parse(body);
+    
+    return c.json(checkPasswordPolicy(validatedData.password), 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to check password' 
+    }, 400);
+  }
+});
+
+/**
+ * POST /auth/verify-email
+ * Confirm the user's email address with the token from the verification email
+ */
+authRoutes.post('/verify-email', async (c) => {
+  try {
+    const body = await c.req.json();
+    const validatedData = verifyEmailSchema.parse(body);
+    const result = await AuthService.verifyEmail(validatedData);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to verify email' 
+    }, 400);
+  }
+});
+
+/**
+ * POST /auth/resend-verification
+ * Send a new verification email (protected route)
+ */
+authRoutes.post('/resend-verification', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await AuthService.resendVerification(userId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to send verification email';
+    const status = message.startsWith('Please wait') ? 429 : message === 'User not found' ? 404 : 400;
+    return c.json({ error: message }, status);
+  }
+});
+
+/**
+ * GET /auth/oauth/providers
+ * Sign-in providers configured on this server
+ */
+authRoutes.get('/oauth/providers', (c) => {
+  return c.json(OAuthService.getProviders(), 200);
+});
+
+/**
+ * POST /auth/oauth/:provider/start
+ * Get the provider's sign-in URL; the result is sent to `redirectUri` in the app
+ */
+authRoutes.post('/oauth/:provider/start', rateLimit(rateLimiters.login), async (c) => {
+  try {
+    const provider = c.req.param('provider');
+    const body = await c.req.json();
+    const { redirectUri } = oauthStartSchema.parse(body);
+    const result = await OAuthService.getAuthorizationUrl(provider, {
+      redirectUri,
+      callbackUrl: getOAuthCallbackUrl(c, provider),
+    });
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Failed to start sign-in';
+    return c.json({ error: message }, message.startsWith('Unknown sign-in provider') ? 404 : 400);
+  }
+});
+
+/**
+ * POST /auth/oauth/:provider/link
+ * Get the provider's sign-in URL to connect it to the current account (protected route)
+ */
+authRoutes.post('/oauth/:provider/link', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const provider = c.req.param('provider');
+    const body = await c.req.json();
+    const { redirectUri } = oauthStartSchema.parse(body);
+    const result = await OAuthService.getAuthorizationUrl(provider, {
+      redirectUri,
+      callbackUrl: getOAuthCallbackUrl(c, provider),
+      linkUserId: userId,
+    });
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Failed to connect account';
+    return c.json({ error: message }, message.startsWith('Unknown sign-in provider') ? 404 : 400);
+  }
+});
+
+/**
+ * GET /auth/oauth/:provider/callback
+ * Provider redirect target; forwards the outcome to the app's deep link
+ */
+authRoutes.get('/oauth/:provider/callback', async (c) => {
+  try {
+    const provider = c.req.param('provider');
+    const location = await OAuthService.handleCallback(provider, {
+      code: c.req.query('code'),
+      state: c.req.query('state'),
+      error: c.req.query('error'),
+      callbackUrl: getOAuthCallbackUrl(c, provider),
+    });
+    
+    return c.redirect(location, 302);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to complete sign-in' 
+    }, 400);
+  }
+});
+
+/**
+ * POST /auth/oauth/exchange
+ * Trade the single-use code from the OAuth redirect for a session
+ */
+authRoutes.post('/oauth/exchange', rateLimit(rateLimiters.login), async (c) => {
+  try {
+    const body = await c.req.json();
+    const { code } = oauthExchangeSchema.parse(body);
+    const result = await OAuthService.exchangeCode(code, getSessionClient(c));
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to sign in' 
+    }, 401);
+  }
+});
+
+/**
+ * GET /auth/identities
+ * List the accounts connected for signing in (protected route)
+ */
+authRoutes.get('/identities', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await OAuthService.getIdentities(userId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch connected accounts' 
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /auth/identities/:provider
+ * Disconnect a sign-in provider (protected route)
+ */
+authRoutes.delete('/identities/:provider', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const provider = c.req.param('provider');
+    const result = await OAuthService.unlink(userId, provider);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to disconnect account';
+    const status = message === 'Account not connected' || message === 'User not found' ? 404 : 400;
+    return c.json({ error: message }, status);
+  }
+});
+
+/**
+ * POST /auth/2fa/verify
+ * Second sign-in step: trade the challenge token and a code for a session
+ */
+authRoutes.post('/2fa/verify', rateLimit(rateLimiters.login), async (c) => {
+  try {
+    const body = await c.req.json();
+    const { challengeToken, code } = twoFactorVerifySchema.parse(body);
+    const result = await TwoFactorService.verifyLogin(challengeToken, code, getSessionClient(c));
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    if (error instanceof RateLimitError) {
+      return rateLimitExceeded(c, error.retryAfterSeconds);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Failed to verify code';
+    return c.json({ error: message }, 401);
+  }
+});
+
+/**
+ * GET /auth/2fa
+ * Get two-factor status (protected route)
+ */
+authRoutes.get('/2fa', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await TwoFactorService.getStatus(userId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch two-factor status' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /auth/2fa/setup
+ * Start two-factor enrollment with a new secret (protected route)
+ */
+authRoutes.post('/2fa/setup', authMiddleware, async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await TwoFactorService.setup(userId);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to start two-factor setup' 
+    }, 400);
+  }
+});
+
+/**
+ * POST /auth/2fa/enable
+ * Confirm enrollment with a code and receive recovery codes (protected route)
+ */
+authRoutes.post('/2fa/enable', authMiddleware, rateLimit(rateLimiters.passwordAttempt, 'user'), async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const body = await c.req.json();
+    const { code } = twoFactorCodeSchema.parse(body);
+    const result = await TwoFactorService.enable(userId, code);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to enable two-factor authentication' 
+    }, 400);
+  }
+});
+
+/**
+ * POST /auth/2fa/disable
+ * Turn two-factor authentication off with a current code (protected route)
+ */
+authRoutes.post('/2fa/disable', authMiddleware, rateLimit(rateLimiters.passwordAttempt, 'user'), async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const body = await c.req.json();
+    const { code } = twoFactorCodeSchema.parse(body);
+    const result = await TwoFactorService.disable(userId, code);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to disable two-factor authentication' 
+    }, 400);
+  }
+});
+
+/**
+ * POST /auth/2fa/recovery-codes
+ * Replace the recovery codes with a new set (protected route)
+ */
+authRoutes.post('/2fa/recovery-codes', authMiddleware, rateLimit(rateLimiters.passwordAttempt, 'user'), async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const body = await c.req.json();
+    const { code } = twoFactorCodeSchema.parse(body);
+    const result = await TwoFactorService.regenerateRecoveryCodes(userId, code);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to regenerate recovery codes' 
+    }, 400);
+  }
+});
+
 /**
  * GET /auth/me
  * Get current user (protected route)
@@ -119,9 +626,9 @@ authRoutes.post('/reset-password', async (c) => {
 authRoutes.get('/me', authMiddleware, async (c: AuthContext) => {
   try {
     const userId = c.get('userId');
-    const result = await AuthService.getUserById(userId);
+    const user = await AuthService.getUserById(userId);
     
-    return c.json(result, 200);
+    return c.json({ user }, 200);
   } catch (error) {
     return c.json({ 
       error: error instanceof Error ? error.message : 'Failed to get user' 
@@ -129,6 +636,57 @@ authRoutes.get('/me', authMiddleware, async (c: AuthContext) => {
   }
 });
 
+/**
+ * PATCH /auth/me
+ * Update the current user's name or email (protected route)
+ */
+authRoutes.patch('/me', authMiddleware, rateLimit(rateLimiters.passwordAttempt, 'user'), async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const body = await c.req.json();
+    const validatedData = updateProfileSchema.parse(body);
+    const result = await AuthService.updateProfile(userId, validatedData);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Failed to update profile';
+    const status = message === 'User not found' ? 404 : message === 'Email already registered' ? 409 : 400;
+    return c.json({ error: message }, status);
+  }
+});
+
+/**
+ * DELETE /auth/me
+ * Permanently delete the current user's account and data (protected route)
+ */
+authRoutes.delete('/me', authMiddleware, rateLimit(rateLimiters.passwordAttempt, 'user'), async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const body = await c.req.json();
+    const validatedData = deleteAccountSchema.parse(body);
+    const result = await AuthService.deleteAccount(userId, validatedData);
+    
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ 
+        error: 'Validation failed', 
+        details: error.issues 
+      }, 400);
+    }
+    
+    const message = error instanceof Error ? error.message : 'Failed to delete account';
+    return c.json({ error: message }, message === 'User not found' ? 404 : 400);
+  }
+});
+
 /**
  * GET /auth/check
  * Check if user is authenticated
@@ -148,6 +706,9 @@ authRoutes.get('/check', async (c) => {
     const { verifyToken } = await import('../utils/auth/jwt');
     const token = authHeader.substring(7);
     const decoded = verifyToken(token);
+    if (!(await SessionService.isActive(decoded.sessionId))) {
+      throw new Error('Session has ended');
+    }
     
     return c.json({
       isAuthenticated: true,
@@ -1,8 +1,18 @@
 import { Hono } from 'hono';
 import { stream } from 'hono/streaming';
-import { authMiddleware } from '../middlewares/auth.middleware';
+import { authMiddleware, verifiedEmailMiddleware } from '../middlewares/auth.middleware';
+import { rateLimit } from '../middlewares/rate-limit.middleware';
+import { quotaMiddleware } from '../middlewares/quota.middleware';
+import { rateLimiters } from '../services/rate-limit';
 import { ChatService } from '../services/chat.service';
-import GeminiService from '../services/gemini.service';
+import { AttachmentService } from '../services/attachment.service';
+import { SummaryService } from '../services/summary.service';
+import { SettingsService } from '../services/settings.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { UsageService } from '../services/usage.service';
+import { SearchService } from '../services/search.service';
+import { LLM_PROVIDER_NAMES } from '../services/llm';
+import { buildContextWindow, estimateTokens } from '../utils/context';
 import { z } from 'zod';
 import type { AuthContext } from '../types/hono.types';
 import { db } from '../db';
@@ -11,21 +21,56 @@ import { and, eq } from 'drizzle-orm';
 
 const chatRoutes = new Hono();
 
-// All routes require authentication
-chatRoutes.use('*', authMiddleware);
+// All routes require authentication (and a verified email, if the deployment requires one)
+chatRoutes.use('*', authMiddleware, verifiedEmailMiddleware);
+
+// Boolean query parameters arrive as 'true' / 'false'
+const queryBoolean = z.enum(['true', 'false']).transform(value => value === 'true');
 
 /**
- * GET /api/chats
- * Get all chats for authenticated user
+ * GET /api/chats?cursor=&limit=&pinned=&archived=&folder=&from=&to=
+ * Get a page of the authenticated user's chats, most recently active first
  */
 chatRoutes.get('/', async (c: AuthContext) => {
   try {
     const userId = c.get('userId');
-    const result = await ChatService.getUserChats(userId);
+
+    const listSchema = z.object({
+      cursor: z.string().max(200).optional(),
+      limit: z.coerce.number().int().min(1).max(100).optional(),
+      pinned: queryBoolean.optional(),
+      archived: queryBoolean.optional(),
+      folder: z.string().trim().min(1).max(50).optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    });
+
+    const { cursor, limit, ...filters } = listSchema.parse(c.req.query());
+
+    const result = await ChatService.getUserChats(userId, { cursor, limit, filters });
     return c.json(result, 200);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
     return c.json({ 
       error: error instanceof Error ? error.message : 'Failed to fetch chats' 
+    }, error instanceof Error && error.message === 'Invalid cursor' ? 400 : 500);
+  }
+});
+
+/**
+ * GET /api/chats/folders
+ * Get the folder names the user's chats are sorted into
+ */
+chatRoutes.get('/folders', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await ChatService.getFolders(userId);
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch folders' 
     }, 500);
   }
 });
@@ -50,20 +95,58 @@ chatRoutes.post('/', async (c: AuthContext) => {
 });
 
 /**
- * GET /api/chats/:chatId
- * Get specific chat with messages
+ * GET /api/chats/search?q=
+ * Full-text search across the user's messages, ranked, with highlighted snippets
+ */
+chatRoutes.get('/search', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+
+    const searchSchema = z.object({
+      q: z.string().trim().min(1, 'Search query is required').max(200),
+      limit: z.coerce.number().int().min(1).max(50).optional(),
+    });
+
+    const { q, limit } = searchSchema.parse({ q: c.req.query('q'), limit: c.req.query('limit') });
+
+    const result = await SearchService.searchMessages(userId, q, { limit });
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to search chats' 
+    }, 500);
+  }
+});
+
+/**
+ * GET /api/chats/:chatId?before=&limit=
+ * Get specific chat with its newest messages, or the page older than the `before` message
  */
 chatRoutes.get('/:chatId', async (c: AuthContext) => {
   try {
     const userId = c.get('userId');
     const chatId = c.req.param('chatId');
+
+    const pageSchema = z.object({
+      before: z.string().uuid().optional(),
+      limit: z.coerce.number().int().min(1).max(200).optional(),
+    });
+
+    const page = pageSchema.parse({ before: c.req.query('before'), limit: c.req.query('limit') });
     
-    const result = await ChatService.getChatById(chatId, userId);
+    const result = await ChatService.getChatById(chatId, userId, page);
     return c.json(result, 200);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    const notFound = error instanceof Error && (error.message === 'Chat not found' || error.message === 'Message not found');
     return c.json({ 
       error: error instanceof Error ? error.message : 'Failed to fetch chat' 
-    }, error instanceof Error && error.message === 'Chat not found' ? 404 : 500);
+    }, notFound ? 404 : 500);
   }
 });
 
@@ -71,7 +154,7 @@ chatRoutes.get('/:chatId', async (c: AuthContext) => {
  * POST /api/chats/:chatId/messages
  * Send message and get AI response (with streaming)
  */
-chatRoutes.post('/:chatId/messages', async (c: AuthContext) => {
+chatRoutes.post('/:chatId/messages', rateLimit(rateLimiters.messages, 'user'), quotaMiddleware, async (c: AuthContext) => {
   try {
     const userId = c.get('userId');
     const chatId = c.req.param('chatId');
@@ -93,15 +176,16 @@ chatRoutes.post('/:chatId/messages', async (c: AuthContext) => {
       return c.json({ error: 'Chat not found' }, 404);
     }
 
+    // Get conversation history (before saving the new message), trimmed to the token budget
+    const [fullHistory, summary, generationOptions] = await Promise.all([
+      ChatService.getMessageHistory(chatId),
+      SummaryService.getSummary(chatId),
+      SettingsService.getGenerationOptions(userId, chat.personaId),
+    ]);
+    const contextWindow = buildContextWindow(fullHistory, { prompt: content });
+
     // Save user message
-    const [userMessage] = await db
-      .insert(messages)
-      .values({
-        chatId,
-        content,
-        role: 'user',
-      })
-      .returning();
+    const userMessage = await ChatService.saveUserMessage(chatId, content, chat.activeMessageId);
 
     // Update chat title if it's the first message
     const messageCount = await db
@@ -117,17 +201,23 @@ chatRoutes.post('/:chatId/messages', async (c: AuthContext) => {
         .where(eq(chats.id, chatId));
     }
 
-    // Get conversation history
-    const history = await ChatService.getMessageHistory(chatId);
-
     // Stream AI response
     return stream(c, async (stream) => {
       let fullResponse = '';
       
       try {
-        const generator = GeminiService.generateStreamingResponse(
-          content,
-          history.map(msg => ({ role: msg.role, content: msg.content }))
+        const provider = await ApiKeyService.getProvider(userId, chat.provider);
+        const history = await AttachmentService.toHistory(contextWindow.messages);
+        const systemContext = SummaryService.buildSystemContext(summary, contextWindow.omitted);
+        const generator = UsageService.meter(
+          {
+            userId,
+            chatId,
+            provider,
+            model: generationOptions.model,
+            promptTokens: contextWindow.tokens + estimateTokens(content + (systemContext ?? '')),
+          },
+          onUsage => provider.generateStreamingResponse(content, history, { ...generationOptions, systemContext, onUsage })
         );
 
         for await (const chunk of generator) {
@@ -136,7 +226,11 @@ chatRoutes.post('/:chatId/messages', async (c: AuthContext) => {
         }
 
         // Save the complete response
-        await ChatService.saveAssistantMessage(chatId, fullResponse);
+        await ChatService.saveAssistantMessage(chatId, fullResponse, userMessage.id);
+
+        // Fold older messages into the running summary in the background
+        SummaryService.refresh(chatId, provider, userId)
+          .catch(err => console.error('Failed to refresh chat summary:', err));
         
       } catch (error) {
         console.error('Streaming error:', error);
@@ -156,7 +250,7 @@ chatRoutes.post('/:chatId/messages', async (c: AuthContext) => {
 
 /**
  * PATCH /api/chats/:chatId
- * Update chat (title)
+ * Update chat (title, provider, persona, pinned, archived, folder)
  */
 chatRoutes.patch('/:chatId', async (c: AuthContext) => {
   try {
@@ -165,12 +259,19 @@ chatRoutes.patch('/:chatId', async (c: AuthContext) => {
     const body = await c.req.json();
     
     const updateSchema = z.object({
-      title: z.string().min(1).max(255),
+      title: z.string().min(1).max(255).optional(),
+      provider: z.enum(LLM_PROVIDER_NAMES).nullable().optional(),
+      personaId: z.string().uuid().nullable().optional(),
+      pinned: z.boolean().optional(),
+      archived: z.boolean().optional(),
+      folder: z.string().trim().min(1).max(50).nullable().optional(),
+    }).refine(data => Object.values(data).some(value => value !== undefined), {
+      message: 'Nothing to update',
     });
     
-    const { title } = updateSchema.parse(body);
+    const updates = updateSchema.parse(body);
     
-    const result = await ChatService.updateChat(chatId, userId, title);
+    const result = await ChatService.updateChat(chatId, userId, updates);
     return c.json(result, 200);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -178,7 +279,27 @@ chatRoutes.patch('/:chatId', async (c: AuthContext) => {
     }
     return c.json({ 
       error: error instanceof Error ? error.message : 'Failed to update chat' 
-    }, error instanceof Error && error.message === 'Chat not found' ? 404 : 500);
+    }, error instanceof Error && (error.message === 'Chat not found' || error.message === 'Persona not found') ? 404 : 500);
+  }
+});
+
+/**
+ * POST /api/chats/:chatId/messages/:messageId/activate
+ * Switch the visible branch to a message variant
+ */
+chatRoutes.post('/:chatId/messages/:messageId/activate', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const chatId = c.req.param('chatId');
+    const messageId = c.req.param('messageId');
+
+    const result = await ChatService.activateMessage(chatId, userId, messageId);
+    return c.json(result, 200);
+  } catch (error) {
+    const notFound = error instanceof Error && (error.message === 'Chat not found' || error.message === 'Message not found');
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to switch variant' 
+    }, notFound ? 404 : 500);
   }
 });
 
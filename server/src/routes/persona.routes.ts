@@ -0,0 +1,101 @@
+import { Hono } from 'hono';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { PersonaService } from '../services/persona.service';
+import { z } from 'zod';
+import type { AuthContext } from '../types/hono.types';
+
+const personaRoutes = new Hono();
+
+// All routes require authentication
+personaRoutes.use('*', authMiddleware);
+
+const personaSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  systemPrompt: z.string().trim().min(1).max(8000),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  model: z.string().trim().min(1).max(100).nullable().optional(),
+});
+
+/**
+ * GET /api/personas
+ * Get all personas for authenticated user
+ */
+personaRoutes.get('/', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await PersonaService.getUserPersonas(userId);
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch personas' 
+    }, 500);
+  }
+});
+
+/**
+ * POST /api/personas
+ * Create a new persona
+ */
+personaRoutes.post('/', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const body = await c.req.json();
+    const input = personaSchema.parse(body);
+
+    const result = await PersonaService.createPersona(userId, input);
+    return c.json(result, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to create persona' 
+    }, 500);
+  }
+});
+
+/**
+ * PATCH /api/personas/:personaId
+ * Update persona (name, system prompt, temperature, model)
+ */
+personaRoutes.patch('/:personaId', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const personaId = c.req.param('personaId');
+    const body = await c.req.json();
+
+    const updates = personaSchema.partial().refine(data => Object.keys(data).length > 0, {
+      message: 'Nothing to update',
+    }).parse(body);
+
+    const result = await PersonaService.updatePersona(personaId, userId, updates);
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to update persona' 
+    }, error instanceof Error && error.message === 'Persona not found' ? 404 : 500);
+  }
+});
+
+/**
+ * DELETE /api/personas/:personaId
+ * Delete persona; chats using it go back to the default
+ */
+personaRoutes.delete('/:personaId', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const personaId = c.req.param('personaId');
+
+    const result = await PersonaService.deletePersona(personaId, userId);
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to delete persona' 
+    }, error instanceof Error && error.message === 'Persona not found' ? 404 : 500);
+  }
+});
+
+export default personaRoutes;
@@ -0,0 +1,41 @@
+import { Hono } from 'hono';
+import { authMiddleware, verifiedEmailMiddleware } from '../middlewares/auth.middleware';
+import { rateLimit } from '../middlewares/rate-limit.middleware';
+import { rateLimiters } from '../services/rate-limit';
+import { SearchService } from '../services/search.service';
+import { z } from 'zod';
+import type { AuthContext } from '../types/hono.types';
+
+const searchRoutes = new Hono();
+
+// All routes require authentication (and a verified email, like the chats they search)
+searchRoutes.use('*', authMiddleware, verifiedEmailMiddleware);
+
+/**
+ * GET /api/search/semantic?q=
+ * Past messages most similar in meaning to the query, across all chats
+ */
+searchRoutes.get('/semantic', rateLimit(rateLimiters.semanticSearch, 'user'), async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+
+    const searchSchema = z.object({
+      q: z.string().trim().min(1, 'Search query is required').max(1000),
+      limit: z.coerce.number().int().min(1).max(50).optional(),
+    });
+
+    const { q, limit } = searchSchema.parse({ q: c.req.query('q'), limit: c.req.query('limit') });
+
+    const result = await SearchService.searchSemantic(userId, q, { limit });
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to search messages' 
+    }, 500);
+  }
+});
+
+export default searchRoutes;
@@ -0,0 +1,128 @@
+import { Hono } from 'hono';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { SettingsService } from '../services/settings.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { API_KEY_PROVIDER_NAMES, SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '../services/llm';
+import { z } from 'zod';
+import type { AuthContext } from '../types/hono.types';
+
+const settingsRoutes = new Hono();
+
+// All routes require authentication
+settingsRoutes.use('*', authMiddleware);
+
+/**
+ * GET /api/settings
+ * Get model settings for authenticated user
+ */
+settingsRoutes.get('/', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await SettingsService.getSettings(userId);
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch settings' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/settings
+ * Replace model settings (null = provider default)
+ */
+settingsRoutes.put('/', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const body = await c.req.json();
+
+    const settingsSchema = z.object({
+      model: z.string().trim().min(1).max(100).nullable().default(null),
+      temperature: z.number().min(0).max(2).nullable().default(null),
+      maxOutputTokens: z.number().int().min(1).max(65536).nullable().default(null),
+      safetyThresholds: z.partialRecord(z.enum(SAFETY_CATEGORIES), z.enum(SAFETY_THRESHOLDS)).default({}),
+    });
+
+    const settings = settingsSchema.parse(body);
+
+    const result = await SettingsService.updateSettings(userId, settings);
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to update settings' 
+    }, 500);
+  }
+});
+
+const providerSchema = z.enum(API_KEY_PROVIDER_NAMES);
+
+/**
+ * GET /api/settings/api-keys
+ * List the user's own provider keys (hints only)
+ */
+settingsRoutes.get('/api-keys', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await ApiKeyService.getUserKeys(userId);
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch API keys' 
+    }, 500);
+  }
+});
+
+/**
+ * PUT /api/settings/api-keys/:provider
+ * Verify and save the user's own key for a provider
+ */
+settingsRoutes.put('/api-keys/:provider', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const provider = providerSchema.parse(c.req.param('provider'));
+    const body = await c.req.json();
+
+    const { apiKey } = z.object({
+      apiKey: z.string().trim().min(8).max(512),
+    }).parse(body);
+
+    const result = await ApiKeyService.saveKey(userId, provider, apiKey);
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    if (error instanceof Error && error.message === 'Invalid API key') {
+      return c.json({ error: error.message }, 400);
+    }
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to save API key' 
+    }, 500);
+  }
+});
+
+/**
+ * DELETE /api/settings/api-keys/:provider
+ * Remove the user's key; generations go back to the shared key
+ */
+settingsRoutes.delete('/api-keys/:provider', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const provider = providerSchema.parse(c.req.param('provider'));
+
+    const result = await ApiKeyService.deleteKey(userId, provider);
+    return c.json(result, 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Validation failed', details: error.issues }, 400);
+    }
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to delete API key' 
+    }, error instanceof Error && error.message === 'API key not found' ? 404 : 500);
+  }
+});
+
+export default settingsRoutes;
@@ -0,0 +1,27 @@
+import { Hono } from 'hono';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { UsageService } from '../services/usage.service';
+import type { AuthContext } from '../types/hono.types';
+
+const usageRoutes = new Hono();
+
+// All routes require authentication
+usageRoutes.use('*', authMiddleware);
+
+/**
+ * GET /api/usage
+ * Token consumption for today and this month, against the configured quotas
+ */
+usageRoutes.get('/', async (c: AuthContext) => {
+  try {
+    const userId = c.get('userId');
+    const result = await UsageService.getUsage(userId);
+    return c.json(result, 200);
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to fetch usage' 
+    }, 500);
+  }
+});
+
+export default usageRoutes;
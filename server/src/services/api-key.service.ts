@@ -0,0 +1,97 @@
+import { db } from '../db';
+import { userApiKeys } from '../db/schemas/settings.schema';
+import { and, eq } from 'drizzle-orm';
+import { API_KEY_PROVIDER_NAMES, getLLMProvider, resolveLLMProviderName, type ApiKeyProviderName, type LLMProvider } from './llm';
+import { decryptSecret, encryptSecret } from '../utils/crypto';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+const isApiKeyProviderName = (name: string): name is ApiKeyProviderName => {
+  return (API_KEY_PROVIDER_NAMES as readonly string[]).includes(name);
+};
+
+export class ApiKeyService {
+  // Saved keys for a user; only a hint of each key is ever returned
+  static async getUserKeys(userId: string) {
+    const keys = await db
+      .select({
+        provider: userApiKeys.provider,
+        keyHint: userApiKeys.keyHint,
+        updatedAt: userApiKeys.updatedAt,
+      })
+      .from(userApiKeys)
+      .where(eq(userApiKeys.userId, userId));
+
+    return { apiKeys: keys };
+  }
+
+  // Check the key against the provider, then store it encrypted
+  static async saveKey(userId: string, provider: ApiKeyProviderName, apiKey: string) {
+    const encryptedKey = encryptSecret(apiKey);
+
+    try {
+      await getLLMProvider(provider, { apiKey }).verifyCredentials();
+    } catch (error) {
+      if (DEBUG) console.log(`🔑 Key verification failed for ${provider}:`, error instanceof Error ? error.message : error);
+      throw new Error('Invalid API key');
+    }
+
+    const keyHint = apiKey.slice(-4);
+    const [saved] = await db
+      .insert(userApiKeys)
+      .values({ userId, provider, encryptedKey, keyHint })
+      .onConflictDoUpdate({
+        target: [userApiKeys.userId, userApiKeys.provider],
+        set: { encryptedKey, keyHint, updatedAt: new Date() },
+      })
+      .returning({
+        provider: userApiKeys.provider,
+        keyHint: userApiKeys.keyHint,
+        updatedAt: userApiKeys.updatedAt,
+      });
+
+    return { apiKey: saved };
+  }
+
+  // Remove a saved key; the user goes back to the shared key
+  static async deleteKey(userId: string, provider: ApiKeyProviderName) {
+    const [deleted] = await db
+      .delete(userApiKeys)
+      .where(and(eq(userApiKeys.userId, userId), eq(userApiKeys.provider, provider)))
+      .returning({ provider: userApiKeys.provider });
+
+    if (!deleted) {
+      throw new Error('API key not found');
+    }
+
+    return { success: true };
+  }
+
+  // Provider for a user's generation, authenticated with their own key when they saved one
+  static async getProvider(userId: string, name?: string | null): Promise<LLMProvider> {
+    const resolved = resolveLLMProviderName(name);
+    if (!isApiKeyProviderName(resolved)) {
+      return getLLMProvider(resolved);
+    }
+
+    const [saved] = await db
+      .select({ encryptedKey: userApiKeys.encryptedKey })
+      .from(userApiKeys)
+      .where(and(eq(userApiKeys.userId, userId), eq(userApiKeys.provider, resolved)));
+
+    if (!saved) {
+      return getLLMProvider(resolved);
+    }
+
+    // Don't fall back to the shared key: the user expects usage to be billed to them
+    let apiKey: string;
+    try {
+      apiKey = decryptSecret(saved.encryptedKey);
+    } catch (error) {
+      console.error(`Failed to decrypt ${resolved} API key for user ${userId}:`, error);
+      throw new Error('Your saved API key could not be read. Please save it again in Settings.');
+    }
+
+    return getLLMProvider(resolved, { apiKey });
+  }
+}
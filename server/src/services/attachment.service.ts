@@ -0,0 +1,129 @@
+import { randomUUID } from 'crypto';
+import { getBlobStore } from './storage';
+import { generateAttachmentToken } from '../utils/auth/jwt';
+import type { HistoryAttachment, MessageHistory } from './llm';
+import type { MessageAttachment, MessageMetadata } from '../types/chat.types';
+
+export class AttachmentService {
+  // Store an uploaded image and describe it for message metadata
+  static async saveImage(chatId: string, imageBase64: string, mimeType: string): Promise<MessageAttachment> {
+    const id = randomUUID();
+    const key = `${chatId}/${id}`;
+    const data = Buffer.from(imageBase64, 'base64');
+
+    await getBlobStore().put(key, data, mimeType);
+
+    return {
+      id,
+      type: 'image',
+      key,
+      mimeType,
+      size: data.length,
+    };
+  }
+
+  // Store an uploaded document together with its extracted text
+  static async saveDocument(
+    chatId: string,
+    documentBase64: string,
+    mimeType: string,
+    fileName: string,
+    parsed: { text: string; pages?: number }
+  ): Promise<MessageAttachment> {
+    const id = randomUUID();
+    const key = `${chatId}/${id}`;
+    const textKey = `${key}.txt`;
+    const data = Buffer.from(documentBase64, 'base64');
+
+    const store = getBlobStore();
+    await Promise.all([
+      store.put(key, data, mimeType),
+      store.put(textKey, Buffer.from(parsed.text, 'utf-8'), 'text/plain'),
+    ]);
+
+    return {
+      id,
+      type: 'document',
+      key,
+      mimeType,
+      size: data.length,
+      fileName,
+      pages: parsed.pages,
+      textKey,
+    };
+  }
+
+  // Load attachment contents so the model sees them again on follow-up turns
+  static async loadForHistory(metadata: MessageMetadata | null | undefined): Promise<HistoryAttachment[]> {
+    const store = getBlobStore();
+    const loaded = await Promise.all(
+      (metadata?.attachments || []).map(async (attachment): Promise<HistoryAttachment | null> => {
+        if (attachment.type === 'image') {
+          const blob = await store.get(attachment.key);
+          return blob ? { type: 'image', mimeType: attachment.mimeType, base64: blob.data.toString('base64') } : null;
+        }
+
+        // Document content is supplied through retrieval (DocumentService), not replayed in full
+        return { type: 'document', fileName: attachment.fileName || 'document', pages: attachment.pages };
+      })
+    );
+
+    return loaded.filter((attachment): attachment is HistoryAttachment => attachment !== null);
+  }
+
+  // Load a stored image as base64, e.g. to answer its message again
+  static async loadImageBase64(attachment: MessageAttachment): Promise<string | null> {
+    const blob = await getBlobStore().get(attachment.key);
+    return blob ? blob.data.toString('base64') : null;
+  }
+
+  // Load the text extracted from a stored document when it was uploaded
+  static async loadDocumentText(attachment: MessageAttachment): Promise<string | null> {
+    if (!attachment.textKey) {
+      return null;
+    }
+
+    const blob = await getBlobStore().get(attachment.textKey);
+    return blob ? blob.data.toString('utf-8') : null;
+  }
+
+  // Convert stored messages into model history, including their attachments
+  static async toHistory(
+    history: { role: string; content: string; metadata?: MessageMetadata | null }[]
+  ): Promise<MessageHistory[]> {
+    return Promise.all(
+      history.map(async msg => {
+        const attachments = await AttachmentService.loadForHistory(msg.metadata);
+        return {
+          role: msg.role,
+          content: msg.content,
+          ...(attachments.length > 0 ? { attachments } : {}),
+        };
+      })
+    );
+  }
+
+  // Add signed download URLs to attachments before returning messages to the client
+  static withUrls<T extends { metadata: MessageMetadata | null }>(message: T): T {
+    const metadata = message.metadata;
+    if (!metadata?.attachments?.length) {
+      return message;
+    }
+
+    return {
+      ...message,
+      metadata: {
+        ...metadata,
+        attachments: metadata.attachments.map(attachment => ({
+          ...attachment,
+          url: `/api/attachments/${attachment.id}?token=${generateAttachmentToken(attachment.key)}`,
+        })),
+      },
+    };
+  }
+
+  // Remove every blob stored for a chat
+  static async deleteForChat(chatId: string): Promise<void> {
+    await getBlobStore().deletePrefix(chatId);
+  }
+}
@@ -1,15 +1,37 @@
 import { db } from '../db';
-import { users, passwordResets } from '../db/schemas/auth.schema';
-import { eq, and } from 'drizzle-orm';
+import { users, passwordResets, emailVerifications } from '../db/schemas/auth.schema';
+import { chats } from '../db/schemas/chat.schema';
+import { eq, and, desc } from 'drizzle-orm';
 import { hashPassword, verifyPassword } from '../utils/auth/password';
-import { generateToken, generateResetToken, verifyResetToken } from '../utils/auth/jwt';
-import { SignupInput, LoginInput, ForgotPasswordInput, ResetPasswordInput } from '../utils/auth/validation';
+import { generateResetToken, verifyResetToken, generateVerificationToken, verifyVerificationToken } from '../utils/auth/jwt';
+import { hashToken } from '../utils/auth/tokens';
+import { SessionService, type SessionClient } from './session.service';
+import { TwoFactorService } from './two-factor.service';
+import { rateLimiters, RateLimitError } from './rate-limit';
+import { AttachmentService } from './attachment.service';
+import { getMailer, appLink, verificationEmail, passwordResetEmail } from './mail';
+import {
+  SignupInput,
+  LoginInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  VerifyEmailInput,
+  ChangePasswordInput,
+  UpdateProfileInput,
+  DeleteAccountInput,
+} from '../utils/auth/validation';
+
+// When on, accounts can't chat until they verify their email
+const REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+// Minimum wait between verification emails for the same user
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
 
 export class AuthService {
   /**
    * Sign up a new user
    */
-  static async signup(input: SignupInput) {
+  static async signup(input: SignupInput, client: SessionClient = {}) {
     // Check if user already exists
     const existingUser = await db
       .select()
@@ -36,26 +58,36 @@ export class AuthService {
 
     const user = newUser[0];
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
+    // A failed email shouldn't fail the signup; the user can ask for another one
+    AuthService.sendVerificationEmail(user).catch(error => {
+      console.error('❌ Failed to send verification email:', error);
     });
 
+    // Start a session for this device
+    const { token, refreshToken } = await SessionService.create(user, client);
+
     return {
       user: {
         id: user.id,
         name: user.name,
         email: user.email,
+        isVerified: user.isVerified,
+        hasPassword: user.password !== null,
       },
       token,
+      refreshToken,
     };
   }
 
   /**
    * Login user
    */
-  static async login(input: LoginInput) {
+  static async login(input: LoginInput, client: SessionClient = {}) {
+    const limit = await rateLimiters.loginAccount.consume(input.email);
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterSeconds);
+    }
+
     // Find user by email
     const userResult = await db
       .select()
@@ -69,26 +101,34 @@ export class AuthService {
 
     const user = userResult[0];
 
-    // Verify password
-    const isPasswordValid = await verifyPassword(input.password, user.password);
+    // Verify password; accounts created through OAuth have none until they set one
+    const isPasswordValid = user.password !== null && await verifyPassword(input.password, user.password);
 
     if (!isPasswordValid) {
       throw new Error('Invalid email or password');
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-    });
+    // Only failed attempts count against the account
+    await rateLimiters.loginAccount.reset(input.email);
+
+    // With 2FA on, the password only earns a challenge; the session comes after the code
+    if (await TwoFactorService.isEnabled(user.id)) {
+      return TwoFactorService.createChallenge(user.id);
+    }
+
+    // Start a session for this device
+    const { token, refreshToken } = await SessionService.create(user, client);
 
     return {
       user: {
         id: user.id,
         name: user.name,
         email: user.email,
+        isVerified: user.isVerified,
+        hasPassword: user.password !== null,
       },
       token,
+      refreshToken,
     };
   }
 
@@ -96,6 +136,12 @@ export class AuthService {
    * Request password reset
    */
   static async forgotPassword(input: ForgotPasswordInput) {
+    // Keyed on the address asked for, whether or not it exists, so the limit reveals nothing
+    const limit = await rateLimiters.passwordResetAccount.consume(input.email);
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterSeconds);
+    }
+
     // Find user by email
     const userResult = await db
       .select()
@@ -113,19 +159,21 @@ export class AuthService {
     // Generate reset token
     const resetToken = generateResetToken(user.id);
 
-    // Store reset token (expires in 1 hour)
+    // Store a hash of the reset token (expires in 1 hour), so a database leak can't be used to reset passwords
     await db.insert(passwordResets).values({
       userId: user.id,
-      token: resetToken,
+      tokenHash: hashToken(resetToken),
       expiresAt: new Date(Date.now() + 3600000), // 1 hour
     });
 
-    // TODO: Send email with reset link
-    // For now, return token (in production, send via email)
-    return {
-      success: true,
-      resetToken, // Remove this in production, send via email instead
-    };
+    // Sent in the background so the response time doesn't reveal whether the email exists
+    getMailer()
+      .send(passwordResetEmail(user, appLink('reset-password', { token: resetToken })))
+      .catch(error => {
+        console.error('❌ Failed to send password reset email:', error);
+      });
+
+    return { success: true };
   }
 
   /**
@@ -145,7 +193,8 @@ export class AuthService {
       .from(passwordResets)
       .where(
         and(
-          eq(passwordResets.token, input.token),
+          eq(passwordResets.tokenHash, hashToken(input.token)),
+          eq(passwordResets.userId, decoded.userId),
           eq(passwordResets.used, false)
         )
       )
@@ -155,24 +204,292 @@ export class AuthService {
       throw new Error('Invalid or expired reset token');
     }
 
+    // Mark reset token as used first, so the same link can't be redeemed twice concurrently
+    const claimed = await db
+      .update(passwordResets)
+      .set({ used: true })
+      .where(and(eq(passwordResets.id, resetRecord[0].id), eq(passwordResets.used, false)))
+      .returning({ id: passwordResets.id });
+
+    if (claimed.length === 0) {
+      throw new Error('Invalid or expired reset token');
+    }
+
     // Hash new password
     const hashedPassword = await hashPassword(input.password);
 
     // Update user password
     await db
       .update(users)
-      .set({ password: hashedPassword })
+      .set({ password: hashedPassword, updatedAt: new Date() })
       .where(eq(users.id, decoded.userId));
 
-    // Mark reset token as used
+    // Whoever knew the old password may still be signed in somewhere
+    await SessionService.revokeAllForUser(decoded.userId);
+
+    return { success: true };
+  }
+
+  /**
+   * Update name and/or email; a new email has to be verified again
+   */
+  static async updateProfile(userId: string, input: UpdateProfileInput) {
+    const userResult = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (userResult.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = userResult[0];
+    const emailChanged = input.email !== undefined && input.email !== user.email;
+
+    if (emailChanged) {
+      // The email is the login, so changing it needs the password (if the account has one)
+      if (user.password !== null && (!input.currentPassword || !(await verifyPassword(input.currentPassword, user.password)))) {
+        throw new Error('Current password is incorrect');
+      }
+
+      const existingUser = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.email, input.email!))
+        .limit(1);
+
+      if (existingUser.length > 0) {
+        throw new Error('Email already registered');
+      }
+    }
+
+    const [updated] = await db
+      .update(users)
+      .set({
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(emailChanged ? { email: input.email, isVerified: false } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (emailChanged) {
+      AuthService.sendVerificationEmail(updated).catch(error => {
+        console.error('❌ Failed to send verification email:', error);
+      });
+    }
+
+    return {
+      user: {
+        id: updated.id,
+        name: updated.name,
+        email: updated.email,
+        isVerified: updated.isVerified,
+        hasPassword: updated.password !== null,
+      },
+    };
+  }
+
+  /**
+   * Delete the user's account and everything that belongs to it
+   */
+  static async deleteAccount(userId: string, input: DeleteAccountInput) {
+    const userResult = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (userResult.length === 0) {
+      throw new Error('User not found');
+    }
+
+    // Accounts without a password confirm with the session alone
+    const { password } = userResult[0];
+    if (password !== null && (!input.password || !(await verifyPassword(input.password, password)))) {
+      throw new Error('Password is incorrect');
+    }
+
+    // Attachments live outside the database, so note whose they are before the rows go
+    const userChats = await db
+      .select({ id: chats.id })
+      .from(chats)
+      .where(eq(chats.userId, userId));
+
+    // Disconnect open sockets; the session rows themselves go with the user
+    await SessionService.revokeAllForUser(userId);
+
+    // Chats, messages, sessions, personas, settings and tokens cascade from the user
+    await db.delete(users).where(eq(users.id, userId));
+
+    for (const chat of userChats) {
+      await AttachmentService.deleteForChat(chat.id).catch(error => {
+        console.error(`❌ Failed to delete attachments for chat ${chat.id}:`, error);
+      });
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Change password for a signed-in user, or set the first one for an OAuth-only account
+   */
+  static async changePassword(userId: string, sessionId: string, input: ChangePasswordInput) {
+    const userResult = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (userResult.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = userResult[0];
+
+    // Verify current password
+    if (user.password !== null) {
+      const isPasswordValid = !!input.currentPassword && await verifyPassword(input.currentPassword, user.password);
+
+      if (!isPasswordValid) {
+        throw new Error('Current password is incorrect');
+      }
+    }
+
+    if (input.currentPassword === input.newPassword) {
+      throw new Error('New password must be different from the current one');
+    }
+
+    // Hash new password
+    const hashedPassword = await hashPassword(input.newPassword);
+
+    // Update user password
     await db
-      .update(passwordResets)
+      .update(users)
+      .set({ password: hashedPassword, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    // Keep this device signed in, end the rest
+    await SessionService.revokeAllForUser(userId, sessionId);
+
+    return { success: true };
+  }
+
+  /**
+   * Email a verification link to the user
+   */
+  private static async sendVerificationEmail(user: { id: string; name: string; email: string }) {
+    const token = generateVerificationToken(user.id, user.email);
+
+    // Store verification token (expires in 24 hours)
+    await db.insert(emailVerifications).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + 24 * 3600000),
+    });
+
+    await getMailer().send(verificationEmail(user, appLink('verify-email', { token })));
+  }
+
+  /**
+   * Verify email with token
+   */
+  static async verifyEmail(input: VerifyEmailInput) {
+    const decoded = verifyVerificationToken(input.token);
+
+    if (!decoded) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    // Find verification record
+    const verificationRecord = await db
+      .select()
+      .from(emailVerifications)
+      .where(
+        and(
+          eq(emailVerifications.tokenHash, hashToken(input.token)),
+          eq(emailVerifications.used, false)
+        )
+      )
+      .limit(1);
+
+    if (verificationRecord.length === 0 || verificationRecord[0].expiresAt < new Date()) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    // The link only confirms the address it was sent to
+    const updated = await db
+      .update(users)
+      .set({ isVerified: true, updatedAt: new Date() })
+      .where(and(eq(users.id, decoded.userId), eq(users.email, decoded.email)))
+      .returning({ id: users.id });
+
+    if (updated.length === 0) {
+      throw new Error('Invalid or expired verification token');
+    }
+
+    // Mark every outstanding link for this user as used
+    await db
+      .update(emailVerifications)
       .set({ used: true })
-      .where(eq(passwordResets.id, resetRecord[0].id));
+      .where(eq(emailVerifications.userId, decoded.userId));
+
+    return { success: true };
+  }
+
+  /**
+   * Send a new verification email
+   */
+  static async resendVerification(userId: string) {
+    const userResult = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (userResult.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const user = userResult[0];
+
+    if (user.isVerified) {
+      throw new Error('Email already verified');
+    }
+
+    const [latest] = await db
+      .select({ createdAt: emailVerifications.createdAt })
+      .from(emailVerifications)
+      .where(eq(emailVerifications.userId, userId))
+      .orderBy(desc(emailVerifications.createdAt))
+      .limit(1);
+
+    if (latest && Date.now() - latest.createdAt.getTime() < VERIFICATION_RESEND_COOLDOWN_MS) {
+      throw new Error('Please wait a minute before requesting another email');
+    }
+
+    await AuthService.sendVerificationEmail(user);
 
     return { success: true };
   }
 
+  /**
+   * Whether the verification policy currently blocks this user
+   */
+  static async isVerificationPending(userId: string) {
+    if (!REQUIRE_EMAIL_VERIFICATION) {
+      return false;
+    }
+
+    const [user] = await db
+      .select({ isVerified: users.isVerified })
+      .from(users)
+      .where(eq(users.id, userId));
+
+    return !user?.isVerified;
+  }
+
   /**
    * Get user by ID
    */
@@ -193,6 +510,7 @@ export class AuthService {
       name: user.name,
       email: user.email,
       isVerified: user.isVerified,
+      hasPassword: user.password !== null,
     };
   }
 }
\ No newline at end of file
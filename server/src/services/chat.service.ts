@@ -1,26 +1,93 @@
 import { db } from '../db';
 import { chats, messages } from '../db/schemas/chat.schema';
-import { eq, desc, and, sql } from 'drizzle-orm';
-import GeminiService from './gemini.service';
+import { eq, desc, and, gte, lte, isNotNull, isNull, sql } from 'drizzle-orm';
+import { AttachmentService } from './attachment.service';
+import { DocumentService } from './document.service';
+import { SummaryService } from './summary.service';
+import { MessageService } from './message.service';
+import { SearchService } from './search.service';
+import { PersonaService } from './persona.service';
+import { SettingsService } from './settings.service';
+import { ApiKeyService } from './api-key.service';
+import { UsageService } from './usage.service';
+import { buildContextWindow, estimateTokens } from '../utils/context';
+import { decodeChatCursor, encodeChatCursor } from '../utils/pagination';
+import type { MessageMetadata } from '../types/chat.types';
+
+// Upper bound on messages loaded before token budgeting
+const HISTORY_FETCH_LIMIT = 200;
+
+// Messages returned per page when a chat is opened or scrolled back
+const MESSAGE_PAGE_SIZE = 50;
+
+// Chats returned per page of the chat list
+const CHAT_PAGE_SIZE = 30;
+
+export interface ChatListFilters {
+  pinned?: boolean;
+  archived?: boolean; // Defaults to false: archived chats are only listed when asked for
+  folder?: string;
+  from?: Date; // Last activity (updatedAt) range
+  to?: Date;
+}
 
 export class ChatService {
-  // Get all chats for a user
-  static async getUserChats(userId: string) {
-    const userChats = await db
+  /**
+   * One page of the user's chats, most recently active first.
+   * Pass the returned `nextCursor` back as `cursor` for the next page; it is null after the last one.
+   */
+  static async getUserChats(
+    userId: string,
+    { cursor, limit = CHAT_PAGE_SIZE, filters = {} }: { cursor?: string; limit?: number; filters?: ChatListFilters } = {}
+  ) {
+    const after = cursor ? decodeChatCursor(cursor) : null;
+    const archived = filters.archived ?? false;
+
+    const rows = await db
       .select({
         id: chats.id,
         title: chats.title,
+        personaId: chats.personaId,
+        folder: chats.folder,
+        pinnedAt: chats.pinnedAt,
+        archivedAt: chats.archivedAt,
+        messageCount: chats.messageCount,
+        lastMessagePreview: chats.lastMessagePreview,
         createdAt: chats.createdAt,
         updatedAt: chats.updatedAt,
-        messageCount: sql<number>`CAST(COUNT(${messages.id}) AS INTEGER)`,
+        updatedAtKey: sql<string>`${chats.updatedAt}::text`,
       })
       .from(chats)
-      .leftJoin(messages, eq(messages.chatId, chats.id))
-      .where(eq(chats.userId, userId))
-      .groupBy(chats.id)
-      .orderBy(desc(chats.updatedAt));
+      .where(and(
+        eq(chats.userId, userId),
+        archived ? isNotNull(chats.archivedAt) : isNull(chats.archivedAt),
+        filters.pinned === undefined ? undefined : filters.pinned ? isNotNull(chats.pinnedAt) : isNull(chats.pinnedAt),
+        filters.folder === undefined ? undefined : eq(chats.folder, filters.folder),
+        filters.from ? gte(chats.updatedAt, filters.from) : undefined,
+        filters.to ? lte(chats.updatedAt, filters.to) : undefined,
+        after ? sql`(${chats.updatedAt}, ${chats.id}) < (${after.updatedAt}::timestamp, ${after.id}::uuid)` : undefined
+      ))
+      .orderBy(desc(chats.updatedAt), desc(chats.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
 
-    return { chats: userChats };
+    return {
+      chats: page.map(({ updatedAtKey, ...chat }) => chat),
+      nextCursor: rows.length > limit ? encodeChatCursor(last.updatedAtKey, last.id) : null,
+    };
+  }
+
+  // Folder names in use, for filtering the chat list
+  static async getFolders(userId: string) {
+    const rows = await db
+      .selectDistinct({ folder: chats.folder })
+      .from(chats)
+      .where(and(eq(chats.userId, userId), isNotNull(chats.folder)))
+      .orderBy(chats.folder);
+
+    return { folders: rows.map(row => row.folder!) };
   }
 
   // Create new chat
@@ -41,8 +108,10 @@ export class ChatService {
     };
   }
 
-  // Get chat by ID with messages
-  static async getChatById(chatId: string, userId: string) {
+  /**
+   * Get chat by ID with a page of messages: the newest ones, or those just older than `before`
+   */
+  static async getChatById(chatId: string, userId: string, options: { before?: string; limit?: number } = {}) {
     const [chat] = await db
       .select()
       .from(chats)
@@ -52,16 +121,38 @@ export class ChatService {
       throw new Error('Chat not found');
     }
 
-    const chatMessages = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.chatId, chatId))
-      .orderBy(messages.createdAt);
+    const limit = options.limit ?? MESSAGE_PAGE_SIZE;
+
+    // Older pages continue up the branch from the cursor's parent
+    let fromMessageId: string | null | undefined;
+    if (options.before) {
+      const [cursor] = await db
+        .select({ parentId: messages.parentId })
+        .from(messages)
+        .where(and(eq(messages.id, options.before), eq(messages.chatId, chatId)));
+
+      if (!cursor) {
+        throw new Error('Message not found');
+      }
+      fromMessageId = cursor.parentId;
+    }
+
+    // Only the active branch is shown; one extra message tells whether older ones remain
+    const page = fromMessageId === null ? [] : await MessageService.getPath(chatId, { fromMessageId, limit: limit + 1 });
+    const hasMoreMessages = page.length > limit;
+    const chatMessages = hasMoreMessages ? page.slice(1) : page;
+
+    // Each message lists its variants so the client can switch
+    const siblingIds = await MessageService.getSiblingIds(chatId, chatMessages);
 
     return {
       chat: {
         ...chat,
-        messages: chatMessages,
+        messages: chatMessages.map(message => ({
+          ...AttachmentService.withUrls(message),
+          siblingIds: siblingIds.get(message.id) || [message.id],
+        })),
+        hasMoreMessages,
       },
     };
   }
@@ -78,45 +169,34 @@ export class ChatService {
       throw new Error('Chat not found');
     }
 
-    // Save user message
-    const [userMessage] = await db
-      .insert(messages)
-      .values({
-        chatId,
-        content,
-        role: 'user',
-      })
-      .returning();
+    // Get conversation history before saving the new message, trimmed to the token budget
+    const [history, summary, generationOptions] = await Promise.all([
+      ChatService.getMessageHistory(chatId),
+      SummaryService.getSummary(chatId),
+      SettingsService.getGenerationOptions(userId, chat.personaId),
+    ]);
+    const contextWindow = buildContextWindow(history, { prompt: content });
 
-    // Get conversation history (last 10 messages for context)
-    const history = await db
-      .select({
-        role: messages.role,
-        content: messages.content,
-      })
-      .from(messages)
-      .where(eq(messages.chatId, chatId))
-      .orderBy(messages.createdAt)
-      .limit(10);
+    // Save user message
+    const userMessage = await ChatService.saveUserMessage(chatId, content, chat.activeMessageId);
 
     // Generate AI response
-    const aiResponse = await GeminiService.generateResponse(
-      content,
-      history.map(msg => ({
-        role: msg.role,
-        content: msg.content,
-      }))
+    const provider = await ApiKeyService.getProvider(userId, chat.provider);
+    const contextHistory = await AttachmentService.toHistory(contextWindow.messages);
+    const systemContext = SummaryService.buildSystemContext(summary, contextWindow.omitted);
+    const aiResponse = await UsageService.meterResponse(
+      {
+        userId,
+        chatId,
+        provider,
+        model: generationOptions.model,
+        promptTokens: contextWindow.tokens + estimateTokens(content + (systemContext ?? '')),
+      },
+      onUsage => provider.generateResponse(content, contextHistory, { ...generationOptions, systemContext, onUsage })
     );
 
     // Save AI response
-    const [assistantMessage] = await db
-      .insert(messages)
-      .values({
-        chatId,
-        content: aiResponse,
-        role: 'assistant',
-      })
-      .returning();
+    const assistantMessage = await ChatService.saveAssistantMessage(chatId, aiResponse, userMessage.id);
 
     // Update chat timestamp and auto-generate title if needed
     const messageCount = await db
@@ -138,45 +218,65 @@ export class ChatService {
         .where(eq(chats.id, chatId));
     }
 
+    // Fold older messages into the running summary in the background
+    SummaryService.refresh(chatId, provider, userId)
+      .catch(err => console.error('Failed to refresh chat summary:', err));
+
     return {
       userMessage,
       assistantMessage,
     };
   }
 
-  // Get message history for streaming
-  static async getMessageHistory(chatId: string) {
-    return await db
-      .select({
-        role: messages.role,
-        content: messages.content,
-      })
-      .from(messages)
-      .where(eq(messages.chatId, chatId))
-      .orderBy(messages.createdAt)
-      .limit(10);
+  // Get the most recent messages of the active branch (or the branch ending at `fromMessageId`)
+  // in chronological order; trimmed later by buildContextWindow
+  static async getMessageHistory(chatId: string, options: { fromMessageId?: string | null; limit?: number } = {}) {
+    const path = await MessageService.getPath(chatId, {
+      fromMessageId: options.fromMessageId,
+      limit: options.limit ?? HISTORY_FETCH_LIMIT,
+    });
+
+    return path.map(({ role, content, metadata }) => ({ role, content, metadata }));
   }
 
-  // Save assistant message after streaming
-  static async saveAssistantMessage(chatId: string, content: string) {
-    const [message] = await db
-      .insert(messages)
-      .values({
-        chatId,
-        content,
-        role: 'assistant',
-      })
-      .returning();
+  // Save user message as a reply to `parentId` (the chat's active message when it was sent)
+  static async saveUserMessage(chatId: string, content: string, parentId: string | null, metadata?: MessageMetadata) {
+    return await MessageService.append(chatId, { role: 'user', content, parentId, metadata });
+  }
 
-    // Update chat timestamp
-    await db
-      .update(chats)
-      .set({ updatedAt: new Date() })
-      .where(eq(chats.id, chatId));
+  // Save assistant message after streaming (also updates the chat timestamp)
+  static async saveAssistantMessage(chatId: string, content: string, parentId: string | null, metadata?: MessageMetadata) {
+    const message = await MessageService.append(chatId, { role: 'assistant', content, parentId, metadata });
+
+    // Index the exchange for semantic search without holding up the reply
+    SearchService.indexMessages(parentId ? [parentId, message.id] : [message.id])
+      .catch(err => console.error('Failed to embed messages:', err));
 
     return message;
   }
 
+  // Show another variant of a message (and the most recent branch below it)
+  static async activateMessage(chatId: string, userId: string, messageId: string) {
+    const [chat] = await db
+      .select({ id: chats.id })
+      .from(chats)
+      .where(and(eq(chats.id, chatId), eq(chats.userId, userId)));
+
+    if (!chat) {
+      throw new Error('Chat not found');
+    }
+
+    const activated = await MessageService.activate(chatId, messageId);
+    if (!activated) {
+      throw new Error('Message not found');
+    }
+
+    // A summary built from the previous branch no longer matches what the user sees
+    await SummaryService.invalidateFrom(chatId, activated.createdAt);
+
+    return await ChatService.getChatById(chatId, userId);
+  }
+
   // Delete chat
   static async deleteChat(chatId: string, userId: string) {
     const result = await db
@@ -188,14 +288,42 @@ export class ChatService {
       throw new Error('Chat not found');
     }
 
+    await AttachmentService.deleteForChat(chatId);
+
     return { success: true };
   }
 
-  // Update chat title
-  static async updateChat(chatId: string, userId: string, title: string) {
+  // Update chat (title, provider, persona) or how it is organized (pinned, archived, folder)
+  static async updateChat(
+    chatId: string,
+    userId: string,
+    updates: {
+      title?: string;
+      provider?: string | null;
+      personaId?: string | null;
+      pinned?: boolean;
+      archived?: boolean;
+      folder?: string | null;
+    }
+  ) {
+    const { pinned, archived, ...settings } = updates;
+
+    // Only the user's own personas can be assigned
+    if (settings.personaId) {
+      await PersonaService.getPersona(settings.personaId, userId);
+    }
+
+    // Organizing a chat isn't activity, so it keeps its place in the list
+    const isActivity = settings.title !== undefined || settings.provider !== undefined || settings.personaId !== undefined;
+
     const [updated] = await db
       .update(chats)
-      .set({ title, updatedAt: new Date() })
+      .set({
+        ...settings,
+        ...(pinned !== undefined && { pinnedAt: pinned ? new Date() : null }),
+        ...(archived !== undefined && { archivedAt: archived ? new Date() : null }),
+        ...(isActivity && { updatedAt: new Date() }),
+      })
       .where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
       .returning();
 
@@ -222,9 +350,15 @@ export class ChatService {
       .delete(messages)
       .where(eq(messages.chatId, chatId));
 
+    await Promise.all([
+      AttachmentService.deleteForChat(chatId),
+      DocumentService.deleteForChat(chatId),
+      SummaryService.deleteForChat(chatId),
+    ]);
+
     await db
       .update(chats)
-      .set({ updatedAt: new Date() })
+      .set({ messageCount: 0, lastMessagePreview: null, updatedAt: new Date() })
       .where(eq(chats.id, chatId));
 
     return { success: true };
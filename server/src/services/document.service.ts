@@ -0,0 +1,132 @@
+import { db } from '../db';
+import { documentChunks } from '../db/schemas/document.schema';
+import { and, eq } from 'drizzle-orm';
+import { chunkDocument, type ParsedDocument } from '../utils/documents';
+import { cosineSimilarity } from '../utils/embeddings';
+import { formatDocumentExcerpts, type DocumentExcerpt, type DocumentInput, type LLMProvider } from './llm';
+import type { MessageAttachment } from '../types/chat.types';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+// Documents shorter than this are sent to the model in full on the first turn
+const FULL_TEXT_CHAR_LIMIT = Number(process.env.RAG_FULL_TEXT_CHAR_LIMIT) || 30000;
+const TOP_K = Number(process.env.RAG_TOP_K) || 6;
+
+export interface RetrievedChunk extends DocumentExcerpt {
+  attachmentId: string;
+  chunkIndex: number;
+  score: number;
+}
+
+export class DocumentService {
+  // Chunk and embed a parsed document so later turns can retrieve from it
+  static async ingest(
+    chatId: string,
+    attachment: MessageAttachment,
+    parsed: ParsedDocument,
+    provider: LLMProvider
+  ): Promise<number> {
+    const chunks = chunkDocument(parsed);
+    if (chunks.length === 0) {
+      return 0;
+    }
+
+    const embeddings = await provider.embed(chunks.map(chunk => chunk.content));
+
+    await db.insert(documentChunks).values(
+      chunks.map((chunk, i) => ({
+        chatId,
+        attachmentId: attachment.id,
+        fileName: attachment.fileName || 'document',
+        chunkIndex: chunk.index,
+        page: chunk.page ?? null,
+        content: chunk.content,
+        embedding: embeddings[i],
+        embeddingModel: provider.embeddingModel,
+      }))
+    );
+
+    if (DEBUG) console.log(`📚 Indexed ${chunks.length} chunks from ${attachment.fileName} for chat ${chatId}`);
+
+    return chunks.length;
+  }
+
+  // Find the chunks most relevant to a query among the chat's documents
+  static async retrieve(
+    chatId: string,
+    query: string,
+    provider: LLMProvider,
+    options: { limit?: number; attachmentId?: string } = {}
+  ): Promise<RetrievedChunk[]> {
+    const conditions = [
+      eq(documentChunks.chatId, chatId),
+      // Vectors from different embedding models are not comparable
+      eq(documentChunks.embeddingModel, provider.embeddingModel),
+    ];
+    if (options.attachmentId) {
+      conditions.push(eq(documentChunks.attachmentId, options.attachmentId));
+    }
+
+    const candidates = await db
+      .select()
+      .from(documentChunks)
+      .where(and(...conditions));
+
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const [queryEmbedding] = await provider.embed([query]);
+
+    return candidates
+      .map(chunk => ({
+        attachmentId: chunk.attachmentId,
+        fileName: chunk.fileName,
+        chunkIndex: chunk.chunkIndex,
+        page: chunk.page,
+        content: chunk.content,
+        score: cosineSimilarity(queryEmbedding, chunk.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? TOP_K);
+  }
+
+  // Full text for short documents, the most relevant excerpts for long ones
+  static async buildDocumentInput(
+    chatId: string,
+    prompt: string,
+    attachment: MessageAttachment,
+    parsed: ParsedDocument,
+    provider: LLMProvider
+  ): Promise<DocumentInput> {
+    const fileName = attachment.fileName || 'document';
+
+    if (parsed.text.length <= FULL_TEXT_CHAR_LIMIT) {
+      // Mark page boundaries so the answer can cite page numbers
+      const text = parsed.pageTexts?.length
+        ? parsed.pageTexts.map(({ page, text }) => `[Page ${page}]\n${text}`).join('\n\n')
+        : parsed.text;
+      return { fileName, text, pages: attachment.pages };
+    }
+
+    const excerpts = await DocumentService.retrieve(chatId, prompt, provider, { attachmentId: attachment.id });
+    if (excerpts.length === 0) {
+      // Indexing failed; fall back to the beginning of the document
+      return { fileName, text: parsed.text.substring(0, FULL_TEXT_CHAR_LIMIT), pages: attachment.pages };
+    }
+    if (DEBUG) console.log(`🔎 Using ${excerpts.length} excerpts from ${fileName} instead of full text`);
+
+    return {
+      fileName,
+      pages: attachment.pages,
+      text: `(The document is long; only the most relevant excerpts are shown.)\n\n${formatDocumentExcerpts(excerpts)}`,
+    };
+  }
+
+  // Remove indexed chunks for a chat
+  static async deleteForChat(chatId: string): Promise<void> {
+    await db
+      .delete(documentChunks)
+      .where(eq(documentChunks.chatId, chatId));
+  }
+}
@@ -0,0 +1,300 @@
+import {
+  GoogleGenerativeAI,
+  HarmBlockThreshold,
+  HarmCategory,
+  type Content,
+  type EnhancedGenerateContentResponse,
+  type Part,
+  type SafetySetting,
+  type UsageMetadata,
+} from '@google/generative-ai';
+import type { DocumentInput, GenerationOptions, LLMProvider, MessageHistory, SafetyCategory, SafetyThreshold } from './types';
+import { buildDocumentPrompt, buildDocumentReference, buildSystemInstruction } from './prompts';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+const GEMINI_EMBEDDING_MODEL = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+const EMBED_BATCH_SIZE = 100; // batchEmbedContents request limit
+const VISION_MAX_OUTPUT_TOKENS = 2048;
+const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const HARM_BLOCK_THRESHOLDS: Record<SafetyThreshold, HarmBlockThreshold> = {
+  none: HarmBlockThreshold.BLOCK_NONE,
+  high: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  medium: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  low: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+
+  readonly embeddingModel = `gemini/${GEMINI_EMBEDDING_MODEL}`;
+
+  private genAI: GoogleGenerativeAI;
+
+  // Defaults to the shared deployment key; users can bring their own
+  constructor(private apiKey: string = process.env.GEMINI_API_KEY || '') {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  // Models are cheap to create, so each request gets one built from its settings, persona and context
+  private getModel(options: GenerationOptions, defaultMaxOutputTokens?: number) {
+    return this.genAI.getGenerativeModel({
+      model: options.model || GEMINI_MODEL,
+      systemInstruction: buildSystemInstruction(options),
+      generationConfig: {
+        temperature: options.temperature ?? 0.7,
+        topP: 0.95,
+        topK: 40,
+        maxOutputTokens: options.maxOutputTokens ?? defaultMaxOutputTokens,
+      },
+      safetySettings: this.toSafetySettings(options),
+    });
+  }
+
+  // gemini-2.5-flash supports multimodal input (text, images, video, audio)
+  private visionModel(options: GenerationOptions) {
+    return this.getModel(options, VISION_MAX_OUTPUT_TOKENS);
+  }
+
+  // Categories without a configured threshold keep Gemini's default filtering
+  private toSafetySettings(options: GenerationOptions): SafetySetting[] | undefined {
+    const entries = Object.entries(options.safety || {}) as [SafetyCategory, SafetyThreshold][];
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    return entries.map(([category, threshold]) => ({
+      category: HARM_CATEGORIES[category],
+      threshold: HARM_BLOCK_THRESHOLDS[threshold],
+    }));
+  }
+
+  private toImageParts(prompt: string, imageBase64: string, mimeType: string) {
+    return [
+      { text: prompt },
+      {
+        inlineData: {
+          data: imageBase64,
+          mimeType: mimeType,
+        },
+      },
+    ];
+  }
+
+  private reportUsage(usage: UsageMetadata | undefined, options: GenerationOptions) {
+    if (usage && options.onUsage) {
+      options.onUsage({
+        promptTokens: usage.promptTokenCount,
+        completionTokens: usage.candidatesTokenCount,
+      });
+    }
+  }
+
+  private async *yieldChunks(
+    stream: AsyncGenerator<EnhancedGenerateContentResponse>,
+    options: GenerationOptions
+  ): AsyncGenerator<string, void, unknown> {
+    let chunkCount = 0;
+    let usage: UsageMetadata | undefined;
+
+    for await (const chunk of stream) {
+      // Each chunk carries the running totals, so the last one counts the whole response
+      usage = chunk.usageMetadata ?? usage;
+      const text = chunk.text();
+      if (text) {
+        chunkCount++;
+        if (DEBUG) console.log(`📦 Gemini chunk #${chunkCount}: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
+        yield text;
+      }
+    }
+
+    if (DEBUG) console.log(`✅ Gemini stream completed with ${chunkCount} chunks`);
+    this.reportUsage(usage, options);
+  }
+
+  private toGeminiHistory(history: MessageHistory[]): Content[] {
+    return history.map(msg => {
+      const parts: Part[] = (msg.attachments || []).map(attachment =>
+        attachment.type === 'image'
+          ? { inlineData: { data: attachment.base64, mimeType: attachment.mimeType } }
+          : { text: buildDocumentReference(attachment) }
+      );
+      parts.push({ text: msg.content });
+
+      return {
+        role: msg.role === 'user' ? 'user' : 'model',
+        parts,
+      };
+    });
+  }
+
+  async generateResponse(prompt: string, history: MessageHistory[] = [], options: GenerationOptions = {}): Promise<string> {
+    try {
+      const chat = this.getModel(options).startChat({
+        history: this.toGeminiHistory(history),
+      });
+
+      const result = await chat.sendMessage(prompt, { signal: options.signal });
+      this.reportUsage(result.response.usageMetadata, options);
+      return result.response.text();
+    } catch (error: any) {
+      console.error('Gemini API Error:', {
+        message: error.message,
+        status: error.status,
+      });
+      throw new Error(`Failed to generate AI response: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async *generateStreamingResponse(
+    prompt: string,
+    history: MessageHistory[] = [],
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      if (DEBUG) console.log(`🚀 Starting Gemini stream with ${history.length} history messages`);
+
+      const chat = this.getModel(options).startChat({
+        history: this.toGeminiHistory(history),
+      });
+
+      const result = await chat.sendMessageStream(prompt, { signal: options.signal });
+      yield* this.yieldChunks(result.stream, options);
+    } catch (error: any) {
+      console.error('Gemini Streaming Error:', {
+        message: error.message,
+        status: error.status,
+        statusText: error.statusText,
+      });
+      throw new Error(`Failed to stream AI response: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async generateWithImage(
+    prompt: string,
+    imageBase64: string,
+    mimeType: string,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    try {
+      const result = await this.visionModel(options).generateContent(
+        this.toImageParts(prompt, imageBase64, mimeType),
+        { signal: options.signal }
+      );
+      this.reportUsage(result.response.usageMetadata, options);
+      return result.response.text();
+    } catch (error: any) {
+      console.error('Gemini Vision Error:', {
+        message: error.message,
+        status: error.status,
+      });
+      throw new Error(`Failed to analyze image: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async *generateStreamingWithImage(
+    prompt: string,
+    imageBase64: string,
+    mimeType: string,
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      if (DEBUG) console.log(`🚀 Starting Gemini vision stream (${mimeType})`);
+
+      const result = await this.visionModel(options).generateContentStream(
+        this.toImageParts(prompt, imageBase64, mimeType),
+        { signal: options.signal }
+      );
+      yield* this.yieldChunks(result.stream, options);
+    } catch (error: any) {
+      console.error('Gemini Vision Streaming Error:', {
+        message: error.message,
+        status: error.status,
+      });
+      throw new Error(`Failed to analyze image: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async generateWithDocument(prompt: string, document: DocumentInput, options: GenerationOptions = {}): Promise<string> {
+    try {
+      if (DEBUG) console.log(`🤖 Starting document analysis for: ${document.fileName}`);
+
+      const result = await this.getModel(options).generateContent(
+        buildDocumentPrompt(prompt, document),
+        { signal: options.signal }
+      );
+      this.reportUsage(result.response.usageMetadata, options);
+      return result.response.text();
+    } catch (error: any) {
+      console.error('Gemini Document Analysis Error:', {
+        message: error.message,
+        fileName: document.fileName,
+      });
+      throw new Error(`Failed to analyze document: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async *generateStreamingWithDocument(
+    prompt: string,
+    document: DocumentInput,
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      if (DEBUG) console.log(`🚀 Starting Gemini document stream for: ${document.fileName}`);
+
+      const result = await this.getModel(options).generateContentStream(
+        buildDocumentPrompt(prompt, document),
+        { signal: options.signal }
+      );
+      yield* this.yieldChunks(result.stream, options);
+    } catch (error: any) {
+      console.error('Gemini Document Streaming Error:', {
+        message: error.message,
+        fileName: document.fileName,
+      });
+      throw new Error(`Failed to analyze document: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const embeddingModel = this.genAI.getGenerativeModel({ model: GEMINI_EMBEDDING_MODEL });
+      const embeddings: number[][] = [];
+
+      for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        const result = await embeddingModel.batchEmbedContents({
+          requests: texts.slice(i, i + EMBED_BATCH_SIZE).map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+          })),
+        });
+        embeddings.push(...result.embeddings.map(embedding => embedding.values));
+      }
+
+      return embeddings;
+    } catch (error: any) {
+      console.error('Gemini Embedding Error:', {
+        message: error.message,
+        status: error.status,
+      });
+      throw new Error(`Failed to embed text: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async verifyCredentials(): Promise<void> {
+    const response = await fetch(`${GEMINI_API_BASE_URL}/models?pageSize=1`, {
+      headers: { 'x-goog-api-key': this.apiKey },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini rejected the API key (HTTP ${response.status})`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { LLMProvider } from './types';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAIProvider } from './openai.provider';
+import { MockProvider } from './mock.provider';
+
+export * from './types';
+export * from './prompts';
+
+export const LLM_PROVIDER_NAMES = ['gemini', 'openai', 'mock'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number];
+
+// Providers that authenticate with an API key users can replace with their own
+export const API_KEY_PROVIDER_NAMES = ['gemini', 'openai'] as const;
+
+export type ApiKeyProviderName = typeof API_KEY_PROVIDER_NAMES[number];
+
+export interface LLMProviderConfig {
+  apiKey?: string; // User-supplied key instead of the deployment's shared one
+}
+
+const factories: Record<LLMProviderName, (config: LLMProviderConfig) => LLMProvider> = {
+  gemini: (config) => new GeminiProvider(config.apiKey),
+  openai: (config) => new OpenAIProvider(config.apiKey),
+  mock: () => new MockProvider(),
+};
+
+// Providers are created lazily so unused vendors don't need credentials
+const instances = new Map<LLMProviderName, LLMProvider>();
+
+export const isLLMProviderName = (name: unknown): name is LLMProviderName => {
+  return typeof name === 'string' && (LLM_PROVIDER_NAMES as readonly string[]).includes(name);
+};
+
+/**
+ * Provider name to use for a chat, falling back to the deployment default (LLM_PROVIDER env)
+ */
+export const resolveLLMProviderName = (name?: string | null): LLMProviderName => {
+  const envDefault = process.env.LLM_PROVIDER;
+  return isLLMProviderName(name)
+    ? name
+    : isLLMProviderName(envDefault)
+      ? envDefault
+      : 'gemini';
+};
+
+/**
+ * Resolve a provider by name. Shared-key instances are cached; user keys get a fresh instance.
+ */
+export const getLLMProvider = (name?: string | null, config: LLMProviderConfig = {}): LLMProvider => {
+  const resolved = resolveLLMProviderName(name);
+
+  if (config.apiKey) {
+    return factories[resolved](config);
+  }
+
+  let provider = instances.get(resolved);
+  if (!provider) {
+    provider = factories[resolved](config);
+    instances.set(resolved, provider);
+  }
+
+  return provider;
+};
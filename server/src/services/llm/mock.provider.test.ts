@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockProvider } from './mock.provider';
+import { getLLMProvider, isLLMProviderName } from './index';
+
+const collect = async (stream: AsyncGenerator<string, void, unknown>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  it('echoes the prompt and counts the history it was given', async () => {
+    const history = [
+      { role: 'user' as const, content: 'Hi' },
+      { role: 'assistant' as const, content: 'Hello' },
+    ];
+    const response = await provider.generateResponse('How are you?', history);
+
+    assert.ok(response.startsWith('Echo: How are you? ('));
+    assert.match(response, /\b2 history messages\b/);
+    assert.equal(await provider.generateResponse('How are you?', history), response);
+  });
+
+  it('streams the same response word by word', async () => {
+    const response = await provider.generateResponse('one two three');
+    const chunks = await collect(provider.generateStreamingResponse('one two three'));
+
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks.join(''), response);
+    chunks.slice(0, -1).forEach(chunk => assert.match(chunk, /\s$/));
+  });
+
+  it('describes images and documents without reading them', async () => {
+    const image = Buffer.from('not really a png').toString('base64');
+
+    assert.equal(
+      await provider.generateWithImage('What is this?', image, 'image/png'),
+      'Echo: What is this? [image image/png, 16 bytes]'
+    );
+    assert.equal(
+      await provider.generateWithDocument('Summarize', { fileName: 'notes.txt', text: 'Some notes' }),
+      'Echo: Summarize [document "notes.txt", 10 characters]'
+    );
+  });
+});
+
+describe('getLLMProvider', () => {
+  it('resolves providers by name and reuses each instance', () => {
+    const provider = getLLMProvider('mock');
+
+    assert.equal(provider.name, 'mock');
+    assert.equal(getLLMProvider('mock'), provider);
+  });
+
+  it('falls back to LLM_PROVIDER for unknown names', () => {
+    const previous = process.env.LLM_PROVIDER;
+    process.env.LLM_PROVIDER = 'mock';
+    try {
+      assert.equal(getLLMProvider('not-a-provider').name, 'mock');
+      assert.equal(getLLMProvider(null).name, 'mock');
+    } finally {
+      if (previous === undefined) delete process.env.LLM_PROVIDER;
+      else process.env.LLM_PROVIDER = previous;
+    }
+  });
+
+  it('knows which names are providers', () => {
+    assert.equal(isLLMProviderName('gemini'), true);
+    assert.equal(isLLMProviderName('openai'), true);
+    assert.equal(isLLMProviderName('mock'), true);
+    assert.equal(isLLMProviderName('claude'), false);
+    assert.equal(isLLMProviderName(undefined), false);
+  });
+});
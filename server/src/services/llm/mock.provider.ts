@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import type { DocumentInput, GenerationOptions, LLMProvider, MessageHistory } from './types';
+
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+// Optional pause between streamed words, handy for exercising the stop button locally
+const MOCK_STREAM_DELAY_MS = Number(process.env.MOCK_STREAM_DELAY_MS) || 0;
+
+/**
+ * Deterministic offline provider that echoes its input.
+ * Useful for local development and tests without network access or API keys.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  readonly embeddingModel = `mock/hashed-bow-${MOCK_EMBEDDING_DIMENSIONS}`;
+
+  async generateResponse(prompt: string, history: MessageHistory[] = [], options: GenerationOptions = {}): Promise<string> {
+    const attachments = history.reduce((count, msg) => count + (msg.attachments?.length ?? 0), 0);
+    const persona = options.systemPrompt ? ', with custom system prompt' : '';
+    const context = options.systemContext ? ', with system context' : '';
+    return `Echo: ${prompt} (${history.length} history messages, ${attachments} attachments${persona}${context})`;
+  }
+
+  async *generateStreamingResponse(
+    prompt: string,
+    history: MessageHistory[] = [],
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    yield* this.streamWords(await this.generateResponse(prompt, history, options), options.signal);
+  }
+
+  // Yield word by word so clients exercise the same streaming path as real providers
+  private async *streamWords(response: string, signal?: AbortSignal): AsyncGenerator<string, void, unknown> {
+    for (const word of response.split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      if (MOCK_STREAM_DELAY_MS) await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      yield word;
+    }
+  }
+
+  async generateWithImage(prompt: string, imageBase64: string, mimeType: string): Promise<string> {
+    const bytes = Buffer.from(imageBase64, 'base64').length;
+    return `Echo: ${prompt} [image ${mimeType}, ${bytes} bytes]`;
+  }
+
+  async *generateStreamingWithImage(
+    prompt: string,
+    imageBase64: string,
+    mimeType: string,
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    yield* this.streamWords(await this.generateWithImage(prompt, imageBase64, mimeType), options.signal);
+  }
+
+  async generateWithDocument(prompt: string, document: DocumentInput): Promise<string> {
+    return `Echo: ${prompt} [document "${document.fileName}", ${document.text.length} characters]`;
+  }
+
+  async *generateStreamingWithDocument(
+    prompt: string,
+    document: DocumentInput,
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    yield* this.streamWords(await this.generateWithDocument(prompt, document), options.signal);
+  }
+
+  // Hashed bag-of-words: texts sharing words get similar vectors, which is enough to exercise retrieval
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+
+      for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        const hash = createHash('md5').update(word).digest();
+        vector[hash.readUInt16BE(0) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+
+  // No credentials to check
+  async verifyCredentials(): Promise<void> {}
+}
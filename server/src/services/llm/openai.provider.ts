@@ -0,0 +1,274 @@
+import type { DocumentInput, GenerationOptions, LLMProvider, MessageHistory } from './types';
+import { buildDocumentPrompt, buildDocumentReference, buildSystemInstruction } from './prompts';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+/**
+ * Provider for any OpenAI-compatible `/chat/completions` endpoint
+ * (OpenAI, Azure OpenAI, OpenRouter, vLLM, Ollama, LM Studio, ...).
+ * Safety thresholds have no equivalent in this API and are ignored.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  private baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  private model = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  private embeddingModelName = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+
+  readonly embeddingModel = `openai/${this.embeddingModelName}`;
+
+  // Defaults to the shared deployment key; users can bring their own
+  constructor(private apiKey: string = process.env.OPENAI_API_KEY || '') {}
+
+  private buildMessages(
+    prompt: string | OpenAIContentPart[],
+    history: MessageHistory[] = [],
+    options: GenerationOptions = {}
+  ): OpenAIMessage[] {
+    return [
+      { role: 'system', content: buildSystemInstruction(options) },
+      ...history.map(msg => ({
+        role: msg.role === 'user' ? 'user' as const : 'assistant' as const,
+        content: msg.attachments?.length ? this.toHistoryContent(msg) : msg.content,
+      })),
+      { role: 'user', content: prompt },
+    ];
+  }
+
+  private toHistoryContent(msg: MessageHistory): OpenAIContentPart[] {
+    const parts: OpenAIContentPart[] = (msg.attachments || []).map(attachment =>
+      attachment.type === 'image'
+        ? { type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.base64}` } }
+        : { type: 'text', text: buildDocumentReference(attachment) }
+    );
+    parts.push({ type: 'text', text: msg.content });
+    return parts;
+  }
+
+  private async request(messages: OpenAIMessage[], stream: boolean, options: GenerationOptions) {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model || this.model,
+        messages,
+        temperature: options.temperature ?? 0.7,
+        top_p: 0.95,
+        ...(options.maxOutputTokens ? { max_tokens: options.maxOutputTokens } : {}),
+        stream,
+        // Streams only report token counts when asked, in a final chunk without choices
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}${body ? `: ${body.substring(0, 200)}` : ''}`);
+    }
+
+    return response;
+  }
+
+  private reportUsage(usage: OpenAIUsage | null | undefined, options: GenerationOptions) {
+    if (usage && options.onUsage) {
+      options.onUsage({
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+      });
+    }
+  }
+
+  private async complete(messages: OpenAIMessage[], options: GenerationOptions): Promise<string> {
+    const response = await this.request(messages, false, options);
+    const data = await response.json() as { choices?: { message?: { content?: string } }[]; usage?: OpenAIUsage };
+    this.reportUsage(data.usage, options);
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  private async *streamCompletion(messages: OpenAIMessage[], options: GenerationOptions): AsyncGenerator<string, void, unknown> {
+    const response = await this.request(messages, true, options);
+    if (!response.body) {
+      throw new Error('Empty response body');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage: OpenAIUsage | undefined;
+
+    // Server-sent events: each event is a `data: {...}` line, terminated by `data: [DONE]`
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') {
+          this.reportUsage(usage, options);
+          return;
+        }
+
+        const event = JSON.parse(payload) as { choices?: { delta?: { content?: string } }[]; usage?: OpenAIUsage | null };
+        usage = event.usage ?? usage;
+        const text = event.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+
+    // Some compatible servers end the stream without [DONE]
+    this.reportUsage(usage, options);
+  }
+
+  private toImageContent(prompt: string, imageBase64: string, mimeType: string): OpenAIContentPart[] {
+    return [
+      { type: 'text', text: prompt },
+      { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+    ];
+  }
+
+  async generateResponse(prompt: string, history: MessageHistory[] = [], options: GenerationOptions = {}): Promise<string> {
+    try {
+      return await this.complete(this.buildMessages(prompt, history, options), options);
+    } catch (error: any) {
+      console.error('OpenAI API Error:', { message: error.message });
+      throw new Error(`Failed to generate AI response: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async *generateStreamingResponse(
+    prompt: string,
+    history: MessageHistory[] = [],
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      if (DEBUG) console.log(`🚀 Starting OpenAI stream with ${history.length} history messages`);
+
+      yield* this.streamCompletion(this.buildMessages(prompt, history, options), options);
+    } catch (error: any) {
+      console.error('OpenAI Streaming Error:', { message: error.message });
+      throw new Error(`Failed to stream AI response: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async generateWithImage(
+    prompt: string,
+    imageBase64: string,
+    mimeType: string,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    try {
+      return await this.complete(
+        this.buildMessages(this.toImageContent(prompt, imageBase64, mimeType), [], options),
+        options
+      );
+    } catch (error: any) {
+      console.error('OpenAI Vision Error:', { message: error.message });
+      throw new Error(`Failed to analyze image: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async *generateStreamingWithImage(
+    prompt: string,
+    imageBase64: string,
+    mimeType: string,
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      yield* this.streamCompletion(
+        this.buildMessages(this.toImageContent(prompt, imageBase64, mimeType), [], options),
+        options
+      );
+    } catch (error: any) {
+      console.error('OpenAI Vision Streaming Error:', { message: error.message });
+      throw new Error(`Failed to analyze image: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async generateWithDocument(prompt: string, document: DocumentInput, options: GenerationOptions = {}): Promise<string> {
+    try {
+      return await this.complete(this.buildMessages(buildDocumentPrompt(prompt, document), [], options), options);
+    } catch (error: any) {
+      console.error('OpenAI Document Analysis Error:', {
+        message: error.message,
+        fileName: document.fileName,
+      });
+      throw new Error(`Failed to analyze document: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async *generateStreamingWithDocument(
+    prompt: string,
+    document: DocumentInput,
+    options: GenerationOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    try {
+      yield* this.streamCompletion(
+        this.buildMessages(buildDocumentPrompt(prompt, document), [], options),
+        options
+      );
+    } catch (error: any) {
+      console.error('OpenAI Document Streaming Error:', {
+        message: error.message,
+        fileName: document.fileName,
+      });
+      throw new Error(`Failed to analyze document: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.embeddingModelName, input: texts }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`HTTP ${response.status}${body ? `: ${body.substring(0, 200)}` : ''}`);
+      }
+
+      const data = await response.json() as { data: { index: number; embedding: number[] }[] };
+      return data.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    } catch (error: any) {
+      console.error('OpenAI Embedding Error:', { message: error.message });
+      throw new Error(`Failed to embed text: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  async verifyCredentials(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI rejected the API key (HTTP ${response.status})`);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import type { DocumentExcerpt, DocumentInput } from './types';
+
+export const BORZ_SYSTEM_INSTRUCTION =
+  'You are Borz, an AI assistant. Your name is Borz. When asked who you are or what your name is, always respond that you are Borz. Never refer to yourself as Gemini or any other name.';
+
+/**
+ * Combine the base instruction (Borz or the chat's persona) with per-request context
+ */
+export const buildSystemInstruction = (options: { systemPrompt?: string; systemContext?: string } = {}): string => {
+  const base = options.systemPrompt || BORZ_SYSTEM_INSTRUCTION;
+  return options.systemContext ? `${base}\n\n${options.systemContext}` : base;
+};
+
+/**
+ * Describe a document and its extracted text so it can be placed in a prompt or history turn
+ */
+export const buildDocumentContext = (document: DocumentInput): string => {
+  let context = `I have a document named "${document.fileName}"`;
+
+  if (document.pages) {
+    context += ` with ${document.pages} page(s)`;
+  }
+
+  context += `.\n\nDocument content:\n\n${document.text}\n\n---\n\n`;
+
+  if (document.pages) {
+    context += 'Cite page numbers when you refer to specific parts of the document.\n\n';
+  }
+
+  return context;
+};
+
+/**
+ * Build a context-aware prompt that embeds the extracted document text
+ */
+export const buildDocumentPrompt = (prompt: string, document: DocumentInput): string => {
+  let enhancedPrompt = buildDocumentContext(document);
+
+  if (prompt && prompt.trim()) {
+    enhancedPrompt += `User question: ${prompt}`;
+  } else {
+    enhancedPrompt += 'Please provide a comprehensive summary and analysis of this document.';
+  }
+
+  return enhancedPrompt;
+};
+
+/**
+ * Short marker for a document attached to an earlier turn
+ */
+export const buildDocumentReference = (document: { fileName: string; pages?: number }): string => {
+  return `[Attached document: "${document.fileName}"${document.pages ? `, ${document.pages} page(s)` : ''}]`;
+};
+
+/**
+ * Format retrieved excerpts so the model can quote them with page citations
+ */
+export const formatDocumentExcerpts = (excerpts: DocumentExcerpt[]): string => {
+  return excerpts
+    .map((excerpt, i) => {
+      const source = excerpt.page ? `"${excerpt.fileName}", page ${excerpt.page}` : `"${excerpt.fileName}"`;
+      return `[${i + 1}] ${source}:\n${excerpt.content}`;
+    })
+    .join('\n\n');
+};
+
+/**
+ * Prepend relevant document excerpts to a user prompt
+ */
+export const buildRetrievalPrompt = (prompt: string, excerpts: DocumentExcerpt[]): string => {
+  if (excerpts.length === 0) {
+    return prompt;
+  }
+
+  return `Relevant excerpts from documents uploaded in this conversation:\n\n${formatDocumentExcerpts(excerpts)}\n\n---\n\n` +
+    'When you rely on these excerpts, cite the document name and page number, e.g. (report.pdf, p. 3).\n\n' +
+    `User question: ${prompt}`;
+};
+
+/**
+ * Present the running summary of messages that are no longer in the history
+ */
+export const buildSummaryContext = (summary: string): string => {
+  return 'Earlier parts of this conversation are no longer shown. Summary of what was discussed so far:\n\n' +
+    `${summary}\n\nUse this summary to stay consistent with earlier decisions, but prefer the recent messages if they conflict.`;
+};
+
+/**
+ * Ask the model to fold new messages into an existing running summary
+ */
+export const buildSummaryPrompt = (previousSummary: string | null, transcript: string): string => {
+  let prompt = 'You maintain a running summary of a long conversation between a user and Borz, an AI assistant.\n\n';
+
+  if (previousSummary) {
+    prompt += `Current summary:\n\n${previousSummary}\n\n---\n\n`;
+  }
+
+  prompt += `New messages to fold into the summary:\n\n${transcript}\n\n---\n\n` +
+    'Write the updated summary. Keep decisions, requirements, names, facts about the user and open questions; ' +
+    'drop pleasantries. Use concise bullet points and stay under 400 words. Reply with the summary only.';
+
+  return prompt;
+};
@@ -0,0 +1,89 @@
+/**
+ * Shared types for LLM providers
+ */
+
+export interface DocumentInput {
+  fileName: string;
+  text: string;
+  pages?: number;
+}
+
+export interface DocumentExcerpt {
+  fileName: string;
+  page?: number | null;
+  content: string;
+}
+
+// Documents are referenced by name only; their content reaches the model through retrieved excerpts
+export type HistoryAttachment =
+  | { type: 'image'; mimeType: string; base64: string }
+  | { type: 'document'; fileName: string; pages?: number };
+
+export interface MessageHistory {
+  role: string;
+  content: string;
+  attachments?: HistoryAttachment[];
+}
+
+export const SAFETY_CATEGORIES = ['harassment', 'hateSpeech', 'sexuallyExplicit', 'dangerousContent'] as const;
+
+// Lowest harm probability that gets blocked; 'none' turns blocking off for the category
+export const SAFETY_THRESHOLDS = ['none', 'high', 'medium', 'low'] as const;
+
+export type SafetyCategory = typeof SAFETY_CATEGORIES[number];
+
+export type SafetyThreshold = typeof SAFETY_THRESHOLDS[number];
+
+export type SafetyThresholds = Partial<Record<SafetyCategory, SafetyThreshold>>;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface GenerationOptions {
+  systemPrompt?: string; // Replaces the default Borz instruction (e.g. the chat's persona)
+  systemContext?: string; // Extra instructions appended to the system prompt (e.g. a conversation summary)
+  temperature?: number; // Overrides the provider's default sampling temperature
+  maxOutputTokens?: number; // Caps the response length
+  model?: string; // Overrides the provider's configured model
+  safety?: SafetyThresholds; // Content filter levels, for providers that support them
+  signal?: AbortSignal; // Aborts the upstream request, e.g. when the user stops generation
+  onUsage?: (usage: TokenUsage) => void; // Called with the token counts, for providers that report them
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  readonly embeddingModel: string;
+
+  generateResponse(prompt: string, history?: MessageHistory[], options?: GenerationOptions): Promise<string>;
+
+  generateStreamingResponse(
+    prompt: string,
+    history?: MessageHistory[],
+    options?: GenerationOptions
+  ): AsyncGenerator<string, void, unknown>;
+
+  generateWithImage(prompt: string, imageBase64: string, mimeType: string, options?: GenerationOptions): Promise<string>;
+
+  generateStreamingWithImage(
+    prompt: string,
+    imageBase64: string,
+    mimeType: string,
+    options?: GenerationOptions
+  ): AsyncGenerator<string, void, unknown>;
+
+  generateWithDocument(prompt: string, document: DocumentInput, options?: GenerationOptions): Promise<string>;
+
+  generateStreamingWithDocument(
+    prompt: string,
+    document: DocumentInput,
+    options?: GenerationOptions
+  ): AsyncGenerator<string, void, unknown>;
+
+  embed(texts: string[]): Promise<number[][]>;
+
+  // Cheap authenticated request; throws if the API key is rejected
+  verifyCredentials(): Promise<void>;
+}
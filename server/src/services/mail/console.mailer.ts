@@ -0,0 +1,12 @@
+import type { Mailer, MailMessage } from './types';
+
+/**
+ * Mailer for local development: prints each email to the server log instead of sending it
+ */
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
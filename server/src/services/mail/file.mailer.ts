@@ -0,0 +1,21 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Mailer, MailMessage } from './types';
+
+/**
+ * Mailer for local development and scripts: writes each email as JSON to MAIL_OUTBOX_DIR
+ */
+export class FileMailer implements Mailer {
+  readonly name = 'file';
+
+  private root = path.resolve(process.env.MAIL_OUTBOX_DIR || './outbox');
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.root, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.root, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
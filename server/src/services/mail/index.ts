@@ -0,0 +1,38 @@
+import type { Mailer } from './types';
+import { SmtpMailer } from './smtp.mailer';
+import { ConsoleMailer } from './console.mailer';
+import { FileMailer } from './file.mailer';
+
+export * from './types';
+export * from './templates';
+
+const factories: Record<string, () => Mailer> = {
+  smtp: () => new SmtpMailer(),
+  console: () => new ConsoleMailer(),
+  file: () => new FileMailer(),
+};
+
+// Development transports keep emails on the server instead of delivering them, and their links carry live tokens
+const LOCAL_TRANSPORTS = new Set(['console', 'file']);
+
+const transport = process.env.MAIL_TRANSPORT || 'console';
+
+if (process.env.NODE_ENV === 'production' && LOCAL_TRANSPORTS.has(transport)) {
+  throw new Error('MAIL_TRANSPORT must be set to a transport that delivers email (smtp) in production');
+}
+
+let instance: Mailer | null = null;
+
+/**
+ * Get the deployment's mailer (MAIL_TRANSPORT env, defaults to the console)
+ */
+export const getMailer = (): Mailer => {
+  if (!instance) {
+    const factory = factories[transport];
+    if (!factory) {
+      throw new Error(`Unknown mail transport: ${process.env.MAIL_TRANSPORT}`);
+    }
+    instance = factory();
+  }
+  return instance;
+};
@@ -0,0 +1,34 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { Mailer, MailMessage } from './types';
+
+/**
+ * Mailer that delivers through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+ */
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+
+  private transporter: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST must be set to use the smtp mailer');
+    }
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465, // Other ports upgrade with STARTTLS
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: process.env.MAIL_FROM || 'Borz AI <no-reply@borz.ai>',
+      ...message,
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import type { MailMessage } from './types';
+
+/**
+ * Emails sent by the app, as plain text with a matching HTML body
+ */
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const layout = (paragraphs: string[], action: { label: string; url: string }) => `
+<div style="font-family: sans-serif; max-width: 480px; margin: 0 auto; color: #18181b;">
+  ${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n  ')}
+  <p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 12px 20px; background: #8b5cf6; color: #ffffff; border-radius: 8px; text-decoration: none;">${escapeHtml(action.label)}</a></p>
+</div>`;
+
+// Deep link into the app (APP_LINK_BASE env, defaults to the app's own scheme)
+export const appLink = (path: string, params: Record<string, string>) =>
+  `${process.env.APP_LINK_BASE || 'client://'}${path}?${new URLSearchParams(params).toString()}`;
+
+export const verificationEmail = (user: { name: string; email: string }, link: string): MailMessage => {
+  const intro = `Hi ${user.name}, confirm your email address to finish setting up your Borz AI account.`;
+  const outro = 'The link expires in 24 hours. If you did not create an account, you can ignore this email.';
+
+  return {
+    to: user.email,
+    subject: 'Verify your email for Borz AI',
+    text: `${intro}\n\nOpen this link on your phone: ${link}\n\n${outro}`,
+    html: layout([intro, outro], { label: 'Verify email', url: link }),
+  };
+};
+
+export const passwordResetEmail = (user: { name: string; email: string }, link: string): MailMessage => {
+  const intro = `Hi ${user.name}, we received a request to reset the password for your Borz AI account.`;
+  const outro = 'The link expires in 1 hour and signs you out on every device. If you did not ask for this, you can ignore this email; your password stays the same.';
+
+  return {
+    to: user.email,
+    subject: 'Reset your Borz AI password',
+    text: `${intro}\n\nOpen this link on your phone to choose a new password: ${link}\n\n${outro}`,
+    html: layout([intro, outro], { label: 'Reset password', url: link }),
+  };
+};
@@ -0,0 +1,16 @@
+/**
+ * Shared types for mail transports
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,139 @@
+import { db } from '../db';
+import { chats, messages } from '../db/schemas/chat.schema';
+import { and, asc, desc, eq, inArray, isNull, or, sql } from 'drizzle-orm';
+import type { MessageMetadata } from '../types/chat.types';
+
+// Length of the newest-message excerpt stored on the chat for the chat list
+const PREVIEW_CHARS = 200;
+
+/**
+ * Messages form a tree: each message points at the one it answers or follows (`parentId`),
+ * and siblings sharing a parent are alternative variants (regenerated answers, edited prompts).
+ * `chats.activeMessageId` is the leaf of the branch currently shown to the user.
+ */
+export class MessageService {
+  // Ids on the path ending at `fromMessageId` (default: the chat's active leaf), newest first
+  private static async getPathIds(chatId: string, fromMessageId?: string | null, limit?: number): Promise<string[]> {
+    const start = fromMessageId
+      ? sql`SELECT ${messages.id}, ${messages.parentId}, 1 AS depth FROM ${messages} WHERE ${messages.id} = ${fromMessageId} AND ${messages.chatId} = ${chatId}`
+      : sql`SELECT ${messages.id}, ${messages.parentId}, 1 AS depth FROM ${messages} JOIN ${chats} ON ${chats.activeMessageId} = ${messages.id} WHERE ${chats.id} = ${chatId}`;
+
+    const result = await db.execute<{ id: string }>(sql`
+      WITH RECURSIVE path AS (
+        ${start}
+        UNION ALL
+        SELECT m.id, m.parent_id, path.depth + 1
+        FROM ${messages} m
+        JOIN path ON m.id = path.parent_id
+        ${limit ? sql`WHERE path.depth < ${limit}` : sql``}
+      )
+      SELECT id FROM path ORDER BY depth
+    `);
+
+    return result.rows.map(row => row.id);
+  }
+
+  // Messages on a branch in chronological order, optionally only the most recent `limit`
+  static async getPath(chatId: string, options: { fromMessageId?: string | null; limit?: number } = {}) {
+    const ids = await MessageService.getPathIds(chatId, options.fromMessageId, options.limit);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(inArray(messages.id, ids));
+
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return ids.reverse().flatMap(id => byId.get(id) ?? []);
+  }
+
+  // Variant ids for each message on a branch (the message itself included), oldest first
+  static async getSiblingIds(chatId: string, path: { id: string; parentId: string | null }[]): Promise<Map<string, string[]>> {
+    const parentIds = [...new Set(path.map(msg => msg.parentId).filter((id): id is string => id !== null))];
+    const hasRoot = path.some(msg => msg.parentId === null);
+
+    const siblings = await db
+      .select({ id: messages.id, parentId: messages.parentId })
+      .from(messages)
+      .where(and(
+        eq(messages.chatId, chatId),
+        or(
+          parentIds.length > 0 ? inArray(messages.parentId, parentIds) : undefined,
+          hasRoot ? isNull(messages.parentId) : undefined
+        )
+      ))
+      .orderBy(asc(messages.createdAt));
+
+    const byParent = new Map<string | null, string[]>();
+    for (const sibling of siblings) {
+      byParent.set(sibling.parentId, [...(byParent.get(sibling.parentId) || []), sibling.id]);
+    }
+
+    return new Map(path.map(msg => [msg.id, byParent.get(msg.parentId) || [msg.id]]));
+  }
+
+  // Insert a message under `parentId`, make it the chat's active leaf and update the chat's count and preview
+  static async append(
+    chatId: string,
+    values: { role: 'user' | 'assistant'; content: string; parentId: string | null; metadata?: MessageMetadata }
+  ) {
+    // The chat's active leaf, count and preview must never disagree with its messages
+    return db.transaction(async (tx) => {
+      const [message] = await tx
+        .insert(messages)
+        .values({ chatId, ...values })
+        .returning();
+
+      await tx
+        .update(chats)
+        .set({
+          activeMessageId: message.id,
+          messageCount: sql`${chats.messageCount} + 1`,
+          lastMessagePreview: values.content.slice(0, PREVIEW_CHARS),
+          updatedAt: new Date(),
+        })
+        .where(eq(chats.id, chatId));
+
+      return message;
+    });
+  }
+
+  // Show the branch through `messageId`, continuing down its most recent descendants
+  static async activate(chatId: string, messageId: string) {
+    const [message] = await db
+      .select({ id: messages.id, createdAt: messages.createdAt })
+      .from(messages)
+      .where(and(eq(messages.id, messageId), eq(messages.chatId, chatId)));
+
+    if (!message) {
+      return null;
+    }
+
+    // Walk down one newest child per level in a single query; the deepest row is the leaf
+    const result = await db.execute<{ id: string }>(sql`
+      WITH RECURSIVE descent AS (
+        SELECT ${message.id}::uuid AS id, 1 AS depth
+        UNION ALL
+        SELECT child.id, descent.depth + 1
+        FROM descent
+        CROSS JOIN LATERAL (
+          SELECT m.id FROM ${messages} m
+          WHERE m.parent_id = descent.id
+          ORDER BY m.created_at DESC
+          LIMIT 1
+        ) child
+      )
+      SELECT id FROM descent ORDER BY depth DESC LIMIT 1
+    `);
+    const leafId = result.rows[0]?.id ?? message.id;
+
+    await db
+      .update(chats)
+      .set({ activeMessageId: leafId })
+      .where(eq(chats.id, chatId));
+
+    return message;
+  }
+}
@@ -0,0 +1,261 @@
+import { randomBytes } from 'crypto';
+import { db } from '../db';
+import { users, userIdentities, oauthLoginCodes } from '../db/schemas/auth.schema';
+import { and, eq, gt } from 'drizzle-orm';
+import { generateOAuthStateToken, verifyOAuthStateToken } from '../utils/auth/jwt';
+import { hashToken } from '../utils/auth/tokens';
+import { SessionService, type SessionClient } from './session.service';
+import { TwoFactorService } from './two-factor.service';
+import { getOAuthProvider, getOAuthProviders, type OAuthProfile } from './oauth';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+// The login code only has to survive the redirect back into the app
+const LOGIN_CODE_TTL_MS = 2 * 60 * 1000;
+
+// Deep links the result may be sent to: the app's scheme, plus any extra prefixes
+// (OAUTH_REDIRECT_PREFIXES, comma-separated, e.g. `exp://` for Expo Go during development)
+const ALLOWED_REDIRECT_PREFIXES = [process.env.APP_LINK_BASE || 'client://']
+  .concat((process.env.OAUTH_REDIRECT_PREFIXES || '').split(',').map(s => s.trim()))
+  .filter(Boolean);
+
+const withParams = (url: string, params: Record<string, string>) =>
+  `${url}${url.includes('?') ? '&' : '?'}${new URLSearchParams(params).toString()}`;
+
+export class OAuthService {
+  // Providers to show on the sign-in screen
+  static getProviders() {
+    return {
+      providers: getOAuthProviders().map(provider => ({ name: provider.name, label: provider.label })),
+    };
+  }
+
+  /**
+   * URL that starts the provider's consent screen.
+   * With `linkUserId` the provider is connected to that user instead of signing in.
+   */
+  static async getAuthorizationUrl(
+    providerName: string,
+    { redirectUri, callbackUrl, linkUserId }: { redirectUri: string; callbackUrl: string; linkUserId?: string }
+  ) {
+    const provider = getOAuthProvider(providerName);
+
+    if (!ALLOWED_REDIRECT_PREFIXES.some(prefix => redirectUri.startsWith(prefix))) {
+      throw new Error('Redirect URI is not allowed');
+    }
+
+    const state = generateOAuthStateToken({ provider: provider.name, redirectUri, linkUserId });
+    return { url: await provider.getAuthorizationUrl({ redirectUri: callbackUrl, state }) };
+  }
+
+  /**
+   * Finish the provider redirect and return the app deep link to send the browser to:
+   * `?code=` to sign in, `?linked=` after connecting an account, or `?error=`
+   */
+  static async handleCallback(
+    providerName: string,
+    { code, state, error, callbackUrl }: { code?: string; state?: string; error?: string; callbackUrl: string }
+  ): Promise<string> {
+    const decoded = state ? verifyOAuthStateToken(state) : null;
+    if (!decoded || decoded.provider !== providerName) {
+      // Without valid state there is no trusted place to redirect to
+      throw new Error('Invalid or expired sign-in request');
+    }
+
+    if (error || !code) {
+      return withParams(decoded.redirectUri, { error: error === 'access_denied' ? 'Sign-in was cancelled' : 'Sign-in failed' });
+    }
+
+    try {
+      const provider = getOAuthProvider(providerName);
+      const profile = await provider.getProfile({ code, redirectUri: callbackUrl });
+
+      if (decoded.linkUserId) {
+        await OAuthService.linkIdentity(decoded.linkUserId, provider.name, profile);
+        return withParams(decoded.redirectUri, { linked: provider.name });
+      }
+
+      const userId = await OAuthService.findOrCreateUser(provider.name, profile);
+      return withParams(decoded.redirectUri, { code: await OAuthService.createLoginCode(userId) });
+    } catch (err) {
+      console.error(`❌ OAuth callback failed for ${providerName}:`, err);
+      return withParams(decoded.redirectUri, { error: err instanceof Error ? err.message : 'Sign-in failed' });
+    }
+  }
+
+  /**
+   * Trade a login code from the redirect for a session
+   */
+  static async exchangeCode(code: string, client: SessionClient = {}) {
+    // Deleting the row claims the code, so it can only be redeemed once
+    const [claimed] = await db
+      .delete(oauthLoginCodes)
+      .where(and(eq(oauthLoginCodes.codeHash, hashToken(code)), gt(oauthLoginCodes.expiresAt, new Date())))
+      .returning({ userId: oauthLoginCodes.userId });
+
+    if (!claimed) {
+      throw new Error('Invalid or expired sign-in code');
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, claimed.userId));
+    if (!user) {
+      throw new Error('Invalid or expired sign-in code');
+    }
+
+    // The provider stands in for the password only; 2FA still applies
+    if (await TwoFactorService.isEnabled(user.id)) {
+      return TwoFactorService.createChallenge(user.id);
+    }
+
+    const { token, refreshToken } = await SessionService.create(user, client);
+
+    return {
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        isVerified: user.isVerified,
+        hasPassword: user.password !== null,
+      },
+      token,
+      refreshToken,
+    };
+  }
+
+  // Accounts connected to a user
+  static async getIdentities(userId: string) {
+    const identities = await db
+      .select({
+        provider: userIdentities.provider,
+        email: userIdentities.email,
+        createdAt: userIdentities.createdAt,
+      })
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId));
+
+    return { identities };
+  }
+
+  // Disconnect a provider, as long as the user keeps another way to sign in
+  static async unlink(userId: string, providerName: string) {
+    const [user] = await db.select({ password: users.password }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const identities = await db
+      .select({ provider: userIdentities.provider })
+      .from(userIdentities)
+      .where(eq(userIdentities.userId, userId));
+
+    if (!identities.some(identity => identity.provider === providerName)) {
+      throw new Error('Account not connected');
+    }
+    if (user.password === null && identities.length === 1) {
+      throw new Error('Set a password before disconnecting your only sign-in method');
+    }
+
+    await db
+      .delete(userIdentities)
+      .where(and(eq(userIdentities.userId, userId), eq(userIdentities.provider, providerName)));
+
+    return { success: true };
+  }
+
+  private static async createLoginCode(userId: string) {
+    const code = randomBytes(32).toString('base64url');
+
+    await db.insert(oauthLoginCodes).values({
+      userId,
+      codeHash: hashToken(code),
+      expiresAt: new Date(Date.now() + LOGIN_CODE_TTL_MS),
+    });
+
+    return code;
+  }
+
+  private static async linkIdentity(userId: string, provider: string, profile: OAuthProfile) {
+    const [existing] = await db
+      .select({ userId: userIdentities.userId })
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.providerUserId, profile.id)));
+
+    if (existing && existing.userId !== userId) {
+      throw new Error('This account is already connected to another user');
+    }
+    if (existing) {
+      return;
+    }
+
+    await db
+      .insert(userIdentities)
+      .values({ userId, provider, providerUserId: profile.id, email: profile.email })
+      .onConflictDoUpdate({
+        // Connecting a different account of the same provider replaces the old one
+        target: [userIdentities.userId, userIdentities.provider],
+        set: { providerUserId: profile.id, email: profile.email },
+      });
+
+    if (DEBUG) console.log(`🔗 Linked ${provider} account to user ${userId}`);
+  }
+
+  /**
+   * User for a provider account: the one it is linked to, an existing user with the
+   * same verified email, or a new passwordless user
+   */
+  private static async findOrCreateUser(provider: string, profile: OAuthProfile): Promise<string> {
+    const [linked] = await db
+      .select({ userId: userIdentities.userId })
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.providerUserId, profile.id)));
+
+    if (linked) {
+      return linked.userId;
+    }
+
+    if (!profile.email) {
+      throw new Error('Your account has no email address we can use');
+    }
+    const email = profile.email.trim().toLowerCase();
+
+    const [existingUser] = await db
+      .select({ id: users.id, isVerified: users.isVerified })
+      .from(users)
+      .where(eq(users.email, email));
+
+    if (existingUser) {
+      // Link only when both sides proved they own the address. An unverified account may have been
+      // registered by someone else, who could keep signing in with its password after the link.
+      if (!profile.emailVerified || !existingUser.isVerified) {
+        throw new Error('An account with this email already exists. Sign in with your password (or reset it) and connect this provider from Settings');
+      }
+
+      await OAuthService.linkIdentity(existingUser.id, provider, profile);
+      return existingUser.id;
+    }
+
+    const userId = await db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values({
+          name: profile.name || email.split('@')[0],
+          email,
+          password: null,
+          isVerified: profile.emailVerified,
+        })
+        .returning({ id: users.id });
+
+      await tx.insert(userIdentities).values({
+        userId: user.id,
+        provider,
+        providerUserId: profile.id,
+        email: profile.email,
+      });
+
+      return user.id;
+    });
+
+    if (DEBUG) console.log(`👤 Created user ${userId} from ${provider} sign-in`);
+    return userId;
+  }
+}
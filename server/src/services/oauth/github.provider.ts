@@ -0,0 +1,77 @@
+import type { OAuthProfile, OAuthProvider } from './types';
+
+const GITHUB_AUTHORIZE_URL = 'https://github.com/login/oauth/authorize';
+const GITHUB_TOKEN_URL = 'https://github.com/login/oauth/access_token';
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * GitHub OAuth app (GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET).
+ * GitHub isn't an OIDC issuer, so the profile is read from its REST API.
+ */
+export class GitHubProvider implements OAuthProvider {
+  readonly name = 'github';
+
+  readonly label = 'GitHub';
+
+  constructor(private clientId: string, private clientSecret: string) {}
+
+  async getAuthorizationUrl({ redirectUri, state }: { redirectUri: string; state: string }): Promise<string> {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      scope: 'read:user user:email',
+      state,
+      allow_signup: 'true',
+    });
+    return `${GITHUB_AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  private async api<T>(path: string, accessToken: string): Promise<T> {
+    const response = await fetch(`${GITHUB_API_URL}${path}`, {
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to read your GitHub account (HTTP ${response.status})`);
+    }
+    return await response.json() as T;
+  }
+
+  async getProfile({ code, redirectUri }: { code: string; redirectUri: string }): Promise<OAuthProfile> {
+    const tokenResponse = await fetch(GITHUB_TOKEN_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        code,
+        redirect_uri: redirectUri,
+      }),
+    });
+    // GitHub reports a bad code with HTTP 200 and an `error` field
+    const token = await tokenResponse.json().catch(() => ({})) as { access_token?: string; error?: string };
+    if (!tokenResponse.ok || !token.access_token) {
+      throw new Error(`GitHub rejected the sign-in (${token.error || `HTTP ${tokenResponse.status}`})`);
+    }
+
+    const [user, emails] = await Promise.all([
+      this.api<{ id: number; login: string; name: string | null }>('/user', token.access_token),
+      this.api<{ email: string; primary: boolean; verified: boolean }[]>('/user/emails', token.access_token),
+    ]);
+
+    // The public profile email may be hidden, so use the primary address from the emails list
+    const primary = emails.find(email => email.primary) ?? emails.find(email => email.verified);
+
+    return {
+      id: String(user.id),
+      email: primary?.email ?? null,
+      emailVerified: primary?.verified ?? false,
+      name: user.name || user.login,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import type { OAuthProvider } from './types';
+import { OidcProvider } from './oidc.provider';
+import { GitHubProvider } from './github.provider';
+
+export * from './types';
+
+export const OAUTH_PROVIDER_NAMES = ['google', 'github'] as const;
+
+export type OAuthProviderName = typeof OAUTH_PROVIDER_NAMES[number];
+
+// A provider is offered once its client credentials are set; null = not configured
+const factories: Record<OAuthProviderName, () => OAuthProvider | null> = {
+  // GOOGLE_ISSUER can point at a local mock OIDC server for development
+  google: () => process.env.GOOGLE_CLIENT_ID
+    ? new OidcProvider('google', 'Google', {
+        issuer: process.env.GOOGLE_ISSUER || 'https://accounts.google.com',
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+      })
+    : null,
+  github: () => process.env.GITHUB_CLIENT_ID
+    ? new GitHubProvider(process.env.GITHUB_CLIENT_ID, process.env.GITHUB_CLIENT_SECRET || '')
+    : null,
+};
+
+const instances = new Map<OAuthProviderName, OAuthProvider | null>();
+
+const isOAuthProviderName = (name: string): name is OAuthProviderName => {
+  return (OAUTH_PROVIDER_NAMES as readonly string[]).includes(name);
+};
+
+const resolve = (name: OAuthProviderName): OAuthProvider | null => {
+  if (!instances.has(name)) {
+    instances.set(name, factories[name]());
+  }
+  return instances.get(name) ?? null;
+};
+
+/**
+ * Get a configured sign-in provider by name
+ */
+export const getOAuthProvider = (name: string): OAuthProvider => {
+  const provider = isOAuthProviderName(name) ? resolve(name) : null;
+  if (!provider) {
+    throw new Error(`Unknown sign-in provider: ${name}`);
+  }
+  return provider;
+};
+
+/**
+ * Sign-in providers this deployment has credentials for
+ */
+export const getOAuthProviders = (): OAuthProvider[] => {
+  return OAUTH_PROVIDER_NAMES
+    .map(resolve)
+    .filter((provider): provider is OAuthProvider => provider !== null);
+};
@@ -0,0 +1,23 @@
+/**
+ * Shared types for OAuth sign-in providers
+ */
+
+// What the app needs from the provider's account to find or create a user
+export interface OAuthProfile {
+  id: string; // Stable account id at the provider
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+export interface OAuthProvider {
+  readonly name: string;
+
+  readonly label: string; // Shown on the sign-in button
+
+  // Where to send the browser; the provider redirects back to `redirectUri` with a code and the state
+  getAuthorizationUrl(params: { redirectUri: string; state: string }): Promise<string>;
+
+  // Trade the authorization code for an access token and read the account it belongs to
+  getProfile(params: { code: string; redirectUri: string }): Promise<OAuthProfile>;
+}
@@ -0,0 +1,100 @@
+import { db } from '../db';
+import { personas } from '../db/schemas/persona.schema';
+import { and, asc, eq } from 'drizzle-orm';
+import type { GenerationOptions } from './llm';
+
+type PersonaInput = {
+  name: string;
+  systemPrompt: string;
+  temperature?: number | null;
+  model?: string | null;
+};
+
+export class PersonaService {
+  // Get all personas for a user
+  static async getUserPersonas(userId: string) {
+    const userPersonas = await db
+      .select()
+      .from(personas)
+      .where(eq(personas.userId, userId))
+      .orderBy(asc(personas.createdAt));
+
+    return { personas: userPersonas };
+  }
+
+  // Get a persona owned by the user
+  static async getPersona(personaId: string, userId: string) {
+    const [persona] = await db
+      .select()
+      .from(personas)
+      .where(and(eq(personas.id, personaId), eq(personas.userId, userId)));
+
+    if (!persona) {
+      throw new Error('Persona not found');
+    }
+
+    return persona;
+  }
+
+  // Create new persona
+  static async createPersona(userId: string, input: PersonaInput) {
+    const [persona] = await db
+      .insert(personas)
+      .values({ userId, ...input })
+      .returning();
+
+    return { persona };
+  }
+
+  // Update persona (name, prompt, temperature, model)
+  static async updatePersona(personaId: string, userId: string, updates: Partial<PersonaInput>) {
+    const [persona] = await db
+      .update(personas)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(personas.id, personaId), eq(personas.userId, userId)))
+      .returning();
+
+    if (!persona) {
+      throw new Error('Persona not found');
+    }
+
+    return { persona };
+  }
+
+  // Delete persona; chats using it fall back to the default persona
+  static async deletePersona(personaId: string, userId: string) {
+    const [deleted] = await db
+      .delete(personas)
+      .where(and(eq(personas.id, personaId), eq(personas.userId, userId)))
+      .returning({ id: personas.id });
+
+    if (!deleted) {
+      throw new Error('Persona not found');
+    }
+
+    return { success: true };
+  }
+
+  // Generation settings for a chat's persona; empty when the chat uses the default
+  static async getGenerationOptions(personaId: string | null): Promise<GenerationOptions> {
+    if (!personaId) {
+      return {};
+    }
+
+    const [persona] = await db
+      .select()
+      .from(personas)
+      .where(eq(personas.id, personaId));
+
+    if (!persona) {
+      return {};
+    }
+
+    // Unset fields are left out so they don't override the user's settings
+    const options: GenerationOptions = { systemPrompt: persona.systemPrompt };
+    if (persona.temperature !== null) options.temperature = persona.temperature;
+    if (persona.model) options.model = persona.model;
+
+    return options;
+  }
+}
@@ -0,0 +1,96 @@
+import type { RateLimitStore } from './types';
+import { MemoryRateLimitStore } from './memory.store';
+
+export * from './types';
+
+const factories: Record<string, () => RateLimitStore> = {
+  memory: () => new MemoryRateLimitStore(),
+};
+
+let instance: RateLimitStore | null = null;
+
+/**
+ * Get the deployment's rate limit store (RATE_LIMIT_STORE env, defaults to memory)
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!instance) {
+    const factory = factories[process.env.RATE_LIMIT_STORE || 'memory'];
+    if (!factory) {
+      throw new Error(`Unknown rate limit store: ${process.env.RATE_LIMIT_STORE}`);
+    }
+    instance = factory();
+  }
+  return instance;
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * A named budget of `limit` hits per `windowMs`, counted separately for each key (IP, user id...)
+ */
+export class RateLimiter {
+  constructor(
+    readonly name: string,
+    readonly limit: number,
+    readonly windowMs: number
+  ) {}
+
+  async consume(key: string): Promise<RateLimitResult> {
+    const { count, resetAt } = await getRateLimitStore().hit(`${this.name}:${key}`, this.windowMs);
+    const allowed = count <= this.limit;
+
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: Math.max(0, this.limit - count),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+    };
+  }
+
+  /**
+   * Start the key's budget over, e.g. after a successful sign-in so only failures add up
+   */
+  async reset(key: string): Promise<void> {
+    await getRateLimitStore().reset(`${this.name}:${key}`);
+  }
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * The app's limits. Unauthenticated routes and socket handshakes are limited per client IP,
+ * signed-in actions and generations per user. Sign-in attempts are also limited per account,
+ * so spreading them over many IPs doesn't help.
+ */
+export const rateLimiters = {
+  login: new RateLimiter('login', 10, 15 * MINUTE),
+  loginAccount: new RateLimiter('login-account', 10, 15 * MINUTE), // Per normalized email
+  passwordAttempt: new RateLimiter('password-attempt', 10, 15 * MINUTE), // Signed-in actions that check the password
+  signup: new RateLimiter('signup', 5, 60 * MINUTE),
+  passwordReset: new RateLimiter('password-reset', 5, 60 * MINUTE),
+  passwordResetAccount: new RateLimiter('password-reset-account', 3, 60 * MINUTE), // Per normalized email
+  refresh: new RateLimiter('refresh', 30, MINUTE),
+  passwordCheck: new RateLimiter('password-check', 60, MINUTE),
+  twoFactor: new RateLimiter('two-factor', 5, 15 * MINUTE), // Code attempts per account, on top of the IP limit
+  messages: new RateLimiter('messages', 20, MINUTE),
+  semanticSearch: new RateLimiter('semantic-search', 30, MINUTE), // Each search embeds the query and scores stored vectors
+  socketConnection: new RateLimiter('socket-connection', 30, MINUTE),
+};
+
+export const rateLimitMessage = (retryAfterSeconds: number) =>
+  `Too many requests. Please try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.`;
+
+/**
+ * Thrown by services that apply their own limits; routes answer it with `rateLimitExceeded`
+ */
+export class RateLimitError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super(rateLimitMessage(retryAfterSeconds));
+    this.name = 'RateLimitError';
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryRateLimitStore } from './memory.store';
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('counts hits within a window', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 1_000 });
+    const store = new MemoryRateLimitStore();
+
+    assert.deepEqual(await store.hit('login:1.2.3.4', 60_000), { count: 1, resetAt: 61_000 });
+    assert.deepEqual(await store.hit('login:1.2.3.4', 60_000), { count: 2, resetAt: 61_000 });
+
+    mock.timers.tick(30_000);
+    assert.deepEqual(await store.hit('login:1.2.3.4', 60_000), { count: 3, resetAt: 61_000 });
+  });
+
+  it('starts a new window once the old one ends', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 1_000 });
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('login:1.2.3.4', 60_000);
+    await store.hit('login:1.2.3.4', 60_000);
+
+    mock.timers.tick(60_000);
+    assert.deepEqual(await store.hit('login:1.2.3.4', 60_000), { count: 1, resetAt: 121_000 });
+  });
+
+  it('keeps keys apart', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('login:1.2.3.4', 60_000);
+    assert.equal((await store.hit('login:5.6.7.8', 60_000)).count, 1);
+    assert.equal((await store.hit('signup:1.2.3.4', 60_000)).count, 1);
+  });
+
+  it('forgets a key on reset', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('login-account:ada@example.com', 60_000);
+    await store.hit('login-account:ada@example.com', 60_000);
+    await store.reset('login-account:ada@example.com');
+
+    assert.equal((await store.hit('login-account:ada@example.com', 60_000)).count, 1);
+  });
+
+  it('returns copies, so callers cannot change the stored window', async () => {
+    const store = new MemoryRateLimitStore();
+
+    const first = await store.hit('login:1.2.3.4', 60_000);
+    first.count = 100;
+
+    assert.equal((await store.hit('login:1.2.3.4', 60_000)).count, 2);
+  });
+});
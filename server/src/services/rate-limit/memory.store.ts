@@ -0,0 +1,42 @@
+import type { RateLimitHit, RateLimitStore } from './types';
+
+// How often expired windows are swept out of memory
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Rate limit store kept in process memory; counts are per server instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+
+  private windows = new Map<string, RateLimitHit>();
+
+  constructor() {
+    const sweep = setInterval(() => {
+      const now = Date.now();
+      for (const [key, window] of this.windows) {
+        if (window.resetAt <= now) this.windows.delete(key);
+      }
+    }, SWEEP_INTERVAL_MS);
+    // Don't keep the process alive just for the sweep
+    sweep.unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+
+    if (!current || current.resetAt <= now) {
+      const window = { count: 1, resetAt: now + windowMs };
+      this.windows.set(key, window);
+      return { ...window };
+    }
+
+    current.count++;
+    return { ...current };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Shared types for rate limit stores
+ */
+
+export interface RateLimitHit {
+  count: number; // Hits in the current window, including this one
+  resetAt: number; // Epoch ms when the window ends
+}
+
+/**
+ * Fixed-window counter store. `hit` maps onto Redis INCR + PEXPIRE NX + PTTL,
+ * so a shared store can replace the in-memory one when running several servers.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+
+  // Forget the key's window (Redis DEL)
+  reset(key: string): Promise<void>;
+}
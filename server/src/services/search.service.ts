@@ -0,0 +1,211 @@
+import { db } from '../db';
+import { chats, messages, messageEmbeddings } from '../db/schemas/chat.schema';
+import { and, desc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { getLLMProvider } from './llm';
+import { cosineSimilarity } from '../utils/embeddings';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+// Semantic matches scoring below this are left out
+const SEMANTIC_MIN_SCORE = Number(process.env.SEMANTIC_SEARCH_MIN_SCORE) || 0.2;
+
+// Only the start of very long messages is embedded
+const EMBED_CHAR_LIMIT = 8000;
+
+// Length of the excerpt returned with semantic matches
+const SEMANTIC_SNIPPET_CHARS = 300;
+
+// Most recent embeddings scored per semantic search; older messages are not searched
+const SEMANTIC_CANDIDATE_LIMIT = Number(process.env.SEMANTIC_SEARCH_CANDIDATES) || 2000;
+
+/**
+ * Provider for message embeddings. One deployment-wide provider keeps every user's vectors comparable;
+ * EMBEDDING_PROVIDER=mock uses the local stand-in, which works offline (defaults to LLM_PROVIDER).
+ */
+const getEmbeddingProvider = () => getLLMProvider(process.env.EMBEDDING_PROVIDER);
+
+// Must match the expression of idx_messages_content_search, or the index isn't used
+const searchDocument = sql`to_tsvector('english', ${messages.content})`;
+
+// Private-use characters mark matches in ts_headline output; they are stripped into offsets below
+const MARK_START = '\uE000';
+const MARK_END = '\uE001';
+
+const HEADLINE_OPTIONS = [
+  `StartSel=${MARK_START}`,
+  `StopSel=${MARK_END}`,
+  'MinWords=12',
+  'MaxWords=30',
+  'MaxFragments=2',
+  'FragmentDelimiter=" … "',
+].join(', ');
+
+export interface SearchHighlight {
+  start: number; // UTF-16 offset into the snippet, as used by JavaScript strings
+  length: number;
+}
+
+// Turn a marked-up headline into plain text plus the positions of the matched words
+const parseHeadline = (headline: string): { snippet: string; highlights: SearchHighlight[] } => {
+  const highlights: SearchHighlight[] = [];
+  let snippet = '';
+  let start = -1;
+
+  for (const char of headline) {
+    if (char === MARK_START) {
+      start = snippet.length;
+    } else if (char === MARK_END) {
+      if (start >= 0 && snippet.length > start) {
+        highlights.push({ start, length: snippet.length - start });
+      }
+      start = -1;
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+};
+
+export class SearchService {
+  /**
+   * Full-text search over the user's messages, best matches first.
+   * Accepts web-search syntax: "quoted phrases", OR, and -excluded words.
+   */
+  static async searchMessages(userId: string, query: string, { limit = 20 }: { limit?: number } = {}) {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const rank = sql<number>`ts_rank(${searchDocument}, ${tsQuery})`;
+
+    const rows = await db
+      .select({
+        messageId: messages.id,
+        chatId: messages.chatId,
+        chatTitle: chats.title,
+        role: messages.role,
+        createdAt: messages.createdAt,
+        rank,
+        // Content stripped of the marker characters, so user text can't fake a highlight
+        headline: sql<string>`ts_headline('english', translate(${messages.content}, ${MARK_START + MARK_END}, ''), ${tsQuery}, ${HEADLINE_OPTIONS})`,
+      })
+      .from(messages)
+      .innerJoin(chats, eq(chats.id, messages.chatId))
+      .where(and(eq(chats.userId, userId), sql`${searchDocument} @@ ${tsQuery}`))
+      .orderBy(desc(rank), desc(messages.createdAt))
+      .limit(limit);
+
+    return {
+      results: rows.map(({ headline, ...row }) => ({
+        ...row,
+        ...parseHeadline(headline),
+      })),
+    };
+  }
+
+  /**
+   * Embed messages for semantic search, skipping ones already indexed.
+   * Called in the background after each exchange is saved.
+   */
+  static async indexMessages(messageIds: string[]): Promise<number> {
+    if (messageIds.length === 0) {
+      return 0;
+    }
+
+    const pending = await db
+      .select({
+        messageId: messages.id,
+        chatId: messages.chatId,
+        userId: chats.userId,
+        content: messages.content,
+      })
+      .from(messages)
+      .innerJoin(chats, eq(chats.id, messages.chatId))
+      .leftJoin(messageEmbeddings, eq(messageEmbeddings.messageId, messages.id))
+      .where(and(inArray(messages.id, messageIds), isNull(messageEmbeddings.messageId)))
+      .then(rows => rows.filter(row => row.userId && row.content.trim()));
+
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    const provider = getEmbeddingProvider();
+    const embeddings = await provider.embed(pending.map(row => row.content.slice(0, EMBED_CHAR_LIMIT)));
+
+    await db
+      .insert(messageEmbeddings)
+      .values(pending.map((row, i) => ({
+        messageId: row.messageId,
+        chatId: row.chatId,
+        userId: row.userId!,
+        embedding: embeddings[i],
+        embeddingModel: provider.embeddingModel,
+      })))
+      .onConflictDoNothing();
+
+    if (DEBUG) console.log(`🧭 Embedded ${pending.length} messages for semantic search`);
+
+    return pending.length;
+  }
+
+  /**
+   * Past messages closest in meaning to the query, across all of the user's chats.
+   * Similarity is computed here over the user's newest SEMANTIC_CANDIDATE_LIMIT vectors, so each search
+   * costs time and memory in proportion to that cap. Searching complete histories at scale needs
+   * the vectors in pgvector with an approximate nearest-neighbour index instead.
+   */
+  static async searchSemantic(userId: string, query: string, { limit = 10 }: { limit?: number } = {}) {
+    const provider = getEmbeddingProvider();
+
+    const candidates = await db
+      .select({ messageId: messageEmbeddings.messageId, embedding: messageEmbeddings.embedding })
+      .from(messageEmbeddings)
+      // Vectors from different embedding models are not comparable
+      .where(and(eq(messageEmbeddings.userId, userId), eq(messageEmbeddings.embeddingModel, provider.embeddingModel)))
+      .orderBy(desc(messageEmbeddings.createdAt))
+      .limit(SEMANTIC_CANDIDATE_LIMIT);
+
+    if (candidates.length === 0) {
+      return { results: [] };
+    }
+
+    const [queryEmbedding] = await provider.embed([query]);
+
+    const matches = candidates
+      .map(candidate => ({ messageId: candidate.messageId, score: cosineSimilarity(queryEmbedding, candidate.embedding) }))
+      .filter(match => match.score >= SEMANTIC_MIN_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    if (matches.length === 0) {
+      return { results: [] };
+    }
+
+    const rows = await db
+      .select({
+        messageId: messages.id,
+        chatId: messages.chatId,
+        chatTitle: chats.title,
+        role: messages.role,
+        createdAt: messages.createdAt,
+        content: messages.content,
+      })
+      .from(messages)
+      .innerJoin(chats, eq(chats.id, messages.chatId))
+      .where(inArray(messages.id, matches.map(match => match.messageId)));
+
+    const rowsById = new Map(rows.map(row => [row.messageId, row]));
+
+    return {
+      results: matches.flatMap(({ messageId, score }) => {
+        const row = rowsById.get(messageId);
+        if (!row) return [];
+
+        const { content, ...rest } = row;
+        return [{
+          ...rest,
+          score,
+          snippet: content.length > SEMANTIC_SNIPPET_CHARS ? `${content.slice(0, SEMANTIC_SNIPPET_CHARS).trimEnd()}…` : content,
+        }];
+      }),
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { after, afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashToken } from '../utils/auth/tokens';
+
+// jwt.ts refuses to load without a secret, so the service is imported once it is set
+process.env.JWT_SECRET ??= 'test-secret';
+
+type Services = {
+  db: typeof import('../db')['db'];
+  pool: typeof import('../db')['pool'];
+  SessionService: typeof import('./session.service')['SessionService'];
+  sessionEvents: typeof import('./session.service')['sessionEvents'];
+};
+let services: Services;
+
+const SESSION_ID = '3f2b9c1e-8d4a-4b6f-9e2d-1a7c5e0b8f42';
+const USER_ID = '9a1d4c7e-2b5f-4e8a-b3c6-0d9f8e7a6b5c';
+
+/**
+ * Stand-in for a drizzle query builder: every builder method returns the builder,
+ * awaiting it yields `rows`, and `set()` arguments are recorded
+ */
+const fakeQuery = (rows: unknown[], sets: Record<string, unknown>[] = []) => {
+  const builder: any = new Proxy({}, {
+    get: (_, method) => {
+      if (method === 'then') {
+        return (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+          Promise.resolve(rows).then(resolve, reject);
+      }
+      return (...args: any[]) => {
+        if (method === 'set') sets.push(args[0]);
+        return builder;
+      };
+    },
+  });
+  return builder;
+};
+
+const storedSession = (overrides: Record<string, unknown> = {}) => ({
+  id: SESSION_ID,
+  userId: USER_ID,
+  email: 'ada@example.com',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  revokedAt: null,
+  ...overrides,
+});
+
+describe('SessionService.refresh', () => {
+  before(async () => {
+    const { db, pool } = await import('../db');
+    const { SessionService, sessionEvents } = await import('./session.service');
+    services = { db, pool, SessionService, sessionEvents };
+  });
+
+  after(async () => {
+    await services.pool.end();
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('rotates the refresh token and stores only the hash of the new one', async () => {
+    const { db, SessionService } = services;
+    const sets: Record<string, unknown>[] = [];
+    mock.method(db, 'select', () => fakeQuery([storedSession()]));
+    mock.method(db, 'update', () => fakeQuery([{ id: SESSION_ID }], sets));
+
+    const presented = `${SESSION_ID}.current-secret`;
+    const result = await SessionService.refresh(presented);
+
+    assert.ok(result.token);
+    assert.ok(result.refreshToken.startsWith(`${SESSION_ID}.`));
+    assert.notEqual(result.refreshToken, presented);
+    assert.equal(sets.length, 1);
+    assert.equal(sets[0].refreshTokenHash, hashToken(result.refreshToken));
+  });
+
+  it('revokes the session when a rotated-out token is replayed', async () => {
+    const { db, SessionService, sessionEvents } = services;
+    const sets: Record<string, unknown>[] = [];
+    let rotation = true;
+    mock.method(db, 'select', () => fakeQuery([storedSession()]));
+    // The rotation matches no row, since the presented token is no longer the current one
+    mock.method(db, 'update', () => {
+      const rows = rotation ? [] : [{ id: SESSION_ID }];
+      rotation = false;
+      return fakeQuery(rows, sets);
+    });
+
+    const revoked: string[][] = [];
+    const onRevoked = (ids: string[]) => revoked.push(ids);
+    sessionEvents.on('revoked', onRevoked);
+
+    try {
+      await assert.rejects(SessionService.refresh(`${SESSION_ID}.old-secret`), /Invalid refresh token/);
+    } finally {
+      sessionEvents.off('revoked', onRevoked);
+    }
+
+    assert.equal(sets.length, 2);
+    assert.ok(sets[1].revokedAt instanceof Date);
+    assert.deepEqual(revoked, [[SESSION_ID]]);
+  });
+
+  it('refuses revoked and expired sessions without rotating', async () => {
+    const { db, SessionService } = services;
+    const update = mock.method(db, 'update', () => fakeQuery([]));
+
+    mock.method(db, 'select', () => fakeQuery([storedSession({ revokedAt: new Date() })]));
+    await assert.rejects(SessionService.refresh(`${SESSION_ID}.secret`), /Invalid refresh token/);
+
+    mock.method(db, 'select', () => fakeQuery([storedSession({ expiresAt: new Date(Date.now() - 1000) })]));
+    await assert.rejects(SessionService.refresh(`${SESSION_ID}.secret`), /Invalid refresh token/);
+
+    mock.method(db, 'select', () => fakeQuery([]));
+    await assert.rejects(SessionService.refresh(`${SESSION_ID}.secret`), /Invalid refresh token/);
+
+    assert.equal(update.mock.callCount(), 0);
+  });
+
+  it('refuses malformed tokens without a lookup', async () => {
+    const { db, SessionService } = services;
+    const select = mock.method(db, 'select', () => fakeQuery([]));
+
+    await assert.rejects(SessionService.refresh('not-a-refresh-token'), /Invalid refresh token/);
+    assert.equal(select.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,179 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { db } from '../db';
+import { sessions, users } from '../db/schemas/auth.schema';
+import { and, desc, eq, gt, isNull, ne, type SQL } from 'drizzle-orm';
+import { generateToken } from '../utils/auth/jwt';
+import { generateRefreshToken, hashToken, parseRefreshToken } from '../utils/auth/tokens';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+// How long a device stays signed in without using the app
+const REFRESH_TOKEN_TTL_MS = (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string; // Short-lived access token
+  refreshToken: string;
+}
+
+/**
+ * Emits 'revoked' with the ids of sessions that were just ended,
+ * so open sockets for those sessions can be closed
+ */
+export const sessionEvents = new EventEmitter();
+
+export class SessionService {
+  // Start a session for a user who just signed in
+  static async create(user: { id: string; email: string }, client: SessionClient = {}): Promise<SessionTokens> {
+    // The id is part of the refresh token, so it is generated up front
+    const sessionId = randomUUID();
+    const refreshToken = generateRefreshToken(sessionId);
+
+    await db.insert(sessions).values({
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+
+    return {
+      token: generateToken({ userId: user.id, email: user.email, sessionId }),
+      refreshToken,
+    };
+  }
+
+  // Exchange a refresh token for a new access token and a new refresh token
+  static async refresh(refreshToken: string, client: SessionClient = {}): Promise<SessionTokens> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const [session] = await db
+      .select({
+        id: sessions.id,
+        userId: sessions.userId,
+        email: users.email,
+        expiresAt: sessions.expiresAt,
+        revokedAt: sessions.revokedAt,
+      })
+      .from(sessions)
+      .innerJoin(users, eq(users.id, sessions.userId))
+      .where(eq(sessions.id, parsed.sessionId));
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new Error('Invalid refresh token');
+    }
+
+    // Rotate only if the presented token is the current one; the check and the swap are one statement
+    const nextRefreshToken = generateRefreshToken(session.id);
+    const [rotated] = await db
+      .update(sessions)
+      .set({
+        refreshTokenHash: hashToken(nextRefreshToken),
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        ...(client.userAgent ? { userAgent: client.userAgent } : {}),
+        ...(client.ipAddress ? { ipAddress: client.ipAddress } : {}),
+      })
+      .where(and(eq(sessions.id, session.id), eq(sessions.refreshTokenHash, hashToken(refreshToken))))
+      .returning({ id: sessions.id });
+
+    if (!rotated) {
+      // An old token was replayed, so it may have leaked: end the session for everyone holding it
+      if (DEBUG) console.log(`🚨 Refresh token reuse detected for session ${session.id}`);
+      await SessionService.revokeSessions(eq(sessions.id, session.id));
+      throw new Error('Invalid refresh token');
+    }
+
+    return {
+      token: generateToken({ userId: session.userId, email: session.email, sessionId: session.id }),
+      refreshToken: nextRefreshToken,
+    };
+  }
+
+  // Whether access tokens issued for a session are still honored
+  static async isActive(sessionId: string): Promise<boolean> {
+    const [session] = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(
+        eq(sessions.id, sessionId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      ));
+
+    return !!session;
+  }
+
+  // Active sessions for a user, most recently used first
+  static async getUserSessions(userId: string, currentSessionId: string) {
+    const activeSessions = await db
+      .select({
+        id: sessions.id,
+        userAgent: sessions.userAgent,
+        ipAddress: sessions.ipAddress,
+        createdAt: sessions.createdAt,
+        lastUsedAt: sessions.lastUsedAt,
+      })
+      .from(sessions)
+      .where(and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      ))
+      .orderBy(desc(sessions.lastUsedAt));
+
+    return {
+      sessions: activeSessions.map(session => ({
+        ...session,
+        current: session.id === currentSessionId,
+      })),
+    };
+  }
+
+  // End one of the user's sessions
+  static async revoke(sessionId: string, userId: string) {
+    const revoked = await SessionService.revokeSessions(and(
+      eq(sessions.id, sessionId),
+      eq(sessions.userId, userId)
+    ));
+
+    if (revoked.length === 0) {
+      throw new Error('Session not found');
+    }
+
+    return { success: true };
+  }
+
+  // End all of a user's sessions, optionally keeping the one making the request
+  static async revokeAllForUser(userId: string, exceptSessionId?: string) {
+    const revoked = await SessionService.revokeSessions(and(
+      eq(sessions.userId, userId),
+      exceptSessionId ? ne(sessions.id, exceptSessionId) : undefined
+    ));
+
+    return { success: true, revoked: revoked.length };
+  }
+
+  private static async revokeSessions(where: SQL | undefined) {
+    const revoked = await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(where, isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+
+    if (revoked.length > 0) {
+      sessionEvents.emit('revoked', revoked.map(session => session.id));
+    }
+
+    return revoked;
+  }
+}
@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { userSettings } from '../db/schemas/settings.schema';
+import { eq } from 'drizzle-orm';
+import { PersonaService } from './persona.service';
+import type { GenerationOptions, SafetyThresholds } from './llm';
+
+export type ModelSettings = {
+  model: string | null;
+  temperature: number | null;
+  maxOutputTokens: number | null;
+  safetyThresholds: SafetyThresholds;
+};
+
+// Users without a saved row get the provider defaults
+const DEFAULT_SETTINGS: ModelSettings = {
+  model: null,
+  temperature: null,
+  maxOutputTokens: null,
+  safetyThresholds: {},
+};
+
+export class SettingsService {
+  // Get a user's model settings
+  static async getSettings(userId: string): Promise<{ settings: ModelSettings }> {
+    const [row] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+
+    if (!row) {
+      return { settings: DEFAULT_SETTINGS };
+    }
+
+    return {
+      settings: {
+        model: row.model,
+        temperature: row.temperature,
+        maxOutputTokens: row.maxOutputTokens,
+        safetyThresholds: row.safetyThresholds ?? {},
+      },
+    };
+  }
+
+  // Replace a user's model settings
+  static async updateSettings(userId: string, settings: ModelSettings): Promise<{ settings: ModelSettings }> {
+    await db
+      .insert(userSettings)
+      .values({ userId, ...settings, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...settings, updatedAt: new Date() },
+      });
+
+    return { settings };
+  }
+
+  // Options for a generation: the user's settings, overridden by the chat's persona where it sets a value
+  static async getGenerationOptions(userId: string, personaId: string | null): Promise<GenerationOptions> {
+    const [{ settings }, persona] = await Promise.all([
+      SettingsService.getSettings(userId),
+      PersonaService.getGenerationOptions(personaId),
+    ]);
+
+    const options: GenerationOptions = { safety: settings.safetyThresholds };
+    if (settings.model) options.model = settings.model;
+    if (settings.temperature !== null) options.temperature = settings.temperature;
+    if (settings.maxOutputTokens !== null) options.maxOutputTokens = settings.maxOutputTokens;
+
+    return { ...options, ...persona };
+  }
+}
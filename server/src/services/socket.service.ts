@@ -1,18 +1,41 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, type Socket } from 'socket.io';
 import type { ServerType } from '@hono/node-server';
-import jwt from 'jsonwebtoken';
 import { ChatService } from './chat.service';
-import GeminiService from './gemini.service';
+import { buildRetrievalPrompt, type TokenUsage } from './llm';
+import { AttachmentService } from './attachment.service';
+import { DocumentService } from './document.service';
+import { SummaryService } from './summary.service';
+import { SettingsService } from './settings.service';
+import { ApiKeyService } from './api-key.service';
+import { SessionService, sessionEvents } from './session.service';
+import { AuthService } from './auth.service';
+import { rateLimiters, rateLimitMessage } from './rate-limit';
+import { UsageService, quotaMessage } from './usage.service';
+import { parseDocument } from '../utils/documents';
+import { verifyToken } from '../utils/auth/jwt';
+import { getSocketIp } from '../utils/network';
+import { IMAGE_TOKENS, buildContextWindow, estimateTokens } from '../utils/context';
 import { db } from '../db';
 import { chats, messages } from '../db/schemas/chat.schema';
 import { and, eq } from 'drizzle-orm';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 const DEBUG = process.env.NODE_ENV !== 'production';
 
+// Events that start a generation; they share the user's message budget with the REST route
+const GENERATION_EVENTS = new Set([
+  'send-message',
+  'send-message-with-image',
+  'send-message-with-document',
+  'regenerate-response',
+  'edit-message',
+]);
+
 export class SocketService {
   private io: SocketIOServer;
 
+  // Responses currently streaming, keyed by chatId
+  private activeGenerations = new Map<string, { userId: string; controller: AbortController }>();
+
   constructor(server: ServerType) {
     // Configure CORS with environment variable support for Railway
     const allowedOrigins = (process.env.CORS_ORIGINS || '')
@@ -37,9 +60,30 @@ export class SocketService {
 
     this.setupMiddleware();
     this.setupEventHandlers();
+
+    // Close sockets whose session was ended (logout, revoked from another device, token reuse)
+    sessionEvents.on('revoked', (sessionIds: string[]) => {
+      for (const sessionId of sessionIds) {
+        this.io.in(`session:${sessionId}`).disconnectSockets(true);
+      }
+    });
   }
 
   private setupMiddleware() {
+    // Handshake rate limit per client IP
+    this.io.use(async (socket, next) => {
+      try {
+        const result = await rateLimiters.socketConnection.consume(getSocketIp(socket));
+        if (!result.allowed) {
+          return next(new Error(rateLimitMessage(result.retryAfterSeconds)));
+        }
+        next();
+      } catch (error) {
+        console.error('❌ Failed to check socket rate limit:', error);
+        next(new Error('Connection failed. Please try again.'));
+      }
+    });
+
     // Authentication middleware
     this.io.use(async (socket, next) => {
       try {
@@ -49,8 +93,16 @@ export class SocketService {
           return next(new Error('Authentication error: No token provided'));
         }
 
-        const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
+        const decoded = verifyToken(token);
+        if (!(await SessionService.isActive(decoded.sessionId))) {
+          return next(new Error('Authentication error: Session has ended'));
+        }
+        if (await AuthService.isVerificationPending(decoded.userId)) {
+          return next(new Error('Please verify your email address to continue'));
+        }
+
         socket.data.userId = decoded.userId;
+        socket.data.sessionId = decoded.sessionId;
         
         next();
       } catch (error) {
@@ -66,6 +118,44 @@ export class SocketService {
 
       // Join user to their own room
       socket.join(`user:${userId}`);
+      socket.join(`session:${socket.data.sessionId}`);
+
+      // Drop generation requests over the user's budget and tell the client when to retry
+      socket.use(async ([event], next) => {
+        if (!GENERATION_EVENTS.has(event)) return next();
+
+        try {
+          const result = await rateLimiters.messages.consume(userId);
+          if (!result.allowed) {
+            if (DEBUG) console.log(`🚦 Rate limited ${event} for user ${userId}`);
+            socket.emit('error', {
+              message: rateLimitMessage(result.retryAfterSeconds),
+              code: 'RATE_LIMITED',
+              retryAfter: result.retryAfterSeconds,
+            });
+            return;
+          }
+
+          const quota = await UsageService.checkQuota(userId);
+          if (!quota.allowed) {
+            if (DEBUG) console.log(`📊 ${quota.period} quota exceeded for user ${userId}`);
+            socket.emit('error', {
+              message: quotaMessage(quota.period, quota.resetsAt),
+              code: 'QUOTA_EXCEEDED',
+              period: quota.period,
+              resetsAt: quota.resetsAt,
+            });
+            return;
+          }
+        } catch (error) {
+          // The event is dropped rather than let through unchecked
+          console.error(`❌ Failed to check limits for ${event}:`, error);
+          socket.emit('error', { message: 'Failed to send message. Please try again.' });
+          return;
+        }
+
+        next();
+      });
 
       // Handle chat message
       socket.on('send-message', async (data: { chatId: string; content: string }) => {
@@ -74,9 +164,10 @@ export class SocketService {
           console.log(`📩 Received message from user ${userId} for chat ${chatId}`);
 
           // ⚡ OPTIMIZATION: Verify chat and get history in parallel
-          const [chatResult, fullHistory] = await Promise.all([
+          const [chatResult, fullHistory, summary] = await Promise.all([
             db.select().from(chats).where(and(eq(chats.id, chatId), eq(chats.userId, userId))),
-            ChatService.getMessageHistory(chatId)
+            ChatService.getMessageHistory(chatId),
+            SummaryService.getSummary(chatId)
           ]);
 
           const [chat] = chatResult;
@@ -86,34 +177,25 @@ export class SocketService {
             return;
           }
 
-          // Prepare history for AI (before saving user message)
-          let limitedHistory = fullHistory.slice(-6);
-          
-          // Ensure history starts with a 'user' message (Gemini requirement)
-          if (limitedHistory.length > 0 && limitedHistory[0].role !== 'user') {
-            const firstUserIndex = limitedHistory.findIndex(msg => msg.role === 'user');
-            if (firstUserIndex > 0) {
-              limitedHistory = limitedHistory.slice(firstUserIndex);
-            } else if (firstUserIndex === -1) {
-              limitedHistory = [];
-            }
-          }
-          
-          if (DEBUG) console.log(`📚 History: ${fullHistory.length} total, using ${limitedHistory.length} messages`);
+          // Prepare history for AI (before saving user message), as much as fits the token budget
+          const contextWindow = buildContextWindow(fullHistory, { prompt: content });
+          const limitedHistory = contextWindow.messages;
+
+          // Older messages that no longer fit are represented by the running summary
+          const systemContext = SummaryService.buildSystemContext(summary, contextWindow.omitted);
+
+          if (DEBUG) console.log(`📚 History: ${fullHistory.length} total, using ${limitedHistory.length} messages (~${contextWindow.tokens} tokens)${systemContext ? ' + summary' : ''}`);
+
+          // Register the generation so 'cancel-generation' can abort it; nothing is saved if another is running
+          const abortController = this.startGeneration(socket, chatId, userId);
+          if (!abortController) return;
 
           // ⚡ EMIT AI START IMMEDIATELY - don't wait for DB saves
           socket.emit('ai-response-start', { chatId });
 
           // ⚡ OPTIMIZATION: Save user message in background (non-blocking)
-          const saveUserMessagePromise = db
-            .insert(messages)
-            .values({
-              chatId,
-              content,
-              role: 'user',
-            })
-            .returning()
-            .then(([userMessage]) => {
+          const saveUserMessagePromise = ChatService.saveUserMessage(chatId, content, chat.activeMessageId)
+            .then(userMessage => {
               socket.emit('message-saved', {
                 messageId: userMessage.id,
                 chatId,
@@ -123,6 +205,8 @@ export class SocketService {
               });
               return userMessage;
             });
+          // Awaited further down; this handler keeps a failed save from crashing the process before then
+          saveUserMessagePromise.catch(err => console.error('Failed to save user message:', err));
 
           // ⚡ Update title in background if needed (non-blocking)
           if (chat.title === 'New Chat' && fullHistory.length === 0) {
@@ -141,25 +225,50 @@ export class SocketService {
           let chunkNumber = 0;
           try {
             if (DEBUG) console.log(`🤖 Starting AI response generation for chat ${chatId}`);
-            const generator = GeminiService.generateStreamingResponse(
-              content,
-              limitedHistory.map(msg => ({ role: msg.role, content: msg.content }))
+            const provider = await ApiKeyService.getProvider(userId, chat.provider);
+            const generationOptions = await SettingsService.getGenerationOptions(userId, chat.personaId);
+
+            // Pull in relevant chunks from documents uploaded earlier in this chat
+            const excerpts = await DocumentService.retrieve(chatId, content, provider);
+            if (DEBUG && excerpts.length > 0) console.log(`🔎 Retrieved ${excerpts.length} document excerpts`);
+
+            const prompt = buildRetrievalPrompt(content, excerpts);
+            const history = await AttachmentService.toHistory(limitedHistory);
+            const generator = UsageService.meter(
+              {
+                userId,
+                chatId,
+                provider,
+                model: generationOptions.model,
+                promptTokens: contextWindow.tokens + estimateTokens(prompt + (systemContext ?? '')),
+              },
+              onUsage => provider.generateStreamingResponse(
+                prompt,
+                history,
+                { ...generationOptions, systemContext, signal: abortController.signal, onUsage }
+              )
             );
 
             for await (const chunk of generator) {
+              if (abortController.signal.aborted) break;
               chunkNumber++;
               fullResponse += chunk;
               if (DEBUG) console.log(`🔄 Emitting chunk #${chunkNumber} to client (${chunk.length} chars)`);
               socket.emit('ai-response-chunk', { chatId, chunk });
             }
 
+            if (abortController.signal.aborted) {
+              await this.saveCancelledResponse(socket, chatId, fullResponse, saveUserMessagePromise);
+              return;
+            }
+
             if (DEBUG) console.log(`💾 Saving assistant message for chat ${chatId}`);
             
             // Wait for user message to be saved before saving assistant message
-            await saveUserMessagePromise;
+            const userMessage = await saveUserMessagePromise;
             
             // Save complete response
-            const assistantMessage = await ChatService.saveAssistantMessage(chatId, fullResponse);
+            const assistantMessage = await ChatService.saveAssistantMessage(chatId, fullResponse, userMessage.id);
 
             if (DEBUG) console.log(`✅ Message saved with ID ${assistantMessage.id}`);
             // Emit completion
@@ -170,12 +279,24 @@ export class SocketService {
               createdAt: assistantMessage.createdAt,
             });
 
+            // Fold older messages into the running summary in the background
+            SummaryService.refresh(chatId, provider, userId)
+              .catch(err => console.error('Failed to refresh chat summary:', err));
+
           } catch (error) {
+            if (abortController.signal.aborted) {
+              // The provider request was aborted mid-stream; keep what arrived so far
+              await this.saveCancelledResponse(socket, chatId, fullResponse, saveUserMessagePromise);
+              return;
+            }
+
             console.error('❌ AI generation error:', error);
             socket.emit('ai-response-error', {
               chatId,
               error: error instanceof Error ? error.message : 'Failed to generate AI response',
             });
+          } finally {
+            this.finishGeneration(chatId, abortController);
           }
 
         } catch (error) {
@@ -206,43 +327,37 @@ export class SocketService {
             return;
           }
 
-          // Prepare history for AI (before saving user message)
-          let limitedHistory = fullHistory.slice(-6);
-          
-          // Ensure history starts with a 'user' message (Gemini requirement)
-          if (limitedHistory.length > 0 && limitedHistory[0].role !== 'user') {
-            const firstUserIndex = limitedHistory.findIndex(msg => msg.role === 'user');
-            if (firstUserIndex > 0) {
-              limitedHistory = limitedHistory.slice(firstUserIndex);
-            } else if (firstUserIndex === -1) {
-              limitedHistory = [];
-            }
-          }
-          
-          if (DEBUG) console.log(`📚 History: ${fullHistory.length} total, using ${limitedHistory.length} messages`);
+          // Prepare history for AI (before saving user message), as much as fits the token budget
+          const contextWindow = buildContextWindow(fullHistory, { prompt: content });
+          const limitedHistory = contextWindow.messages;
+
+          if (DEBUG) console.log(`📚 History: ${fullHistory.length} total, using ${limitedHistory.length} messages (~${contextWindow.tokens} tokens)`);
+
+          // Register the generation so 'cancel-generation' can abort it; nothing is saved if another is running
+          const abortController = this.startGeneration(socket, chatId, userId);
+          if (!abortController) return;
 
           // ⚡ EMIT AI START IMMEDIATELY - don't wait for DB saves
           socket.emit('ai-response-start', { chatId });
 
-          // ⚡ OPTIMIZATION: Save user message in background (non-blocking)
-          const saveUserMessagePromise = db
-            .insert(messages)
-            .values({
-              chatId,
-              content: `🖼️ [Image] ${content}`,
-              role: 'user',
-            })
-            .returning()
-            .then(([userMessage]) => {
+          // ⚡ OPTIMIZATION: Store the image and save user message in background (non-blocking)
+          const saveUserMessagePromise = AttachmentService.saveImage(chatId, imageBase64, mimeType)
+            .then(attachment => ChatService.saveUserMessage(chatId, content, chat.activeMessageId, {
+              attachments: [attachment],
+            }))
+            .then(userMessage => {
               socket.emit('message-saved', {
                 messageId: userMessage.id,
                 chatId,
                 content: userMessage.content,
                 role: 'user',
+                metadata: AttachmentService.withUrls(userMessage).metadata,
                 createdAt: userMessage.createdAt,
               });
               return userMessage;
             });
+          // Awaited further down; this handler keeps a failed save from crashing the process before then
+          saveUserMessagePromise.catch(err => console.error('Failed to save user message:', err));
 
           // ⚡ Update title in background if needed (non-blocking)
           if (chat.title === 'New Chat' && fullHistory.length === 0) {
@@ -256,32 +371,52 @@ export class SocketService {
               .catch(err => console.error('Failed to update title:', err));
           }
 
-          // ⚡ Start streaming IMMEDIATELY with Gemini Vision API
+          // ⚡ Start streaming IMMEDIATELY with the vision model
           let fullResponse = '';
+          let chunkNumber = 0;
           try {
             if (DEBUG) console.log(`🤖 Starting AI Vision response generation for chat ${chatId}`);
             
-            // Use Gemini Vision API for image analysis
-            const response = await GeminiService.generateWithImage(content || 'What do you see in this image?', imageBase64, mimeType);
-            
-            // Emit the response as chunks for consistent UX
-            const chunkSize = 100;
-            for (let i = 0; i < response.length; i += chunkSize) {
-              const chunk = response.substring(i, Math.min(i + chunkSize, response.length));
+            // Use the chat's provider for image analysis
+            const provider = await ApiKeyService.getProvider(userId, chat.provider);
+            const generationOptions = await SettingsService.getGenerationOptions(userId, chat.personaId);
+            const prompt = content || 'What do you see in this image?';
+            const generator = UsageService.meter(
+              {
+                userId,
+                chatId,
+                provider,
+                model: generationOptions.model,
+                promptTokens: estimateTokens(prompt) + IMAGE_TOKENS,
+              },
+              onUsage => provider.generateStreamingWithImage(
+                prompt,
+                imageBase64,
+                mimeType,
+                { ...generationOptions, signal: abortController.signal, onUsage }
+              )
+            );
+
+            for await (const chunk of generator) {
+              if (abortController.signal.aborted) break;
+              chunkNumber++;
               fullResponse += chunk;
-              if (DEBUG) console.log(`🔄 Emitting chunk to client (${chunk.length} chars)`);
+              if (DEBUG) console.log(`🔄 Emitting chunk #${chunkNumber} to client (${chunk.length} chars)`);
               socket.emit('ai-response-chunk', { chatId, chunk });
-              // Small delay for smoother streaming effect
-              await new Promise(resolve => setTimeout(resolve, 50));
+            }
+
+            if (abortController.signal.aborted) {
+              await this.saveCancelledResponse(socket, chatId, fullResponse, saveUserMessagePromise);
+              return;
             }
 
             if (DEBUG) console.log(`💾 Saving assistant message for chat ${chatId}`);
             
             // Wait for user message to be saved before saving assistant message
-            await saveUserMessagePromise;
+            const userMessage = await saveUserMessagePromise;
             
             // Save complete response
-            const assistantMessage = await ChatService.saveAssistantMessage(chatId, fullResponse);
+            const assistantMessage = await ChatService.saveAssistantMessage(chatId, fullResponse, userMessage.id);
 
             if (DEBUG) console.log(`✅ Message saved with ID ${assistantMessage.id}`);
             // Emit completion
@@ -292,12 +427,24 @@ export class SocketService {
               createdAt: assistantMessage.createdAt,
             });
 
+            // Fold older messages into the running summary in the background
+            SummaryService.refresh(chatId, provider, userId)
+              .catch(err => console.error('Failed to refresh chat summary:', err));
+
           } catch (error) {
+            if (abortController.signal.aborted) {
+              // The provider request was aborted mid-stream; keep what arrived so far
+              await this.saveCancelledResponse(socket, chatId, fullResponse, saveUserMessagePromise);
+              return;
+            }
+
             console.error('❌ AI generation error:', error);
             socket.emit('ai-response-error', {
               chatId,
               error: error instanceof Error ? error.message : 'Failed to generate AI response',
             });
+          } finally {
+            this.finishGeneration(chatId, abortController);
           }
 
         } catch (error) {
@@ -327,43 +474,46 @@ export class SocketService {
             return;
           }
 
-          // Prepare history for AI (before saving user message)
-          let limitedHistory = fullHistory.slice(-6);
-          
-          // Ensure history starts with a 'user' message (Gemini requirement)
-          if (limitedHistory.length > 0 && limitedHistory[0].role !== 'user') {
-            const firstUserIndex = limitedHistory.findIndex(msg => msg.role === 'user');
-            if (firstUserIndex > 0) {
-              limitedHistory = limitedHistory.slice(firstUserIndex);
-            } else if (firstUserIndex === -1) {
-              limitedHistory = [];
-            }
-          }
-          
-          if (DEBUG) console.log(`📚 History: ${fullHistory.length} total, using ${limitedHistory.length} messages`);
+          // Prepare history for AI (before saving user message), as much as fits the token budget
+          const contextWindow = buildContextWindow(fullHistory, { prompt: content });
+          const limitedHistory = contextWindow.messages;
+
+          if (DEBUG) console.log(`📚 History: ${fullHistory.length} total, using ${limitedHistory.length} messages (~${contextWindow.tokens} tokens)`);
+
+          // Register the generation so 'cancel-generation' can abort it; nothing is saved if another is running
+          const abortController = this.startGeneration(socket, chatId, userId);
+          if (!abortController) return;
 
           // ⚡ EMIT AI START IMMEDIATELY - don't wait for DB saves
           socket.emit('ai-response-start', { chatId });
 
-          // ⚡ OPTIMIZATION: Save user message in background (non-blocking)
-          const saveUserMessagePromise = db
-            .insert(messages)
-            .values({
-              chatId,
-              content: `📄 [Document: ${fileName}] ${content}`,
-              role: 'user',
-            })
-            .returning()
-            .then(([userMessage]) => {
+          // Parse up front so the extracted text can be stored with the attachment
+          const parseDocumentPromise = parseDocument(documentBase64, mimeType, fileName);
+
+          // ⚡ OPTIMIZATION: Store the document and save user message in background (non-blocking)
+          const saveAttachmentPromise = parseDocumentPromise
+            .catch(() => ({ text: '', metadata: {} }))
+            .then(parsed => AttachmentService.saveDocument(chatId, documentBase64, mimeType, fileName, {
+              text: parsed.text,
+              pages: parsed.metadata.pages,
+            }));
+          const saveUserMessagePromise = saveAttachmentPromise
+            .then(attachment => ChatService.saveUserMessage(chatId, content, chat.activeMessageId, {
+              attachments: [attachment],
+            }))
+            .then(userMessage => {
               socket.emit('message-saved', {
                 messageId: userMessage.id,
                 chatId,
                 content: userMessage.content,
                 role: 'user',
+                metadata: AttachmentService.withUrls(userMessage).metadata,
                 createdAt: userMessage.createdAt,
               });
               return userMessage;
             });
+          // Awaited further down; this handler keeps a failed save from crashing the process before then
+          saveUserMessagePromise.catch(err => console.error('Failed to save user message:', err));
 
           // ⚡ Update title in background if needed (non-blocking)
           if (chat.title === 'New Chat' && fullHistory.length === 0) {
@@ -377,32 +527,63 @@ export class SocketService {
               .catch(err => console.error('Failed to update title:', err));
           }
 
-          // ⚡ Start streaming IMMEDIATELY with Gemini Document Analysis
+          // ⚡ Start streaming IMMEDIATELY with document analysis
           let fullResponse = '';
+          let chunkNumber = 0;
           try {
             if (DEBUG) console.log(`🤖 Starting AI Document response generation for chat ${chatId}`);
             
-            // Use Gemini Document API for document analysis
-            const response = await GeminiService.generateWithDocument(content || 'Analyze this document', documentBase64, mimeType, fileName);
-            
-            // Emit the response as chunks for consistent UX
-            const chunkSize = 100;
-            for (let i = 0; i < response.length; i += chunkSize) {
-              const chunk = response.substring(i, Math.min(i + chunkSize, response.length));
+            // Wait for the parsed document, then let the chat's provider analyze it
+            const parsed = await parseDocumentPromise;
+            if (!parsed.text || parsed.text.trim().length === 0) {
+              throw new Error('Document appears to be empty or could not be parsed');
+            }
+            if (DEBUG) console.log(`📝 Extracted ${parsed.text.length} characters from document`);
+
+            // Index the document so this and later turns can retrieve relevant chunks
+            const provider = await ApiKeyService.getProvider(userId, chat.provider);
+            const generationOptions = await SettingsService.getGenerationOptions(userId, chat.personaId);
+            const prompt = content || 'Analyze this document';
+            const attachment = await saveAttachmentPromise;
+            await DocumentService.ingest(chatId, attachment, parsed, provider)
+              .catch(err => console.error('Failed to index document:', err));
+
+            const documentInput = await DocumentService.buildDocumentInput(chatId, prompt, attachment, parsed, provider);
+            const generator = UsageService.meter(
+              {
+                userId,
+                chatId,
+                provider,
+                model: generationOptions.model,
+                promptTokens: estimateTokens(prompt + documentInput.text),
+              },
+              onUsage => provider.generateStreamingWithDocument(
+                prompt,
+                documentInput,
+                { ...generationOptions, signal: abortController.signal, onUsage }
+              )
+            );
+
+            for await (const chunk of generator) {
+              if (abortController.signal.aborted) break;
+              chunkNumber++;
               fullResponse += chunk;
-              if (DEBUG) console.log(`🔄 Emitting chunk to client (${chunk.length} chars)`);
+              if (DEBUG) console.log(`🔄 Emitting chunk #${chunkNumber} to client (${chunk.length} chars)`);
               socket.emit('ai-response-chunk', { chatId, chunk });
-              // Small delay for smoother streaming effect
-              await new Promise(resolve => setTimeout(resolve, 50));
+            }
+
+            if (abortController.signal.aborted) {
+              await this.saveCancelledResponse(socket, chatId, fullResponse, saveUserMessagePromise);
+              return;
             }
 
             if (DEBUG) console.log(`💾 Saving assistant message for chat ${chatId}`);
             
             // Wait for user message to be saved before saving assistant message
-            await saveUserMessagePromise;
+            const userMessage = await saveUserMessagePromise;
             
             // Save complete response
-            const assistantMessage = await ChatService.saveAssistantMessage(chatId, fullResponse);
+            const assistantMessage = await ChatService.saveAssistantMessage(chatId, fullResponse, userMessage.id);
 
             if (DEBUG) console.log(`✅ Message saved with ID ${assistantMessage.id}`);
             // Emit completion
@@ -413,12 +594,24 @@ export class SocketService {
               createdAt: assistantMessage.createdAt,
             });
 
+            // Fold older messages into the running summary in the background
+            SummaryService.refresh(chatId, provider, userId)
+              .catch(err => console.error('Failed to refresh chat summary:', err));
+
           } catch (error) {
+            if (abortController.signal.aborted) {
+              // The provider request was aborted mid-stream; keep what arrived so far
+              await this.saveCancelledResponse(socket, chatId, fullResponse, saveUserMessagePromise);
+              return;
+            }
+
             console.error('❌ AI generation error:', error);
             socket.emit('ai-response-error', {
               chatId,
               error: error instanceof Error ? error.message : 'Failed to generate AI response',
             });
+          } finally {
+            this.finishGeneration(chatId, abortController);
           }
 
         } catch (error) {
@@ -429,6 +622,122 @@ export class SocketService {
         }
       });
 
+      // Handle regenerate: answer the same prompt again, keeping the previous answer as a sibling variant
+      socket.on('regenerate-response', async (data: { chatId: string; messageId: string }) => {
+        try {
+          const { chatId, messageId } = data;
+          if (DEBUG) console.log(`🔁 Regenerate requested by user ${userId} for message ${messageId} in chat ${chatId}`);
+
+          const [chatResult, messageResult] = await Promise.all([
+            db.select().from(chats).where(and(eq(chats.id, chatId), eq(chats.userId, userId))),
+            db.select().from(messages).where(and(eq(messages.id, messageId), eq(messages.chatId, chatId)))
+          ]);
+
+          const [chat] = chatResult;
+          if (!chat) {
+            console.error(`❌ Chat ${chatId} not found for user ${userId}`);
+            socket.emit('error', { message: 'Chat not found' });
+            return;
+          }
+
+          const [previousAnswer] = messageResult;
+          if (!previousAnswer || previousAnswer.role !== 'assistant' || !previousAnswer.parentId) {
+            socket.emit('error', { message: 'Only assistant responses can be regenerated' });
+            return;
+          }
+
+          const abortController = this.startGeneration(socket, chatId, userId);
+          if (!abortController) return;
+
+          try {
+            // The prompt is the user message the previous answer replied to
+            const [promptMessage] = await db.select().from(messages).where(eq(messages.id, previousAnswer.parentId));
+            await this.streamReplyTo(socket, userId, chat, promptMessage, abortController);
+          } finally {
+            this.finishGeneration(chatId, abortController);
+          }
+
+        } catch (error) {
+          console.error('❌ Regenerate response error:', error);
+          socket.emit('error', {
+            message: error instanceof Error ? error.message : 'Failed to regenerate response',
+          });
+        }
+      });
+
+      // Handle edit: fork the conversation with a new version of an earlier user message
+      socket.on('edit-message', async (data: { chatId: string; messageId: string; content: string }) => {
+        try {
+          const { chatId, messageId, content } = data;
+          if (DEBUG) console.log(`✏️ Edit requested by user ${userId} for message ${messageId} in chat ${chatId}`);
+
+          if (!content || !content.trim()) {
+            socket.emit('error', { message: 'Message cannot be empty' });
+            return;
+          }
+
+          const [chatResult, messageResult] = await Promise.all([
+            db.select().from(chats).where(and(eq(chats.id, chatId), eq(chats.userId, userId))),
+            db.select().from(messages).where(and(eq(messages.id, messageId), eq(messages.chatId, chatId)))
+          ]);
+
+          const [chat] = chatResult;
+          if (!chat) {
+            console.error(`❌ Chat ${chatId} not found for user ${userId}`);
+            socket.emit('error', { message: 'Chat not found' });
+            return;
+          }
+
+          const [original] = messageResult;
+          if (!original || original.role !== 'user') {
+            socket.emit('error', { message: 'Only your own messages can be edited' });
+            return;
+          }
+
+          // Claimed before the edit is saved, so a refused edit leaves no reply-less branch behind
+          const abortController = this.startGeneration(socket, chatId, userId);
+          if (!abortController) return;
+
+          try {
+            // The edit is a sibling of the original, so the old branch stays reachable; attachments carry over
+            const edited = await ChatService.saveUserMessage(chatId, content, original.parentId, original.metadata ?? undefined);
+            await SummaryService.invalidateFrom(chatId, original.createdAt);
+
+            socket.emit('message-saved', {
+              messageId: edited.id,
+              chatId,
+              content: edited.content,
+              role: 'user',
+              parentId: edited.parentId,
+              metadata: AttachmentService.withUrls(edited).metadata,
+              createdAt: edited.createdAt,
+            });
+
+            await this.streamReplyTo(socket, userId, chat, edited, abortController);
+          } finally {
+            this.finishGeneration(chatId, abortController);
+          }
+
+        } catch (error) {
+          console.error('❌ Edit message error:', error);
+          socket.emit('error', {
+            message: error instanceof Error ? error.message : 'Failed to edit message',
+          });
+        }
+      });
+
+      // Handle stop button: abort the response currently streaming for a chat
+      socket.on('cancel-generation', (data: { chatId: string }) => {
+        const active = this.activeGenerations.get(data.chatId);
+        if (!active || active.userId !== userId) {
+          if (DEBUG) console.log(`⚠️ No active generation to cancel for chat ${data.chatId}`);
+          return;
+        }
+
+        if (DEBUG) console.log(`🛑 Cancelling generation for chat ${data.chatId}`);
+        active.controller.abort();
+      });
+
       // Handle typing indicator
       socket.on('typing', (data: { chatId: string; isTyping: boolean }) => {
         socket.to(`chat:${data.chatId}`).emit('user-typing', {
@@ -444,6 +753,176 @@ export class SocketService {
     });
   }
 
+  // Stream a new answer to a saved user message; used when regenerating and after edits.
+  // The caller claims the generation and releases it afterwards.
+  private async streamReplyTo(
+    socket: Socket,
+    userId: string,
+    chat: typeof chats.$inferSelect,
+    promptMessage: typeof messages.$inferSelect,
+    abortController: AbortController
+  ) {
+    const chatId = chat.id;
+    const summary = await SummaryService.getSummary(chatId);
+    const fullHistory = promptMessage.parentId
+      ? await ChatService.getMessageHistory(chatId, { fromMessageId: promptMessage.parentId })
+      : [];
+
+    const contextWindow = buildContextWindow(fullHistory, { prompt: promptMessage.content });
+    const systemContext = SummaryService.buildSystemContext(summary, contextWindow.omitted);
+
+    if (DEBUG) console.log(`📚 History: ${fullHistory.length} total, using ${contextWindow.messages.length} messages (~${contextWindow.tokens} tokens)`);
+
+    socket.emit('ai-response-start', { chatId });
+
+    let fullResponse = '';
+    let chunkNumber = 0;
+    try {
+      const provider = await ApiKeyService.getProvider(userId, chat.provider);
+      const generationOptions = await SettingsService.getGenerationOptions(userId, chat.personaId);
+      const attachment = promptMessage.metadata?.attachments?.[0];
+      let promptTokens: number;
+      let generate: (onUsage: (usage: TokenUsage) => void) => AsyncGenerator<string, void, unknown>;
+
+      // Attachments on the prompt decide which kind of request answers it
+      if (attachment?.type === 'image') {
+        const imageBase64 = await AttachmentService.loadImageBase64(attachment);
+        if (!imageBase64) {
+          throw new Error('The original image is no longer available');
+        }
+        const prompt = promptMessage.content || 'What do you see in this image?';
+        promptTokens = estimateTokens(prompt) + IMAGE_TOKENS;
+        generate = onUsage => provider.generateStreamingWithImage(
+          prompt,
+          imageBase64,
+          attachment.mimeType,
+          { ...generationOptions, signal: abortController.signal, onUsage }
+        );
+      } else if (attachment?.type === 'document') {
+        const text = await AttachmentService.loadDocumentText(attachment);
+        if (!text) {
+          throw new Error('The original document is no longer available');
+        }
+        const prompt = promptMessage.content || 'Analyze this document';
+        const parsed = { text, metadata: { pages: attachment.pages } };
+        const documentInput = await DocumentService.buildDocumentInput(chatId, prompt, attachment, parsed, provider);
+        promptTokens = estimateTokens(prompt + documentInput.text);
+        generate = onUsage => provider.generateStreamingWithDocument(
+          prompt,
+          documentInput,
+          { ...generationOptions, signal: abortController.signal, onUsage }
+        );
+      } else {
+        const excerpts = await DocumentService.retrieve(chatId, promptMessage.content, provider);
+        const prompt = buildRetrievalPrompt(promptMessage.content, excerpts);
+        const history = await AttachmentService.toHistory(contextWindow.messages);
+        promptTokens = contextWindow.tokens + estimateTokens(prompt + (systemContext ?? ''));
+        generate = onUsage => provider.generateStreamingResponse(
+          prompt,
+          history,
+          { ...generationOptions, systemContext, signal: abortController.signal, onUsage }
+        );
+      }
+
+      const generator = UsageService.meter(
+        { userId, chatId, provider, model: generationOptions.model, promptTokens },
+        generate
+      );
+
+      for await (const chunk of generator) {
+        if (abortController.signal.aborted) break;
+        chunkNumber++;
+        fullResponse += chunk;
+        if (DEBUG) console.log(`🔄 Emitting chunk #${chunkNumber} to client (${chunk.length} chars)`);
+        socket.emit('ai-response-chunk', { chatId, chunk });
+      }
+
+      if (abortController.signal.aborted) {
+        await this.saveCancelledResponse(socket, chatId, fullResponse, Promise.resolve(promptMessage));
+        return;
+      }
+
+      // Saved next to any earlier answers to the same prompt; it becomes the active variant
+      const assistantMessage = await ChatService.saveAssistantMessage(chatId, fullResponse, promptMessage.id);
+
+      if (DEBUG) console.log(`✅ Message saved with ID ${assistantMessage.id}`);
+      socket.emit('ai-response-complete', {
+        chatId,
+        messageId: assistantMessage.id,
+        fullResponse,
+        createdAt: assistantMessage.createdAt,
+      });
+
+      // Fold older messages of the new branch into the running summary in the background
+      SummaryService.refresh(chatId, provider, userId)
+        .catch(err => console.error('Failed to refresh chat summary:', err));
+
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        // The provider request was aborted mid-stream; keep what arrived so far
+        await this.saveCancelledResponse(socket, chatId, fullResponse, Promise.resolve(promptMessage));
+        return;
+      }
+
+      console.error('❌ AI generation error:', error);
+      socket.emit('ai-response-error', {
+        chatId,
+        error: error instanceof Error ? error.message : 'Failed to generate AI response',
+      });
+    }
+  }
+
+  // One response per chat at a time: a second one would race the first for the same branch,
+  // so it is refused (returns null) until the first finishes or is stopped
+  private startGeneration(socket: Socket, chatId: string, userId: string): AbortController | null {
+    if (this.activeGenerations.has(chatId)) {
+      if (DEBUG) console.log(`⏳ Generation already running for chat ${chatId}`);
+      socket.emit('error', {
+        message: 'A response is still being generated in this chat. Wait for it or stop it first.',
+        code: 'GENERATION_IN_PROGRESS',
+      });
+      return null;
+    }
+
+    const controller = new AbortController();
+    this.activeGenerations.set(chatId, { userId, controller });
+    return controller;
+  }
+
+  private finishGeneration(chatId: string, controller: AbortController) {
+    if (this.activeGenerations.get(chatId)?.controller === controller) {
+      this.activeGenerations.delete(chatId);
+    }
+  }
+
+  // Save the partial answer of a stopped response and notify the client
+  private async saveCancelledResponse(
+    socket: Socket,
+    chatId: string,
+    partialResponse: string,
+    saveUserMessagePromise: Promise<{ id: string }>
+  ) {
+    if (DEBUG) console.log(`🛑 Generation cancelled for chat ${chatId} after ${partialResponse.length} chars`);
+
+    // Wait for user message to be saved before saving assistant message
+    const userMessage = await saveUserMessagePromise;
+
+    // Nothing was generated yet, so there is no answer to keep
+    if (!partialResponse) {
+      socket.emit('ai-response-cancelled', { chatId, messageId: null, fullResponse: '' });
+      return;
+    }
+
+    const assistantMessage = await ChatService.saveAssistantMessage(chatId, partialResponse, userMessage.id, { truncated: true });
+
+    socket.emit('ai-response-cancelled', {
+      chatId,
+      messageId: assistantMessage.id,
+      fullResponse: partialResponse,
+      createdAt: assistantMessage.createdAt,
+    });
+  }
+
   // Method to emit events to specific users
   public emitToUser(userId: string, event: string, data: any) {
     this.io.to(`user:${userId}`).emit(event, data);
@@ -0,0 +1,24 @@
+import type { BlobStore } from './types';
+import { LocalBlobStore } from './local.store';
+
+export * from './types';
+
+const factories: Record<string, () => BlobStore> = {
+  local: () => new LocalBlobStore(),
+};
+
+let instance: BlobStore | null = null;
+
+/**
+ * Get the deployment's blob store (BLOB_STORE env, defaults to local disk)
+ */
+export const getBlobStore = (): BlobStore => {
+  if (!instance) {
+    const factory = factories[process.env.BLOB_STORE || 'local'];
+    if (!factory) {
+      throw new Error(`Unknown blob store: ${process.env.BLOB_STORE}`);
+    }
+    instance = factory();
+  }
+  return instance;
+};
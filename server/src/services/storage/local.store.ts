@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { BlobStore, StoredBlob } from './types';
+
+/**
+ * Blob store backed by the local filesystem.
+ * Each blob is written next to a `.meta.json` sidecar holding its content type.
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly name = 'local';
+
+  private root = path.resolve(process.env.BLOB_STORAGE_DIR || './storage');
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    // Keys come from our own ids, but never let one escape the storage root
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    const filePath = this.resolve(key);
+    try {
+      const [data, meta] = await Promise.all([
+        fs.readFile(filePath),
+        fs.readFile(`${filePath}.meta.json`, 'utf-8'),
+      ]);
+      return { data, contentType: JSON.parse(meta).contentType };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+}
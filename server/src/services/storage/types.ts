@@ -0,0 +1,20 @@
+/**
+ * Shared types for blob stores
+ */
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface BlobStore {
+  readonly name: string;
+
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  get(key: string): Promise<StoredBlob | null>;
+
+  delete(key: string): Promise<void>;
+
+  deletePrefix(prefix: string): Promise<void>;
+}
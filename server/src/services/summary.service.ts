@@ -0,0 +1,146 @@
+import { db } from '../db';
+import { chatSummaries } from '../db/schemas/chat.schema';
+import { eq } from 'drizzle-orm';
+import { MessageService } from './message.service';
+import { UsageService } from './usage.service';
+import { buildDocumentReference, buildSummaryContext, buildSummaryPrompt, type LLMProvider } from './llm';
+import { DEFAULT_CONTEXT_TOKEN_BUDGET, estimateMessageTokens, estimateTokens } from '../utils/context';
+import type { MessageMetadata } from '../types/chat.types';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+// Summarize once at least this many messages have aged out of the recent window
+const SUMMARY_MIN_MESSAGES = Number(process.env.SUMMARY_MIN_MESSAGES) || 4;
+
+// Recent messages stay out of the summary while they still fit in half the context budget,
+// so nothing drops out of the model's history before it has been summarized
+const RECENT_TOKEN_BUDGET = Math.floor(DEFAULT_CONTEXT_TOKEN_BUDGET / 2);
+
+// Upper bound on the transcript folded into the summary by one request
+const MAX_TRANSCRIPT_TOKENS = 6000;
+
+// Chats with a refresh in flight; overlapping refreshes would fold the same messages twice
+const refreshing = new Set<string>();
+
+type SummaryMessage = {
+  role: string;
+  content: string;
+  metadata: MessageMetadata | null;
+  createdAt: Date;
+};
+
+const toTranscriptLine = (message: SummaryMessage): string => {
+  const speaker = message.role === 'user' ? 'User' : 'Borz';
+  const attachments = (message.metadata?.attachments || []).map(attachment =>
+    attachment.type === 'image' ? '[Attached image]' : buildDocumentReference({
+      fileName: attachment.fileName || 'document',
+      pages: attachment.pages,
+    })
+  );
+
+  // A single oversized message is cut so it cannot exceed the request on its own
+  const content = message.content.substring(0, MAX_TRANSCRIPT_TOKENS * 4);
+
+  return `${speaker}: ${[...attachments, content].filter(Boolean).join('\n')}`;
+};
+
+export class SummaryService {
+  // Get the running summary for a chat, if one has been written
+  static async getSummary(chatId: string) {
+    const [summary] = await db
+      .select()
+      .from(chatSummaries)
+      .where(eq(chatSummaries.chatId, chatId));
+
+    return summary ?? null;
+  }
+
+  // System prompt context for a turn whose history window left out older messages
+  static buildSystemContext(summary: { content: string } | null, omitted: number): string | undefined {
+    return summary && omitted > 0 ? buildSummaryContext(summary.content) : undefined;
+  }
+
+  // Fold messages that have aged out of the recent window into the chat's summary;
+  // the request counts toward `userId`'s token usage like any other generation
+  static async refresh(chatId: string, provider: LLMProvider, userId: string): Promise<void> {
+    if (refreshing.has(chatId)) {
+      return;
+    }
+    refreshing.add(chatId);
+
+    try {
+      const summary = await SummaryService.getSummary(chatId);
+
+      // Follow the branch the user is on; variants they switched away from are not summarized
+      const path = await MessageService.getPath(chatId);
+      const pending = summary
+        ? path.filter(message => message.createdAt.getTime() > summary.summarizedThrough.getTime())
+        : path;
+
+      // Leave the most recent messages out; they are still sent to the model verbatim
+      let recentStart = pending.length;
+      let recentTokens = 0;
+      while (recentStart > 0) {
+        const cost = estimateMessageTokens(pending[recentStart - 1]);
+        if (recentTokens + cost > RECENT_TOKEN_BUDGET) break;
+        recentTokens += cost;
+        recentStart--;
+      }
+
+      const aged = pending.slice(0, recentStart);
+      if (aged.length < SUMMARY_MIN_MESSAGES) {
+        return;
+      }
+
+      // Oldest first; anything left over is picked up by the next refresh
+      const batch: SummaryMessage[] = [];
+      let batchTokens = 0;
+      for (const message of aged) {
+        const cost = estimateMessageTokens(message);
+        if (batch.length > 0 && batchTokens + cost > MAX_TRANSCRIPT_TOKENS) break;
+        batch.push(message);
+        batchTokens += cost;
+      }
+
+      const transcript = batch.map(toTranscriptLine).join('\n\n');
+      const prompt = buildSummaryPrompt(summary?.content ?? null, transcript);
+      const content = (await UsageService.meterResponse(
+        { userId, chatId, provider, promptTokens: estimateTokens(prompt) },
+        onUsage => provider.generateResponse(prompt, [], { onUsage })
+      )).trim();
+      if (!content) {
+        return;
+      }
+
+      const summarizedThrough = batch[batch.length - 1].createdAt;
+      const messageCount = (summary?.messageCount ?? 0) + batch.length;
+
+      await db
+        .insert(chatSummaries)
+        .values({ chatId, content, summarizedThrough, messageCount, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: chatSummaries.chatId,
+          set: { content, summarizedThrough, messageCount, updatedAt: new Date() },
+        });
+
+      if (DEBUG) console.log(`🧾 Summary for chat ${chatId} now covers ${messageCount} messages`);
+    } finally {
+      refreshing.delete(chatId);
+    }
+  }
+
+  // Drop the summary if it covers messages from `since` on, e.g. after the user switched branches there
+  static async invalidateFrom(chatId: string, since: Date): Promise<void> {
+    const summary = await SummaryService.getSummary(chatId);
+    if (summary && summary.summarizedThrough.getTime() >= since.getTime()) {
+      await SummaryService.deleteForChat(chatId);
+    }
+  }
+
+  // Drop the summary when a chat's messages are cleared
+  static async deleteForChat(chatId: string): Promise<void> {
+    await db
+      .delete(chatSummaries)
+      .where(eq(chatSummaries.chatId, chatId));
+  }
+}
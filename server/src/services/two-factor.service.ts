@@ -0,0 +1,245 @@
+import { randomInt } from 'crypto';
+import { db } from '../db';
+import { users, userTwoFactor, recoveryCodes } from '../db/schemas/auth.schema';
+import { and, eq, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/auth/totp';
+import { generateTwoFactorChallengeToken, verifyTwoFactorChallengeToken } from '../utils/auth/jwt';
+import { hashToken } from '../utils/auth/tokens';
+import { decryptSecret, encryptSecret } from '../utils/crypto';
+import { SessionService, type SessionClient } from './session.service';
+import { rateLimiters, RateLimitError } from './rate-limit';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+// Name shown next to the account in authenticator apps
+const TOTP_ISSUER = 'Borz AI';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// No look-alike characters, since the codes are often written down
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+// Codes are shown as `xxxxx-xxxxx`; dashes, spaces and case don't matter when entered
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const generateRecoveryCode = (): string => {
+  const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+};
+
+export class TwoFactorService {
+  // Whether the user's sign-ins need a second factor
+  static async isEnabled(userId: string): Promise<boolean> {
+    const [record] = await db
+      .select({ userId: userTwoFactor.userId })
+      .from(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)));
+
+    return !!record;
+  }
+
+  static async getStatus(userId: string) {
+    const [record] = await db
+      .select({ enabledAt: userTwoFactor.enabledAt })
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId));
+
+    const [{ remaining }] = await db
+      .select({ remaining: sql<number>`count(*)`.mapWith(Number) })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+
+    return {
+      enabled: !!record?.enabledAt,
+      enabledAt: record?.enabledAt ?? null,
+      recoveryCodesRemaining: remaining,
+    };
+  }
+
+  /**
+   * Start enrollment with a new secret; it takes effect once `enable` confirms a code from it
+   */
+  static async setup(userId: string) {
+    const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (await TwoFactorService.isEnabled(userId)) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const encryptedSecret = encryptSecret(secret);
+
+    await db
+      .insert(userTwoFactor)
+      .values({ userId, encryptedSecret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { encryptedSecret, enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER),
+    };
+  }
+
+  /**
+   * Finish enrollment with a code from the authenticator; returns the recovery codes, shown only this once
+   */
+  static async enable(userId: string, code: string) {
+    const [record] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId));
+
+    if (!record) {
+      throw new Error('Start two-factor setup first');
+    }
+    if (record.enabledAt) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(decryptSecret(record.encryptedSecret), code);
+    if (step === null) {
+      throw new Error('Invalid verification code');
+    }
+
+    await db
+      .update(userTwoFactor)
+      .set({ enabledAt: new Date(), lastUsedStep: step })
+      .where(eq(userTwoFactor.userId, userId));
+
+    if (DEBUG) console.log(`🔐 Two-factor authentication enabled for user ${userId}`);
+
+    return { recoveryCodes: await TwoFactorService.replaceRecoveryCodes(userId) };
+  }
+
+  // Turn 2FA off; needs a current code so a stolen session alone can't do it
+  static async disable(userId: string, code: string) {
+    await TwoFactorService.verifyCode(userId, code);
+
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+
+    if (DEBUG) console.log(`🔓 Two-factor authentication disabled for user ${userId}`);
+
+    return { success: true };
+  }
+
+  // New set of recovery codes; the old ones stop working
+  static async regenerateRecoveryCodes(userId: string, code: string) {
+    await TwoFactorService.verifyCode(userId, code);
+
+    return { recoveryCodes: await TwoFactorService.replaceRecoveryCodes(userId) };
+  }
+
+  /**
+   * Short-lived token returned by a correct password when the account has 2FA;
+   * it is traded for a session together with a code
+   */
+  static createChallenge(userId: string) {
+    return {
+      twoFactorRequired: true as const,
+      challengeToken: generateTwoFactorChallengeToken(userId),
+    };
+  }
+
+  /**
+   * Second sign-in step: check the code for a challenge and start the session
+   */
+  static async verifyLogin(challengeToken: string, code: string, client: SessionClient = {}) {
+    const decoded = verifyTwoFactorChallengeToken(challengeToken);
+    if (!decoded) {
+      throw new Error('Sign-in expired. Please sign in again');
+    }
+
+    // Limited per account, so spreading guesses over many IPs doesn't help
+    const limit = await rateLimiters.twoFactor.consume(decoded.userId);
+    if (!limit.allowed) {
+      throw new RateLimitError(limit.retryAfterSeconds);
+    }
+
+    await TwoFactorService.verifyCode(decoded.userId, code);
+    await rateLimiters.twoFactor.reset(decoded.userId);
+
+    const [user] = await db.select().from(users).where(eq(users.id, decoded.userId));
+    if (!user) {
+      throw new Error('Sign-in expired. Please sign in again');
+    }
+
+    const { token, refreshToken } = await SessionService.create(user, client);
+
+    return {
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        isVerified: user.isVerified,
+        hasPassword: user.password !== null,
+      },
+      token,
+      refreshToken,
+    };
+  }
+
+  /**
+   * Accept a TOTP code (each time step only once) or an unused recovery code
+   */
+  private static async verifyCode(userId: string, code: string) {
+    const [record] = await db
+      .select()
+      .from(userTwoFactor)
+      .where(and(eq(userTwoFactor.userId, userId), isNotNull(userTwoFactor.enabledAt)));
+
+    if (!record) {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+
+    const step = verifyTotp(decryptSecret(record.encryptedSecret), code);
+    if (step !== null) {
+      // Moving lastUsedStep forward claims the code, so it can't be replayed within its window
+      const [claimed] = await db
+        .update(userTwoFactor)
+        .set({ lastUsedStep: step })
+        .where(and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+        ))
+        .returning({ userId: userTwoFactor.userId });
+
+      if (claimed) return;
+      throw new Error('Invalid verification code');
+    }
+
+    const [usedRecoveryCode] = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, hashToken(normalizeRecoveryCode(code))),
+        isNull(recoveryCodes.usedAt)
+      ))
+      .returning({ id: recoveryCodes.id });
+
+    if (!usedRecoveryCode) {
+      throw new Error('Invalid verification code');
+    }
+
+    if (DEBUG) console.log(`🔑 Recovery code used by user ${userId}`);
+  }
+
+  private static async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    await db.insert(recoveryCodes).values(codes.map(code => ({
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+    })));
+
+    return codes;
+  }
+}
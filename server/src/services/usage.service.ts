@@ -0,0 +1,164 @@
+import { db } from '../db';
+import { usageEvents } from '../db/schemas/usage.schema';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import type { LLMProvider, TokenUsage } from './llm';
+import { estimateTokens } from '../utils/context';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+// Token limits per user, summed over prompt and completion tokens; unset or 0 = unlimited
+const DAILY_TOKEN_LIMIT = Number(process.env.USAGE_DAILY_TOKEN_LIMIT) || null;
+const MONTHLY_TOKEN_LIMIT = Number(process.env.USAGE_MONTHLY_TOKEN_LIMIT) || null;
+
+// Days of history returned for the usage chart
+const HISTORY_DAYS = 30;
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface UsageContext {
+  userId: string;
+  chatId: string;
+  provider: LLMProvider;
+  model?: string; // Model override from the user's settings
+  promptTokens: number; // Estimate, used when the provider reports no counts
+}
+
+export type QuotaResult =
+  | { allowed: true }
+  | { allowed: false; period: QuotaPeriod; limit: number; resetsAt: Date };
+
+// Quota periods follow UTC calendar days and months
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const startOfMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+const startOfNextDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+const startOfNextMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+
+const totalTokens = sql<number>`coalesce(sum(${usageEvents.promptTokens} + ${usageEvents.completionTokens}), 0)`.mapWith(Number);
+
+export const quotaMessage = (period: QuotaPeriod, resetsAt: Date): string => {
+  return `You have used your ${period} token allowance. It resets ${resetsAt.toISOString()}.`;
+};
+
+export class UsageService {
+  /**
+   * Wrap a streaming generation so its token usage is recorded once the stream ends,
+   * including streams that fail or are cancelled after producing output.
+   * `generate` receives the callback to pass as `onUsage` in the generation options.
+   */
+  static async *meter(
+    context: UsageContext,
+    generate: (onUsage: (usage: TokenUsage) => void) => AsyncGenerator<string, void, unknown>
+  ): AsyncGenerator<string, void, unknown> {
+    let reported: TokenUsage | undefined;
+    let response = '';
+
+    try {
+      for await (const chunk of generate(usage => { reported = usage; })) {
+        response += chunk;
+        yield chunk;
+      }
+    } finally {
+      // A request that failed before answering is not billed
+      if (reported || response) {
+        UsageService.record(context, reported ?? {
+          promptTokens: context.promptTokens,
+          completionTokens: estimateTokens(response),
+        }, !reported).catch(err => console.error('Failed to record usage:', err));
+      }
+    }
+  }
+
+  /**
+   * Run a non-streaming generation and record its token usage once it answers
+   */
+  static async meterResponse(
+    context: UsageContext,
+    generate: (onUsage: (usage: TokenUsage) => void) => Promise<string>
+  ): Promise<string> {
+    let reported: TokenUsage | undefined;
+    const response = await generate(usage => { reported = usage; });
+
+    UsageService.record(context, reported ?? {
+      promptTokens: context.promptTokens,
+      completionTokens: estimateTokens(response),
+    }, !reported).catch(err => console.error('Failed to record usage:', err));
+
+    return response;
+  }
+
+  static async record(context: UsageContext, usage: TokenUsage, estimated = false) {
+    await db.insert(usageEvents).values({
+      userId: context.userId,
+      chatId: context.chatId,
+      provider: context.provider.name,
+      model: context.model ?? null,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      estimated,
+    });
+
+    if (DEBUG) console.log(`📊 Usage for user ${context.userId}: ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens${estimated ? ' (estimated)' : ''}`);
+  }
+
+  // Tokens used in the current day and month
+  private static async getTotals(userId: string, now: Date) {
+    const dayStart = startOfDay(now);
+    const [totals] = await db
+      .select({
+        daily: sql<number>`coalesce(sum(${usageEvents.promptTokens} + ${usageEvents.completionTokens}) filter (where ${usageEvents.createdAt} >= ${dayStart}), 0)`.mapWith(Number),
+        monthly: totalTokens,
+      })
+      .from(usageEvents)
+      .where(and(eq(usageEvents.userId, userId), gte(usageEvents.createdAt, startOfMonth(now))));
+
+    return totals ?? { daily: 0, monthly: 0 };
+  }
+
+  // Checked before a generation starts; the one that crosses a limit is allowed to finish
+  static async checkQuota(userId: string): Promise<QuotaResult> {
+    if (!DAILY_TOKEN_LIMIT && !MONTHLY_TOKEN_LIMIT) {
+      return { allowed: true };
+    }
+
+    const now = new Date();
+    const totals = await UsageService.getTotals(userId, now);
+
+    if (MONTHLY_TOKEN_LIMIT && totals.monthly >= MONTHLY_TOKEN_LIMIT) {
+      return { allowed: false, period: 'monthly', limit: MONTHLY_TOKEN_LIMIT, resetsAt: startOfNextMonth(now) };
+    }
+    if (DAILY_TOKEN_LIMIT && totals.daily >= DAILY_TOKEN_LIMIT) {
+      return { allowed: false, period: 'daily', limit: DAILY_TOKEN_LIMIT, resetsAt: startOfNextDay(now) };
+    }
+
+    return { allowed: true };
+  }
+
+  // Consumption against the quotas, plus a per-day breakdown for the last month
+  static async getUsage(userId: string) {
+    const now = new Date();
+    const since = new Date(startOfDay(now).getTime() - (HISTORY_DAYS - 1) * 24 * 60 * 60 * 1000);
+    const day = sql<string>`to_char(${usageEvents.createdAt}, 'YYYY-MM-DD')`;
+
+    const [totals, days] = await Promise.all([
+      UsageService.getTotals(userId, now),
+      db
+        .select({
+          date: day,
+          promptTokens: sql<number>`coalesce(sum(${usageEvents.promptTokens}), 0)`.mapWith(Number),
+          completionTokens: sql<number>`coalesce(sum(${usageEvents.completionTokens}), 0)`.mapWith(Number),
+        })
+        .from(usageEvents)
+        .where(and(eq(usageEvents.userId, userId), gte(usageEvents.createdAt, since)))
+        .groupBy(day)
+        .orderBy(day),
+    ]);
+
+    return {
+      usage: {
+        daily: { used: totals.daily, limit: DAILY_TOKEN_LIMIT, resetsAt: startOfNextDay(now) },
+        monthly: { used: totals.monthly, limit: MONTHLY_TOKEN_LIMIT, resetsAt: startOfNextMonth(now) },
+        days,
+      },
+    };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Attachment stored in the blob store and referenced from message metadata
+ */
+export interface MessageAttachment {
+  id: string;
+  type: 'image' | 'document';
+  key: string;
+  mimeType: string;
+  size: number;
+  fileName?: string;
+  pages?: number;
+  textKey?: string; // Extracted document text, kept so the file can be re-indexed without re-parsing
+  url?: string; // Signed download URL, added when returned to the client
+}
+
+/**
+ * Shape of the `messages.metadata` jsonb column
+ */
+export interface MessageMetadata {
+  attachments?: MessageAttachment[];
+  truncated?: boolean; // Assistant response stopped by the user before it finished
+}
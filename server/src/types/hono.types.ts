@@ -7,5 +7,6 @@ export type AuthContext = Context<{
   Variables: {
     userId: string;
     email: string;
+    sessionId: string;
   };
 }>;
\ No newline at end of file
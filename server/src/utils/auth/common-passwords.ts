@@ -0,0 +1,26 @@
+/**
+ * Offline blocklist of the most common passwords from public breach corpora, lowercased.
+ * Checked against the whole password and against it with trailing digits/symbols removed,
+ * so variations like "Password123!" are caught too.
+ */
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', '123456789', '12345678', '1234567890', '1234567', '12345', '1234', '111111', '000000',
+  '123123', '654321', '666666', '121212', '112233', '123321', '987654321', '11111111', '88888888',
+  'password', 'passw0rd', 'p@ssword', 'p@ssw0rd', 'pass', 'passwd', 'password1', 'pa55word',
+  'qwerty', 'qwertyuiop', 'qwerty123', 'qwe123', 'qazwsx', 'asdfgh', 'asdfghjkl', 'zxcvbnm',
+  '1q2w3e4r', '1q2w3e', 'q1w2e3r4', '1qaz2wsx', 'zaq12wsx', 'abc123', 'abcd1234', 'a1b2c3',
+  'abcdef', 'abcdefg', 'abcdefgh', 'iloveyou', 'iloveu', 'letmein', 'welcome', 'welcome1',
+  'admin', 'administrator', 'root', 'toor', 'login', 'master', 'changeme', 'default', 'guest',
+  'secret', 'trustno1', 'access', 'monkey', 'dragon', 'shadow', 'sunshine', 'princess',
+  'football', 'baseball', 'basketball', 'soccer', 'hockey', 'superman', 'batman', 'starwars',
+  'pokemon', 'michael', 'jordan', 'jennifer', 'charlie', 'daniel', 'jessica', 'ashley',
+  'michelle', 'thomas', 'robert', 'matthew', 'andrew', 'joshua', 'hunter', 'ranger', 'buster',
+  'harley', 'tigger', 'ginger', 'pepper', 'cookie', 'cheese', 'summer', 'winter',
+  'flower', 'hello', 'freedom', 'whatever', 'computer', 'internet', 'samsung', 'google',
+  'mustang', 'killer', 'maggie', 'lovely', 'loveme', 'babygirl', 'angel', 'blink182',
+  'chocolate', 'butterfly', 'purple', 'orange', 'banana', 'liverpool', 'chelsea', 'arsenal',
+  'qwerty1', 'zxcvbn', 'asdf', 'asdf1234', 'aaaaaa', 'aa123456', 'test', 'test123', 'testing',
+  'temp', 'temp123', 'user', 'demo', 'hello123', 'hellohello', 'nothing', 'secret123',
+  'mypassword', 'newpassword', 'yourpassword', 'passpass', 'letmein123', 'iloveyou1',
+  'starwars1', 'monkey123', 'dragon123', 'master123', 'admin123', 'root123', 'welcome123',
+]);
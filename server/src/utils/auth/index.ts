@@ -4,5 +4,8 @@
 
 export * from './jwt';
 export * from './password';
+export * from './password-policy';
+export * from './tokens';
+export * from './totp';
 export * from './validation';
 
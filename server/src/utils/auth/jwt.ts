@@ -2,7 +2,7 @@ import 'dotenv/config';
 import jwt, { SignOptions } from 'jsonwebtoken';
 
 const JWT_SECRET: string = process.env.JWT_SECRET!;
-const JWT_EXPIRATION: string = process.env.JWT_EXPIRATION || '7d';
+const JWT_EXPIRATION: string = process.env.JWT_EXPIRATION || '15m'; // Short-lived; clients renew it with their refresh token
 
 if (!JWT_SECRET) {
     throw new Error('JWT_SECRET must be set in environment variables');
@@ -11,6 +11,7 @@ if (!JWT_SECRET) {
 export interface JwtPayload {
     userId: string;
     email: string;
+    sessionId: string;
 }
 
 export const generateToken = (payload: JwtPayload): string => {
@@ -20,8 +21,12 @@ export const generateToken = (payload: JwtPayload): string => {
 
 export const verifyToken = (token: string): JwtPayload => {
     try {
-        const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-        return decoded;
+        const decoded = jwt.verify(token, JWT_SECRET) as Partial<JwtPayload>;
+        // Tokens issued before sessions existed can't be revoked, so they are no longer accepted
+        if (!decoded.userId || !decoded.email || !decoded.sessionId) {
+            throw new Error('Invalid token');
+        }
+        return { userId: decoded.userId, email: decoded.email, sessionId: decoded.sessionId };
     } catch (error) {
         throw new Error('Invalid token');
     }
@@ -42,4 +47,78 @@ export const verifyResetToken = (token: string): {userId: string} | null => {
     } catch (error) {
         return null;
     }
-}
\ No newline at end of file
+}
+
+export const generateVerificationToken = (userId: string, email: string): string => {
+    const options: SignOptions = { expiresIn: '24h' };
+    return jwt.sign({ userId, email, type: 'email-verification' }, JWT_SECRET, options);
+}
+
+export const verifyVerificationToken = (token: string): {userId: string, email: string} | null => {
+    try {
+        const decoded = jwt.verify(token, JWT_SECRET) as {userId: string, email: string, type?: string};
+        if (decoded.type !== 'email-verification') {
+            return null;
+        }
+        return { userId: decoded.userId, email: decoded.email };
+    } catch (error) {
+        return null;
+    }
+}
+
+export const generateAttachmentToken = (key: string): string => {
+    const options: SignOptions = { expiresIn: '24h' };
+    return jwt.sign({ key, type: 'attachment' }, JWT_SECRET, options);
+}
+
+export const verifyAttachmentToken = (token: string): {key: string} | null => {
+    try {
+        const decoded = jwt.verify(token, JWT_SECRET) as {key: string, type?: string};
+        if (decoded.type !== 'attachment') {
+            return null;
+        }
+        return { key: decoded.key };
+    } catch (error) {
+        return null;
+    }
+}
+
+export interface OAuthState {
+    provider: string;
+    redirectUri: string; // App deep link that receives the result
+    linkUserId?: string; // Set when a signed-in user is connecting the provider to their account
+}
+
+export const generateOAuthStateToken = (state: OAuthState): string => {
+    const options: SignOptions = { expiresIn: '10m' };
+    return jwt.sign({ ...state, type: 'oauth-state' }, JWT_SECRET, options);
+}
+
+export const verifyOAuthStateToken = (token: string): OAuthState | null => {
+    try {
+        const decoded = jwt.verify(token, JWT_SECRET) as OAuthState & {type?: string};
+        if (decoded.type !== 'oauth-state') {
+            return null;
+        }
+        return { provider: decoded.provider, redirectUri: decoded.redirectUri, linkUserId: decoded.linkUserId };
+    } catch (error) {
+        return null;
+    }
+}
+
+export const generateTwoFactorChallengeToken = (userId: string): string => {
+    const options: SignOptions = { expiresIn: '5m' };
+    return jwt.sign({ userId, type: '2fa-challenge' }, JWT_SECRET, options);
+}
+
+export const verifyTwoFactorChallengeToken = (token: string): {userId: string} | null => {
+    try {
+        const decoded = jwt.verify(token, JWT_SECRET) as {userId: string, type?: string};
+        if (decoded.type !== '2fa-challenge') {
+            return null;
+        }
+        return { userId: decoded.userId };
+    } catch (error) {
+        return null;
+    }
+}
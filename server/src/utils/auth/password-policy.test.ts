@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkPasswordPolicy, passwordSchema, PASSWORD_MAX_LENGTH, type PasswordRuleId } from './password-policy';
+
+const failedRules = (password: string): PasswordRuleId[] =>
+  checkPasswordPolicy(password).rules.filter(rule => !rule.passed).map(rule => rule.id);
+
+describe('checkPasswordPolicy', () => {
+  it('accepts a password that passes every rule', () => {
+    const result = checkPasswordPolicy('Tangerine-Orbit-42');
+
+    assert.equal(result.valid, true);
+    assert.deepEqual(failedRules('Tangerine-Orbit-42'), []);
+  });
+
+  it('reports every rule, in order, so clients can show them all', () => {
+    const { valid, rules } = checkPasswordPolicy('');
+
+    assert.equal(valid, false);
+    assert.deepEqual(rules.map(rule => rule.id), ['length', 'uppercase', 'lowercase', 'number', 'symbol', 'notCommon']);
+    rules.forEach(rule => assert.ok(rule.message));
+  });
+
+  it('checks each character class', () => {
+    assert.deepEqual(failedRules('tangerine-orbit-42'), ['uppercase']);
+    assert.deepEqual(failedRules('TANGERINE-ORBIT-42'), ['lowercase']);
+    assert.deepEqual(failedRules('Tangerine-Orbit-xx'), ['number']);
+    assert.deepEqual(failedRules('TangerineOrbit42'), ['symbol']);
+  });
+
+  it('enforces the length bounds', () => {
+    assert.deepEqual(failedRules('Ta-4'), ['length']);
+    assert.deepEqual(failedRules(`Ta-4${'x'.repeat(PASSWORD_MAX_LENGTH)}`), ['length']);
+  });
+
+  it('blocks common passwords regardless of case', () => {
+    assert.ok(failedRules('Password').includes('notCommon'));
+    assert.ok(failedRules('QWERTY').includes('notCommon'));
+  });
+
+  it('blocks common passwords with digits and symbols tacked on', () => {
+    assert.deepEqual(failedRules('Password123!'), ['notCommon']);
+    assert.deepEqual(failedRules('Welcome2024?'), ['notCommon']);
+  });
+
+  it('allows common words inside longer passwords', () => {
+    assert.deepEqual(failedRules('My-Password-Manager-7'), []);
+  });
+});
+
+describe('passwordSchema', () => {
+  it('turns each failed rule into an issue tagged with the rule id', () => {
+    const result = passwordSchema.safeParse('password');
+
+    assert.equal(result.success, false);
+    const rules = result.error!.issues.map(issue => (issue as { params?: { rule?: string } }).params?.rule);
+    assert.deepEqual(rules, ['uppercase', 'number', 'symbol', 'notCommon']);
+  });
+
+  it('accepts a valid password unchanged', () => {
+    assert.equal(passwordSchema.parse('Tangerine-Orbit-42'), 'Tangerine-Orbit-42');
+  });
+});
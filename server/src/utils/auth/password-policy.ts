@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+/**
+ * Password policy shared by signup, password reset and change-password.
+ * Every rule is checked so clients can show which ones still fail.
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+export type PasswordRuleId = 'length' | 'uppercase' | 'lowercase' | 'number' | 'symbol' | 'notCommon';
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  message: string;
+  passed: boolean;
+}
+
+const isCommonPassword = (password: string) => {
+  const lower = password.toLowerCase();
+  const base = lower.replace(/[^a-z]+$/, ''); // "Password123!" -> "password"
+  return COMMON_PASSWORDS.has(lower) || COMMON_PASSWORDS.has(base);
+};
+
+const PASSWORD_RULES: { id: PasswordRuleId; message: string; test: (password: string) => boolean }[] = [
+  {
+    id: 'length',
+    message: `Must be ${PASSWORD_MIN_LENGTH} to ${PASSWORD_MAX_LENGTH} characters`,
+    test: password => password.length >= PASSWORD_MIN_LENGTH && password.length <= PASSWORD_MAX_LENGTH,
+  },
+  { id: 'uppercase', message: 'Must contain an uppercase letter', test: password => /[A-Z]/.test(password) },
+  { id: 'lowercase', message: 'Must contain a lowercase letter', test: password => /[a-z]/.test(password) },
+  { id: 'number', message: 'Must contain a number', test: password => /[0-9]/.test(password) },
+  { id: 'symbol', message: 'Must contain a symbol', test: password => /[^A-Za-z0-9]/.test(password) },
+  { id: 'notCommon', message: 'Must not be a commonly used password', test: password => !isCommonPassword(password) },
+];
+
+/**
+ * Check a password against every rule
+ */
+export const checkPasswordPolicy = (password: string) => {
+  const rules: PasswordRuleResult[] = PASSWORD_RULES.map(rule => ({
+    id: rule.id,
+    message: rule.message,
+    passed: rule.test(password),
+  }));
+
+  return { valid: rules.every(rule => rule.passed), rules };
+};
+
+/**
+ * Zod schema for a new password; each failed rule becomes an issue with `params.rule` set to its id
+ */
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  for (const rule of checkPasswordPolicy(password).rules) {
+    if (!rule.passed) {
+      ctx.addIssue({ code: 'custom', message: rule.message, params: { rule: rule.id } });
+    }
+  }
+});
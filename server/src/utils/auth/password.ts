@@ -8,22 +8,3 @@ export const hashPassword = async (password: string) => {
 export const verifyPassword = async (password: string, hashedPassword: string) => {
     return await bcrypt.compare(password, hashedPassword);
 };
-
-export const validatePassword = (password: string) => {
-    if (password.length < 8) {
-        throw new Error('Password must be at least 8 characters');
-    }
-    if (!/[A-Z]/.test(password)) {
-        throw new Error('Password must contain at least one uppercase letter');
-    }
-    if (!/[a-z]/.test(password)) {
-        throw new Error('Password must contain at least one lowercase letter');
-    }
-    if (!/[0-9]/.test(password)) {
-        throw new Error('Password must contain at least one number');
-    }
-    if (!/[!@#$%^&*]/.test(password)) {
-        throw new Error('Password must contain at least one special character');
-    }
-    return true;
-}
\ No newline at end of file
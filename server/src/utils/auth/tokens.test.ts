@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateRefreshToken, hashToken, parseRefreshToken } from './tokens';
+
+const SESSION_ID = '3f2b9c1e-8d4a-4b6f-9e2d-1a7c5e0b8f42';
+
+describe('refresh tokens', () => {
+    it('carry the session id and a fresh secret each time', () => {
+        const first = generateRefreshToken(SESSION_ID);
+        const second = generateRefreshToken(SESSION_ID);
+
+        assert.ok(first.startsWith(`${SESSION_ID}.`));
+        assert.notEqual(first, second);
+        assert.deepEqual(parseRefreshToken(first), { sessionId: SESSION_ID });
+    });
+
+    it('reject tokens without a session id or secret', () => {
+        assert.equal(parseRefreshToken(''), null);
+        assert.equal(parseRefreshToken(SESSION_ID), null);
+        assert.equal(parseRefreshToken(`${SESSION_ID}.`), null);
+        assert.equal(parseRefreshToken('not-a-session.secret'), null);
+    });
+});
+
+describe('hashToken', () => {
+    it('is a stable sha256 hex digest', () => {
+        assert.equal(hashToken('abc'), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        assert.equal(hashToken('abc'), hashToken('abc'));
+        assert.notEqual(hashToken('abc'), hashToken('abd'));
+    });
+});
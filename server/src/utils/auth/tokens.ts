@@ -0,0 +1,26 @@
+import { createHash, randomBytes } from 'crypto';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Refresh tokens are `<sessionId>.<random secret>`, so a token that was already rotated
+ * still identifies its session and the reuse can be detected
+ */
+export const generateRefreshToken = (sessionId: string): string => {
+    return `${sessionId}.${randomBytes(32).toString('base64url')}`;
+};
+
+export const parseRefreshToken = (token: string): { sessionId: string } | null => {
+    const [sessionId, secret] = token.split('.');
+    if (!sessionId || !secret || !UUID_REGEX.test(sessionId)) {
+        return null;
+    }
+    return { sessionId };
+};
+
+/**
+ * Tokens are random and high-entropy, so a fast unsalted hash is enough for storage
+ */
+export const hashToken = (token: string): string => {
+    return createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+
+// RFC 6238 appendix B: the ASCII secret "12345678901234567890", base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('verifyTotp', () => {
+    it('accepts the RFC 6238 test vectors and returns the matched step', () => {
+        assert.equal(verifyTotp(RFC_SECRET, '287082', 59 * 1000), 1);
+        assert.equal(verifyTotp(RFC_SECRET, '081804', 1111111109 * 1000), 37037036);
+        assert.equal(verifyTotp(RFC_SECRET, '005924', 1234567890 * 1000), 41152263);
+    });
+
+    it('accepts a code one step either side of the current one', () => {
+        assert.equal(verifyTotp(RFC_SECRET, '081804', (1111111109 + 30) * 1000), 37037036);
+        assert.equal(verifyTotp(RFC_SECRET, '081804', (1111111109 - 30) * 1000), 37037036);
+    });
+
+    it('rejects a code more than one step away', () => {
+        assert.equal(verifyTotp(RFC_SECRET, '081804', (1111111109 + 60) * 1000), null);
+        assert.equal(verifyTotp(RFC_SECRET, '081804', (1111111109 - 60) * 1000), null);
+    });
+
+    it('ignores whitespace in the code', () => {
+        assert.equal(verifyTotp(RFC_SECRET, '287 082', 59 * 1000), 1);
+    });
+
+    it('rejects codes that are not six digits', () => {
+        assert.equal(verifyTotp(RFC_SECRET, '28708', 59 * 1000), null);
+        assert.equal(verifyTotp(RFC_SECRET, '2870820', 59 * 1000), null);
+        assert.equal(verifyTotp(RFC_SECRET, '28708a', 59 * 1000), null);
+    });
+
+    it('accepts lowercase secrets', () => {
+        assert.equal(verifyTotp(RFC_SECRET.toLowerCase(), '287082', 59 * 1000), 1);
+    });
+
+    it('throws on a secret that is not base32', () => {
+        assert.throws(() => verifyTotp('NOT-BASE32!', '287082'), /Invalid base32 secret/);
+    });
+});
+
+describe('generateTotpSecret', () => {
+    it('returns 160 random bits as 32 base32 characters', () => {
+        const secret = generateTotpSecret();
+        assert.match(secret, /^[A-Z2-7]{32}$/);
+        assert.notEqual(generateTotpSecret(), secret);
+    });
+});
+
+describe('buildOtpauthUri', () => {
+    it('labels the account with the issuer and carries the code parameters', () => {
+        const uri = buildOtpauthUri(RFC_SECRET, 'ada@example.com', 'Chat App');
+        const [base, query] = uri.split('?');
+        const params = new URLSearchParams(query);
+
+        assert.equal(base, 'otpauth://totp/Chat%20App%3Aada%40example.com');
+        assert.equal(params.get('secret'), RFC_SECRET);
+        assert.equal(params.get('issuer'), 'Chat App');
+        assert.equal(params.get('digits'), '6');
+        assert.equal(params.get('period'), '30');
+    });
+});
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { passwordSchema } from './password-policy';
 
 /**
  * Email validation regex
@@ -32,10 +33,7 @@ export const signupSchema = z.object({
     .string()
     .email('Invalid email format')
     .transform(normalizeEmail),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .max(128, 'Password must be less than 128 characters'),
+  password: passwordSchema,
 });
 
 export type SignupInput = z.infer<typeof signupSchema>;
@@ -70,14 +68,71 @@ export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
  */
 export const resetPasswordSchema = z.object({
   token: z.string().min(1, 'Token is required'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .max(128, 'Password must be less than 128 characters'),
+  password: passwordSchema,
 });
 
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
 
+/**
+ * Change password validation schema
+ */
+export const changePasswordSchema = z.object({
+  // Optional only for accounts that don't have a password yet
+  currentPassword: z.string().optional(),
+  newPassword: passwordSchema,
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+
+/**
+ * Update profile validation schema
+ */
+export const updateProfileSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must be less than 100 characters')
+    .trim()
+    .optional(),
+  email: z
+    .string()
+    .email('Invalid email format')
+    .transform(normalizeEmail)
+    .optional(),
+  // Required to change the email address, unless the account has no password
+  currentPassword: z.string().optional(),
+}).refine(data => data.name !== undefined || data.email !== undefined, {
+  message: 'Nothing to update',
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+
+/**
+ * Delete account validation schema
+ */
+export const deleteAccountSchema = z.object({
+  // Required unless the account has no password
+  password: z.string().optional(),
+});
+
+export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>;
+
+/**
+ * Password strength check schema
+ */
+export const passwordCheckSchema = z.object({
+  password: z.string(),
+});
+
+/**
+ * Refresh token validation schema
+ */
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+
 /**
  * Verify email validation schema
  */
@@ -86,3 +141,31 @@ export const verifyEmailSchema = z.object({
 });
 
 export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+
+/**
+ * OAuth start validation schema
+ */
+export const oauthStartSchema = z.object({
+  redirectUri: z.string().min(1, 'Redirect URI is required'),
+});
+
+/**
+ * OAuth code exchange validation schema
+ */
+export const oauthExchangeSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+});
+
+/**
+ * Two-factor code validation schema; accepts an authenticator code or a recovery code
+ */
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32, 'Code is too long'),
+});
+
+/**
+ * Two-factor sign-in validation schema
+ */
+export const twoFactorVerifySchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+});
@@ -0,0 +1,6 @@
+/**
+ * Export all context window utilities from a single entry point
+ */
+
+export * from './tokens';
+export * from './window';
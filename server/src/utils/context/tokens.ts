@@ -0,0 +1,32 @@
+import type { MessageMetadata } from '../../types/chat.types';
+
+// Rough average for English text across common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+// Approximate cost of one image input (Gemini bills small images at 258 tokens)
+export const IMAGE_TOKENS = 258;
+
+// Documents only contribute a short reference line to history
+const DOCUMENT_REFERENCE_TOKENS = 16;
+
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Estimate the token cost of a stored message, including its attachments
+ */
+export const estimateMessageTokens = (message: { content: string; metadata?: MessageMetadata | null }): number => {
+  const attachmentTokens = (message.metadata?.attachments || []).reduce(
+    (total, attachment) => total + (attachment.type === 'image' ? IMAGE_TOKENS : DOCUMENT_REFERENCE_TOKENS),
+    0
+  );
+
+  return estimateTokens(message.content) + attachmentTokens + MESSAGE_OVERHEAD_TOKENS;
+};
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildContextWindow, type ContextMessage } from './window';
+import { estimateMessageTokens, estimateTokens } from './tokens';
+import type { MessageAttachment } from '../../types/chat.types';
+
+const attachment = (type: MessageAttachment['type']): MessageAttachment => ({
+  id: type,
+  type,
+  key: `${type}-key`,
+  mimeType: type === 'image' ? 'image/png' : 'application/pdf',
+  size: 1024,
+});
+
+// 40 characters: 10 tokens of content plus 4 of overhead
+const turn = (role: string, label: string): ContextMessage => ({ role, content: label.padEnd(40, '.') });
+
+describe('estimateTokens', () => {
+  it('rounds up at four characters per token', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('abcd'), 1);
+    assert.equal(estimateTokens('abcde'), 2);
+  });
+});
+
+describe('estimateMessageTokens', () => {
+  it('adds per-message overhead to the content', () => {
+    assert.equal(estimateMessageTokens({ content: 'abcdefgh' }), 2 + 4);
+  });
+
+  it('counts images at their fixed cost and documents as a short reference', () => {
+    const message = { content: 'abcdefgh', metadata: { attachments: [attachment('image'), attachment('document')] } };
+    // Content, one image, one document reference, overhead
+    assert.equal(estimateMessageTokens(message), 2 + 258 + 16 + 4);
+  });
+});
+
+describe('buildContextWindow', () => {
+  const history = [turn('user', 'q1'), turn('assistant', 'a1'), turn('user', 'q2'), turn('assistant', 'a2')];
+
+  it('keeps the whole history when it fits', () => {
+    const window = buildContextWindow(history, { tokenBudget: 1000 });
+
+    assert.deepEqual(window.messages, history);
+    assert.equal(window.omitted, 0);
+    assert.equal(window.tokens, 4 * 14);
+  });
+
+  it('drops the oldest messages that do not fit', () => {
+    const window = buildContextWindow(history, { tokenBudget: 2 * 14 });
+
+    assert.deepEqual(window.messages, history.slice(2));
+    assert.equal(window.omitted, 2);
+  });
+
+  it('counts the pending prompt against the budget', () => {
+    const window = buildContextWindow(history, { tokenBudget: 4 * 14, prompt: 'abcd' });
+
+    // One token short for the oldest pair; dropping the first turn leaves an assistant turn to drop too
+    assert.deepEqual(window.messages, history.slice(2));
+    assert.equal(window.omitted, 2);
+  });
+
+  it('starts with a user turn', () => {
+    const window = buildContextWindow(history, { tokenBudget: 3 * 14 });
+
+    assert.deepEqual(window.messages, history.slice(2));
+    assert.equal(window.omitted, 2);
+  });
+
+  it('returns nothing when no user turn fits', () => {
+    const window = buildContextWindow(history, { tokenBudget: 14 });
+
+    assert.deepEqual(window.messages, []);
+    assert.equal(window.omitted, 4);
+    assert.equal(window.tokens, 0);
+  });
+
+  it('merges consecutive turns from the same role, keeping their attachments', () => {
+    const window = buildContextWindow(
+      [
+        { role: 'user', content: 'first', metadata: { attachments: [attachment('image')] } },
+        { role: 'user', content: 'second', metadata: { attachments: [attachment('document')] } },
+        { role: 'assistant', content: 'reply' },
+      ],
+      { tokenBudget: 1000 }
+    );
+
+    assert.equal(window.messages.length, 2);
+    assert.equal(window.messages[0].content, 'first\n\nsecond');
+    assert.deepEqual(window.messages[0].metadata?.attachments?.map(a => a.type), ['image', 'document']);
+    assert.equal(window.omitted, 0);
+  });
+});
@@ -0,0 +1,80 @@
+import type { MessageMetadata } from '../../types/chat.types';
+import { estimateMessageTokens, estimateTokens } from './tokens';
+
+export interface ContextMessage {
+  role: string;
+  content: string;
+  metadata?: MessageMetadata | null;
+}
+
+export interface ContextWindowOptions {
+  tokenBudget?: number;
+  prompt?: string; // The pending user prompt, counted against the budget
+}
+
+export interface ContextWindow {
+  messages: ContextMessage[];
+  omitted: number; // Older messages that did not fit
+  tokens: number;
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = Number(process.env.CONTEXT_TOKEN_BUDGET) || 8000;
+
+/**
+ * Merge consecutive turns from the same role so roles strictly alternate
+ */
+const mergeConsecutiveRoles = (messages: ContextMessage[]): ContextMessage[] => {
+  const merged: ContextMessage[] = [];
+
+  for (const message of messages) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === message.role) {
+      const attachments = [
+        ...(previous.metadata?.attachments || []),
+        ...(message.metadata?.attachments || []),
+      ];
+      merged[merged.length - 1] = {
+        role: previous.role,
+        content: [previous.content, message.content].filter(Boolean).join('\n\n'),
+        metadata: attachments.length > 0 ? { ...previous.metadata, attachments } : previous.metadata,
+      };
+    } else {
+      merged.push(message);
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Select as much recent history as fits in the token budget, newest first.
+ * The result starts with a user turn and alternates user/assistant (Gemini requirement).
+ */
+export const buildContextWindow = (
+  history: ContextMessage[],
+  { tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET, prompt = '' }: ContextWindowOptions = {}
+): ContextWindow => {
+  let remaining = tokenBudget - estimateTokens(prompt);
+  let start = history.length;
+
+  while (start > 0) {
+    const cost = estimateMessageTokens(history[start - 1]);
+    if (cost > remaining) break;
+    remaining -= cost;
+    start--;
+  }
+
+  let selected = history.slice(start);
+
+  // Ensure history starts with a 'user' message
+  const firstUserIndex = selected.findIndex(msg => msg.role === 'user');
+  selected = firstUserIndex === -1 ? [] : selected.slice(firstUserIndex);
+
+  const messages = mergeConsecutiveRoles(selected);
+
+  return {
+    messages,
+    omitted: history.length - selected.length,
+    tokens: messages.reduce((total, msg) => total + estimateMessageTokens(msg), 0),
+  };
+};
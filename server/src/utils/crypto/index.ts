@@ -0,0 +1,5 @@
+/**
+ * Export all crypto utilities from a single entry point
+ */
+
+export * from './secrets';
@@ -0,0 +1,49 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const FORMAT_VERSION = 'v1';
+
+/**
+ * 32-byte key derived from API_KEY_ENCRYPTION_KEY. Read lazily so deployments
+ * that don't store user secrets can run without it.
+ */
+const getMasterKey = (): Buffer => {
+  const secret = process.env.API_KEY_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('API_KEY_ENCRYPTION_KEY must be set to store API keys');
+  }
+
+  return createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Encrypt a secret for storage: `v1:<iv>:<auth tag>:<ciphertext>`, all base64
+ */
+export const encryptSecret = (plaintext: string): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getMasterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64'))
+    .join(':');
+};
+
+/**
+ * Decrypt a value produced by encryptSecret; throws if it was tampered with or the master key changed
+ */
+export const decryptSecret = (encrypted: string): string => {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported secret format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getMasterKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+};
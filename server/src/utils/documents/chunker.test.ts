@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkDocument } from './chunker';
+
+// Distinct numbered words, so overlap between chunks is easy to see
+const words = (count: number) => Array.from({ length: count }, (_, i) => `w${i}`).join(' ');
+
+describe('chunkDocument', () => {
+  it('returns a single chunk for short text, with whitespace collapsed', () => {
+    const chunks = chunkDocument({ text: '  Hello\n\n  world\t!  ', metadata: {} });
+
+    assert.deepEqual(chunks, [{ index: 0, content: 'Hello world !', page: undefined }]);
+  });
+
+  it('returns no chunks for blank text', () => {
+    assert.deepEqual(chunkDocument({ text: ' \n\t ', metadata: {} }), []);
+  });
+
+  it('splits long text into overlapping chunks no longer than the chunk size', () => {
+    const text = words(200);
+    const chunks = chunkDocument({ text, metadata: {} }, { chunkSize: 100, overlap: 20 });
+
+    assert.ok(chunks.length > 1);
+    chunks.forEach((chunk, i) => {
+      assert.equal(chunk.index, i);
+      assert.ok(chunk.content.length <= 100);
+    });
+
+    // Each chunk starts inside the previous one
+    for (let i = 1; i < chunks.length; i++) {
+      const firstWord = chunks[i].content.split(' ')[1];
+      assert.ok(chunks[i - 1].content.includes(firstWord), `chunk ${i} does not overlap chunk ${i - 1}`);
+    }
+
+    // Nothing is lost between chunks
+    assert.ok(chunks[0].content.startsWith('w0 '));
+    assert.ok(chunks[chunks.length - 1].content.endsWith('w199'));
+  });
+
+  it('breaks on whitespace rather than mid-word', () => {
+    const text = words(200);
+    const chunks = chunkDocument({ text, metadata: {} }, { chunkSize: 100, overlap: 0 });
+
+    assert.equal(chunks.map(chunk => chunk.content).join(' '), text);
+  });
+
+  it('chunks each page separately and records its page number', () => {
+    const chunks = chunkDocument(
+      {
+        text: 'ignored when pages are present',
+        metadata: {},
+        pageTexts: [
+          { page: 1, text: 'First page.' },
+          { page: 2, text: words(60) },
+        ],
+      },
+      { chunkSize: 100, overlap: 20 }
+    );
+
+    assert.deepEqual(chunks[0], { index: 0, content: 'First page.', page: 1 });
+    assert.ok(chunks.length > 2);
+    chunks.slice(1).forEach((chunk, i) => {
+      assert.equal(chunk.page, 2);
+      assert.equal(chunk.index, i + 1);
+    });
+  });
+});
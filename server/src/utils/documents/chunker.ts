@@ -0,0 +1,60 @@
+import type { ParsedDocument } from './parser';
+
+export interface DocumentChunk {
+  index: number;
+  content: string;
+  page?: number;
+}
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+/**
+ * Split text into overlapping chunks, preferring to break on whitespace
+ */
+const splitText = (text: string, chunkSize: number, overlap: number): string[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + chunkSize, normalized.length);
+
+    if (end < normalized.length) {
+      const lastSpace = normalized.lastIndexOf(' ', end);
+      if (lastSpace > start + chunkSize / 2) {
+        end = lastSpace;
+      }
+    }
+
+    chunks.push(normalized.slice(start, end).trim());
+
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks.filter(Boolean);
+};
+
+/**
+ * Chunk a parsed document, keeping track of which page each chunk came from
+ */
+export const chunkDocument = (
+  document: ParsedDocument,
+  { chunkSize = 1000, overlap = 200 }: ChunkOptions = {}
+): DocumentChunk[] => {
+  const sections = document.pageTexts?.length
+    ? document.pageTexts.map(({ page, text }) => ({ page, text }))
+    : [{ page: undefined, text: document.text }];
+
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    for (const content of splitText(section.text, chunkSize, overlap)) {
+      chunks.push({ index: chunks.length, content, page: section.page });
+    }
+  }
+
+  return chunks;
+};
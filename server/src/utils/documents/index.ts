@@ -0,0 +1,6 @@
+/**
+ * Export all document utilities from a single entry point
+ */
+
+export * from './parser';
+export * from './chunker';
@@ -0,0 +1,70 @@
+import mammoth from 'mammoth';
+
+const DEBUG = process.env.NODE_ENV !== 'production';
+
+export interface PageText {
+  page: number;
+  text: string;
+}
+
+export interface ParsedDocument {
+  text: string;
+  metadata: any;
+  pageTexts?: PageText[]; // Per-page text, when the format has pages (PDF)
+}
+
+export const parseDocument = async (documentBase64: string, mimeType: string, fileName: string): Promise<ParsedDocument> => {
+  try {
+    const buffer = Buffer.from(documentBase64, 'base64');
+
+    if (DEBUG) console.log(`📄 Parsing document: ${fileName} (${mimeType})`);
+
+    // Handle PDF files
+    if (mimeType === 'application/pdf') {
+      // Use dynamic require for pdf-parse v2 (CommonJS module)
+      const { PDFParse } = require('pdf-parse');
+      // pdf-parse v2 expects 'data' not 'buffer'
+      const parser = new PDFParse({ data: buffer });
+      const result = await parser.getText();
+      return {
+        text: result.text,
+        metadata: {
+          pages: result.total ?? result.pages?.length,
+          info: result.info || {},
+        },
+        pageTexts: (result.pages || []).map((page: { num: number; text: string }) => ({
+          page: page.num,
+          text: page.text,
+        })),
+      };
+    }
+
+    // Handle Word documents (.docx)
+    if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+      const result = await mammoth.extractRawText({ buffer });
+      return {
+        text: result.value,
+        metadata: {
+          messages: result.messages,
+        },
+      };
+    }
+
+    // Handle plain text files
+    if (mimeType === 'text/plain' || mimeType === 'text/markdown') {
+      return {
+        text: buffer.toString('utf-8'),
+        metadata: {},
+      };
+    }
+
+    throw new Error(`Unsupported document type: ${mimeType}`);
+  } catch (error: any) {
+    console.error('Document parsing error:', {
+      message: error.message,
+      fileName,
+      mimeType,
+    });
+    throw new Error(`Failed to parse document: ${error.message || 'Unknown error'}`);
+  }
+};
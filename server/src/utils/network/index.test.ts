@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveClientIp } from './index';
+
+describe('resolveClientIp', () => {
+  it('ignores X-Forwarded-For when no proxy is trusted', () => {
+    assert.equal(resolveClientIp('1.1.1.1', '10.0.0.1', 0), '10.0.0.1');
+  });
+
+  it('uses the connecting address when there is no X-Forwarded-For', () => {
+    assert.equal(resolveClientIp(undefined, '10.0.0.1', 1), '10.0.0.1');
+    assert.equal(resolveClientIp('', '10.0.0.1', 1), '10.0.0.1');
+  });
+
+  it('takes the entry appended by the outermost trusted proxy', () => {
+    assert.equal(resolveClientIp('203.0.113.7', '10.0.0.1', 1), '203.0.113.7');
+    assert.equal(resolveClientIp('203.0.113.7, 10.0.0.2', '10.0.0.1', 2), '203.0.113.7');
+  });
+
+  it('ignores entries the client wrote itself', () => {
+    assert.equal(resolveClientIp('6.6.6.6, 203.0.113.7', '10.0.0.1', 1), '203.0.113.7');
+    assert.equal(resolveClientIp('6.6.6.6,,203.0.113.7 ', '10.0.0.1', 1), '203.0.113.7');
+  });
+
+  it('falls back to the connecting address when there are fewer hops than proxies', () => {
+    assert.equal(resolveClientIp('203.0.113.7', '10.0.0.1', 2), '10.0.0.1');
+  });
+});
@@ -0,0 +1,51 @@
+import type { Context } from 'hono';
+import type { Socket } from 'socket.io';
+import { getConnInfo } from '@hono/node-server/conninfo';
+
+/**
+ * Number of proxies in front of the server that append to X-Forwarded-For (1 on Railway).
+ * Unset or 0 means none: forwarding headers are ignored, since any client can send them.
+ */
+const TRUST_PROXY_HOPS = Math.max(0, Number(process.env.TRUST_PROXY_HOPS) || 0);
+
+/**
+ * Client address from an X-Forwarded-For value and the connecting address.
+ * Each trusted proxy appends the address it received from, so the client is the entry
+ * `TRUST_PROXY_HOPS` from the right; anything further left was written by the client.
+ */
+export const resolveClientIp = (
+  forwardedFor: string | undefined,
+  remoteAddress: string | undefined,
+  trustedHops: number = TRUST_PROXY_HOPS
+): string | undefined => {
+  if (trustedHops === 0 || !forwardedFor) {
+    return remoteAddress;
+  }
+
+  const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean);
+  // Fewer hops than proxies: the request didn't come through all of them
+  return hops[hops.length - trustedHops] ?? remoteAddress;
+};
+
+/**
+ * Client IP for a request
+ */
+export const getClientIp = (c: Context): string | undefined => {
+  let remoteAddress: string | undefined;
+  try {
+    remoteAddress = getConnInfo(c).remote.address;
+  } catch {
+    // Not running on the Node adapter
+  }
+
+  return resolveClientIp(c.req.header('X-Forwarded-For'), remoteAddress);
+};
+
+/**
+ * Client IP for a socket connection
+ */
+export const getSocketIp = (socket: Socket): string => {
+  const forwarded = socket.handshake.headers['x-forwarded-for'];
+  return resolveClientIp(Array.isArray(forwarded) ? forwarded.join(',') : forwarded, socket.handshake.address)
+    ?? socket.handshake.address;
+};
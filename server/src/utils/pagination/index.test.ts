@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeChatCursor, encodeChatCursor } from './index';
+
+const ID = '3f2b9c1e-8d4a-4b6f-9e2d-1a7c5e0b8f42';
+
+const rawCursor = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('chat cursors', () => {
+  it('round-trips the timestamp text and id', () => {
+    const updatedAt = '2026-03-14 09:26:53.589793';
+    assert.deepEqual(decodeChatCursor(encodeChatCursor(updatedAt, ID)), { updatedAt, id: ID });
+  });
+
+  it('keeps microseconds that a JS date would drop', () => {
+    const cursor = decodeChatCursor(encodeChatCursor('2026-03-14 09:26:53.000001', ID));
+    assert.equal(cursor.updatedAt, '2026-03-14 09:26:53.000001');
+  });
+
+  it('is URL safe', () => {
+    assert.match(encodeChatCursor('2026-03-14 09:26:53.589793', ID), /^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects cursors that are not base64 JSON', () => {
+    assert.throws(() => decodeChatCursor('not a cursor'), /Invalid cursor/);
+    assert.throws(() => decodeChatCursor(''), /Invalid cursor/);
+  });
+
+  it('rejects cursors with a bad timestamp or id', () => {
+    assert.throws(() => decodeChatCursor(rawCursor(['yesterday', ID])), /Invalid cursor/);
+    assert.throws(() => decodeChatCursor(rawCursor(['2026-03-14 09:26:53', 'chat-1'])), /Invalid cursor/);
+    assert.throws(() => decodeChatCursor(rawCursor(['2026-03-14 09:26:53', "'; DROP TABLE chats; --"])), /Invalid cursor/);
+    assert.throws(() => decodeChatCursor(rawCursor({ updatedAt: '2026-03-14 09:26:53', id: ID })), /Invalid cursor/);
+  });
+});
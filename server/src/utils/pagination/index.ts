@@ -0,0 +1,20 @@
+/**
+ * Opaque cursors for keyset pagination
+ */
+
+// Chat list cursors point just past the last chat returned. The timestamp is kept as Postgres
+// text, since JS dates would drop the microseconds and skip or repeat chats at page edges.
+export const encodeChatCursor = (updatedAt: string, id: string): string =>
+  Buffer.from(JSON.stringify([updatedAt, id])).toString('base64url');
+
+export const decodeChatCursor = (cursor: string): { updatedAt: string; id: string } => {
+  try {
+    const [updatedAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof updatedAt === 'string' && !Number.isNaN(Date.parse(updatedAt)) && typeof id === 'string' && /^[0-9a-f-]{36}$/i.test(id)) {
+      return { updatedAt, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+};